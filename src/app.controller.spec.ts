@@ -1,6 +1,14 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { Test, TestingModule } from '@nestjs/testing';
+import { I18nService, I18nValidationPipe } from 'nestjs-i18n';
+import request from 'supertest';
+import { App } from 'supertest/types';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { TransformInterceptor } from './common/interceptors/transform.interceptor';
+import { MetricsService } from './common/services/metrics.service';
 
 describe('AppController', () => {
   let appController: AppController;
@@ -20,3 +28,104 @@ describe('AppController', () => {
     });
   });
 });
+
+describe('AppController settings (HTTP)', () => {
+  let app: INestApplication<App>;
+
+  beforeEach(async () => {
+    const moduleRef: TestingModule = await Test.createTestingModule({
+      controllers: [AppController],
+      providers: [
+        AppService,
+        MetricsService,
+        { provide: I18nService, useValue: { translate: (key: string) => key } },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            METRICS_ENABLED: false,
+            FALLBACK_LANGUAGE: 'en',
+          }),
+        },
+        { provide: APP_INTERCEPTOR, useClass: TransformInterceptor },
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    // Same pipe options as main.ts
+    app.useGlobalPipes(
+      new I18nValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should apply an update carrying the current ETag as If-Match', async () => {
+    const { headers } = await request(app.getHttpServer())
+      .get('/settings')
+      .expect(200);
+    const etag = headers['etag'];
+    expect(etag).toBeDefined();
+
+    const updated = await request(app.getHttpServer())
+      .patch('/settings')
+      .set('If-Match', etag)
+      .send({ maintenanceMode: true })
+      .expect(200);
+
+    expect(updated.body).toMatchObject({ data: { maintenanceMode: true } });
+  });
+
+  it('should reject an update based on a stale ETag with 412', async () => {
+    const { headers } = await request(app.getHttpServer())
+      .get('/settings')
+      .expect(200);
+    const staleEtag = headers['etag'];
+
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .set('If-Match', staleEtag)
+      .send({ supportEmail: 'help@example.com' })
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .set('If-Match', staleEtag)
+      .send({ maintenanceMode: true })
+      .expect(412);
+
+    const current = await request(app.getHttpServer())
+      .get('/settings')
+      .expect(200);
+    expect(current.body).toMatchObject({ data: { maintenanceMode: false } });
+  });
+
+  it('should reject invalid or unknown fields with 400', async () => {
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .send({ maintenanceMode: 'notabool' })
+      .expect(400);
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .send({ supportEmail: 'not-an-email' })
+      .expect(400);
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .send({ evil: 'x' })
+      .expect(400);
+
+    const current = await request(app.getHttpServer())
+      .get('/settings')
+      .expect(200);
+    expect(current.body).toMatchObject({
+      data: { maintenanceMode: false, supportEmail: 'support@example.com' },
+    });
+    expect(current.body).not.toHaveProperty('data.evil');
+  });
+});
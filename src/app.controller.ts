@@ -1,11 +1,19 @@
 import {
+  Body,
   Controller,
   Get,
   InternalServerErrorException,
   Logger,
+  Patch,
+  Req,
 } from '@nestjs/common';
+import type { Request } from 'express';
 import { AppService } from './app.service';
+import type { AppSettings } from './app.service';
 import { I18nService } from 'nestjs-i18n';
+import { Redact } from './common/decorators/redaction.decorator';
+import { assertPreconditions } from './common/utils/http-cache.util';
+import { UpdateSettingsDto } from './dto/update-settings.dto';
 
 @Controller()
 export class AppController {
@@ -16,6 +24,7 @@ export class AppController {
   ) {}
 
   @Get()
+  @Redact('jwt')
   getHello(): object {
     return {
       message: `${this.i18n.t('common.HELLO')}`,
@@ -30,4 +39,19 @@ export class AppController {
       this.i18n.t('common.ERROR.BAD_REQUEST'),
     );
   }
+
+  @Get('settings')
+  getSettings(): AppSettings {
+    return this.appService.getSettings();
+  }
+
+  // Clients send the ETag of GET /settings as If-Match to avoid lost updates
+  @Patch('settings')
+  updateSettings(
+    @Req() request: Request,
+    @Body() changes: UpdateSettingsDto,
+  ): AppSettings {
+    assertPreconditions(request, { data: this.appService.getSettings() });
+    return this.appService.updateSettings(changes);
+  }
 }
@@ -4,10 +4,27 @@ import { AppService } from './app.service';
 import { ConfigInfrastructureModule } from './infrastructure/config-infrastructure-module.module';
 import { LoggingInfrastructureModuleModule } from './infrastructure/logging-infrastructure-module.module';
 import { I18nInfrastructureModule } from './infrastructure/i18n-infrastructure-module.module';
-import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
+import { MaskingInfrastructureModule } from './infrastructure/masking-infrastructure-module.module';
+import { HealthInfrastructureModule } from './infrastructure/health-infrastructure-module.module';
+import { MetricsInfrastructureModule } from './infrastructure/metrics-infrastructure-module.module';
+import { TracingInfrastructureModule } from './infrastructure/tracing-infrastructure-module.module';
+import { RequestContextInfrastructureModule } from './infrastructure/request-context-infrastructure-module.module';
+import { TrustedProxyInfrastructureModule } from './infrastructure/trusted-proxy-infrastructure-module.module';
+import { IpPrivacyInfrastructureModule } from './infrastructure/ip-privacy-infrastructure-module.module';
+import { EnvelopeInfrastructureModule } from './infrastructure/envelope-infrastructure-module.module';
+import { RateLimitInfrastructureModule } from './infrastructure/rate-limit-infrastructure-module.module';
+import { IdempotencyInfrastructureModule } from './infrastructure/idempotency-infrastructure-module.module';
+import { ResponseCacheInfrastructureModule } from './infrastructure/response-cache-infrastructure-module.module';
+import { HttpClientInfrastructureModule } from './infrastructure/http-client-infrastructure-module.module';
+import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
+import { RouteMetadataGuard } from './common/guards/route-metadata.guard';
 import { TransformInterceptor } from './common/interceptors/transform.interceptor';
+import { IdempotencyInterceptor } from './common/interceptors/idempotency.interceptor';
+import { RateLimitInterceptor } from './common/interceptors/rate-limit.interceptor';
+import { ResponseCacheInterceptor } from './common/interceptors/response-cache.interceptor';
 import { CorrelationIdMiddleware } from './common/middleware/correlation-id.middleware';
+import { MetricsMiddleware } from './common/middleware/metrics.middleware';
 import { RequestMethod } from '@nestjs/common';
 
 @Module({
@@ -15,6 +32,18 @@ import { RequestMethod } from '@nestjs/common';
     ConfigInfrastructureModule,
     LoggingInfrastructureModuleModule,
     I18nInfrastructureModule,
+    MaskingInfrastructureModule,
+    HealthInfrastructureModule,
+    MetricsInfrastructureModule,
+    TracingInfrastructureModule,
+    RequestContextInfrastructureModule,
+    TrustedProxyInfrastructureModule,
+    IpPrivacyInfrastructureModule,
+    EnvelopeInfrastructureModule,
+    RateLimitInfrastructureModule,
+    IdempotencyInfrastructureModule,
+    ResponseCacheInfrastructureModule,
+    HttpClientInfrastructureModule,
   ],
   controllers: [AppController],
   providers: [
@@ -24,16 +53,37 @@ import { RequestMethod } from '@nestjs/common';
       provide: APP_FILTER,
       useClass: AllExceptionsFilter,
     },
+    // AppModule is scanned before its imports, so this runs before every other global guard
+    // and the filter can honour route metadata for errors thrown by those guards
+    {
+      provide: APP_GUARD,
+      useClass: RouteMetadataGuard,
+    },
+    // User-keyed rate limits run after all guards (authentication) but before replays and cache hits
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: RateLimitInterceptor,
+    },
+    // Registered before TransformInterceptor so it wraps it and stores the envelope
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: IdempotencyInterceptor,
+    },
     {
       provide: APP_INTERCEPTOR,
       useClass: TransformInterceptor,
     },
+    // Registered after TransformInterceptor so it caches data, not the envelope
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ResponseCacheInterceptor,
+    },
   ],
 })
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer
-      .apply(CorrelationIdMiddleware)
+      .apply(CorrelationIdMiddleware, MetricsMiddleware)
       .forRoutes(
         { path: '', method: RequestMethod.ALL },
         { path: '*path', method: RequestMethod.ALL },
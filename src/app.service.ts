@@ -1,8 +1,32 @@
 import { Injectable } from '@nestjs/common';
 
+/** Sample resource used to demonstrate conditional requests */
+export interface AppSettings {
+  maintenanceMode: boolean;
+  supportEmail: string;
+}
+
 @Injectable()
 export class AppService {
+  private settings: AppSettings = {
+    maintenanceMode: false,
+    supportEmail: 'support@example.com',
+  };
+
   getHello(): string {
     return 'Hello World!';
   }
+
+  getSettings(): AppSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(changes: Partial<AppSettings>): AppSettings {
+    // Validated DTOs carry omitted optional fields as undefined
+    const defined = Object.entries(changes).filter(
+      ([, value]) => value !== undefined,
+    );
+    this.settings = { ...this.settings, ...Object.fromEntries(defined) };
+    return this.getSettings();
+  }
 }
@@ -0,0 +1,69 @@
+import { ConfigService } from '@nestjs/config';
+import { CorrelationIdFormat } from '../enums/correlation-id-format.enum';
+import { CorrelationIdRejectPolicy } from '../enums/correlation-id-reject-policy.enum';
+import { IdGenerator } from '../enums/id-generator.enum';
+import { ICorrelationIdOptions } from '../interfaces/correlation-id-options.interface';
+import { createIpMatcher, parseCidrList } from '../utils/cidr.util';
+import { ID_GENERATORS } from '../utils/id-generator.util';
+
+/** Characters allowed in correlation IDs by default; excludes CR/LF and quotes */
+export const DEFAULT_CORRELATION_ID_CHARSET = 'A-Za-z0-9._:-';
+
+const FORMAT_PATTERNS: Record<
+  Exclude<CorrelationIdFormat, CorrelationIdFormat.REGEX>,
+  RegExp | undefined
+> = {
+  [CorrelationIdFormat.ANY]: undefined,
+  [CorrelationIdFormat.UUID]:
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  [CorrelationIdFormat.ULID]: /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i,
+};
+
+/**
+ * Build CorrelationIdMiddleware settings from environment variables.
+ * Validation always enforces the maximum length and the allowed charset;
+ * the format adds a stricter pattern on top.
+ * @param configService - Config service holding validated CORRELATION_ID_* variables
+ */
+export function getCorrelationIdOptions(
+  configService: ConfigService,
+): ICorrelationIdOptions {
+  const format = configService.get<CorrelationIdFormat>(
+    'CORRELATION_ID_FORMAT',
+    CorrelationIdFormat.ANY,
+  );
+  const maxLength = configService.get<number>('CORRELATION_ID_MAX_LENGTH', 128);
+  const charset = new RegExp(
+    `^[${configService.get<string>('CORRELATION_ID_CHARSET', DEFAULT_CORRELATION_ID_CHARSET)}]+$`,
+  );
+  const pattern =
+    format === CorrelationIdFormat.REGEX
+      ? new RegExp(configService.getOrThrow<string>('CORRELATION_ID_PATTERN'))
+      : FORMAT_PATTERNS[format];
+
+  const trustedSources = parseCidrList(
+    configService.get<string>('CORRELATION_ID_TRUSTED_SOURCES'),
+  );
+  const isTrustedIp = createIpMatcher(trustedSources);
+
+  return {
+    isValid: (id) =>
+      id.length > 0 &&
+      id.length <= maxLength &&
+      charset.test(id) &&
+      (!pattern || pattern.test(id)),
+    rejectPolicy: configService.get<CorrelationIdRejectPolicy>(
+      'CORRELATION_ID_REJECT_POLICY',
+      CorrelationIdRejectPolicy.REGENERATE,
+    ),
+    // Without a trust list every caller may supply its own ID
+    isTrustedSource: (ip) => trustedSources.length === 0 || isTrustedIp(ip),
+    generateRequestId:
+      ID_GENERATORS[
+        configService.get<IdGenerator>(
+          'REQUEST_ID_GENERATOR',
+          IdGenerator.UUID_V4,
+        )
+      ],
+  };
+}
@@ -37,4 +37,151 @@ export const envValidationSchema = Joi.object({
   GLOBAL_PREFIX: Joi.string().required(),
   FALLBACK_LANGUAGE: Joi.string().valid('tr', 'en').required(),
   I18N_PATH: Joi.string().required(),
+
+  // Language Settings
+  SUPPORTED_LANGUAGES: Joi.string().default('tr,en'),
+  LANGUAGE_RESOLVERS: Joi.string()
+    .allow('')
+    .default('query,header,cookie,user,accept-language'),
+  LANGUAGE_QUERY_PARAM: Joi.string().default('lang'),
+  LANGUAGE_HEADER: Joi.string().default('x-lang'),
+  LANGUAGE_COOKIE: Joi.string().default('lang'),
+  LANGUAGE_USER_PROPERTY: Joi.string().default('language'),
+
+  // Correlation ID Settings
+  CORRELATION_ID_FORMAT: Joi.string()
+    .valid('any', 'uuid', 'ulid', 'regex')
+    .default('any'),
+  CORRELATION_ID_PATTERN: Joi.string().when('CORRELATION_ID_FORMAT', {
+    is: 'regex',
+    then: Joi.required(),
+  }),
+  CORRELATION_ID_MAX_LENGTH: Joi.number()
+    .integer()
+    .min(1)
+    .max(1024)
+    .default(128),
+  CORRELATION_ID_CHARSET: Joi.string().optional(),
+  CORRELATION_ID_REJECT_POLICY: Joi.string()
+    .valid('regenerate', 'reject')
+    .default('regenerate'),
+  CORRELATION_ID_TRUSTED_SOURCES: Joi.string().optional(),
+  REQUEST_ID_GENERATOR: Joi.string()
+    .valid('uuidv4', 'uuidv7', 'ulid')
+    .default('uuidv4'),
+
+  // Trusted Proxy Settings
+  TRUSTED_PROXIES: Joi.string().optional(),
+  TRUSTED_PROXY_HOPS: Joi.number().integer().min(0).default(0),
+  TRUSTED_FORWARDED_HEADER: Joi.string()
+    .valid('x-forwarded-for', 'forwarded')
+    .default('x-forwarded-for'),
+  TRUSTED_PROXY_PRESET: Joi.string().valid('cloudflare').optional(),
+  TRUSTED_CLIENT_IP_HEADER: Joi.string().optional(),
+
+  // IP Privacy Settings
+  IP_PRIVACY_MODE: Joi.string()
+    .valid('omit', 'truncate', 'hash', 'keep')
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.string().default('truncate'),
+      otherwise: Joi.string().default('keep'),
+    }),
+  IP_PRIVACY_RESPONSE_MODE: Joi.string()
+    .valid('omit', 'truncate', 'hash', 'keep')
+    .optional(),
+  IP_PRIVACY_LOG_MODE: Joi.string()
+    .valid('omit', 'truncate', 'hash', 'keep')
+    .optional(),
+  IP_PRIVACY_IPV4_PREFIX: Joi.number().integer().min(0).max(32).default(24),
+  IP_PRIVACY_IPV6_PREFIX: Joi.number().integer().min(0).max(128).default(48),
+  IP_PRIVACY_HASH_SECRET: Joi.string().min(16).optional(),
+  IP_PRIVACY_SALT_ROTATION_HOURS: Joi.number().min(1).default(24),
+
+  // Rate Limit Settings
+  RATE_LIMIT_ENABLED: Joi.boolean().default(true),
+  RATE_LIMIT_ALGORITHM: Joi.string()
+    .valid('fixed-window', 'sliding-window', 'token-bucket')
+    .default('sliding-window'),
+  RATE_LIMIT_KEY: Joi.string()
+    .valid('ip', 'user', 'api-key', 'route')
+    .default('ip'),
+  RATE_LIMIT_WINDOW_MS: Joi.number().integer().min(1).default(60000),
+  RATE_LIMIT_GLOBAL_LIMIT: Joi.number().integer().min(1).optional(),
+  RATE_LIMIT_API_KEY_HEADER: Joi.string().default('x-api-key'),
+  RATE_LIMIT_HEADERS_ENABLED: Joi.boolean().default(true),
+
+  // Idempotency Settings
+  IDEMPOTENCY_ENABLED: Joi.boolean().default(true),
+  IDEMPOTENCY_HEADER: Joi.string().default('Idempotency-Key'),
+  IDEMPOTENCY_KEY_MAX_LENGTH: Joi.number().integer().min(1).default(255),
+  IDEMPOTENCY_TTL_MS: Joi.number().integer().min(1).default(86400000),
+  IDEMPOTENCY_IN_FLIGHT_TTL_MS: Joi.number().integer().min(1).default(60000),
+
+  // Error Response Settings
+  PROBLEM_TYPE_BASE_URL: Joi.string().uri().optional(),
+
+  // Envelope Profile Settings
+  ENVELOPE_PROFILE: Joi.string().default('full'),
+  ENVELOPE_PROFILES: Joi.string().optional(),
+  ENVELOPE_PROFILE_HEADER_ENABLED: Joi.boolean().default(true),
+  ENVELOPE_PROFILE_HEADER: Joi.string().default('X-Envelope-Profile'),
+  ENVELOPE_PROFILE_HEADER_PROFILES: Joi.string().allow('').optional(),
+
+  // HTTP Caching Settings
+  ETAG_ENABLED: Joi.boolean().default(true),
+
+  // Response Cache Settings
+  RESPONSE_CACHE_ENABLED: Joi.boolean().default(true),
+  RESPONSE_CACHE_TTL_MS: Joi.number().integer().min(1).default(60000),
+  RESPONSE_CACHE_MAX_ENTRIES: Joi.number().integer().min(1).default(1000),
+  RESPONSE_CACHE_MAX_SIZE_MB: Joi.number().positive().default(50),
+
+  // Outbound HTTP Client Settings
+  HTTP_CLIENT_TIMEOUT_MS: Joi.number().integer().min(1).default(10000),
+  HTTP_CLIENT_RETRIES: Joi.number().integer().min(0).default(2),
+  HTTP_CLIENT_RETRY_BASE_DELAY_MS: Joi.number().integer().min(0).default(200),
+  HTTP_CLIENT_RETRY_MAX_DELAY_MS: Joi.number().integer().min(0).default(5000),
+  HTTP_CLIENT_CIRCUIT_FAILURE_THRESHOLD: Joi.number()
+    .integer()
+    .min(1)
+    .default(5),
+  HTTP_CLIENT_CIRCUIT_RESET_MS: Joi.number().integer().min(1).default(30000),
+  HTTP_CLIENT_LOG_BODIES: Joi.boolean().default(false),
+
+  // Response Redaction Settings
+  RESPONSE_REDACTION_ENABLED: Joi.boolean().default(true),
+  RESPONSE_REDACTION_DETECTORS: Joi.string().optional(),
+  RESPONSE_REDACTION_MAX_DEPTH: Joi.number().integer().min(1).optional(),
+
+  // Masking Engine Settings
+  MASK_KEY_PATTERNS: Joi.string().optional(),
+  MASK_DETECTORS: Joi.string().optional(),
+  MASK_MAX_DEPTH: Joi.number().integer().min(1).default(10),
+  MASK_HASH_SALT: Joi.string().min(16).optional(),
+
+  // API Documentation Settings
+  API_DOCS_ENABLED: Joi.boolean().default(true),
+  API_DOCS_VERSIONS: Joi.string().default('1'),
+
+  // Health Check Settings
+  HEALTH_CHECK_TIMEOUT_MS: Joi.number().integer().min(1).default(3000),
+  HEALTH_MEMORY_HEAP_THRESHOLD_MB: Joi.number().integer().min(1).default(512),
+  HEALTH_EVENT_LOOP_LAG_THRESHOLD_MS: Joi.number().min(1).default(200),
+  HEALTH_DISK_PATH: Joi.string().default('logs'),
+  HEALTH_DISK_THRESHOLD_PERCENT: Joi.number().min(1).max(100).default(90),
+
+  // Metrics Settings
+  METRICS_ENABLED: Joi.boolean().default(true),
+
+  // Tracing Settings
+  TRACING_EXPORTER: Joi.string()
+    .valid('none', 'otlp', 'memory')
+    .default('none'),
+  TRACING_SAMPLE_RATIO: Joi.number().min(0).max(1).default(1),
+  OTEL_SERVICE_NAME: Joi.string().default('nexus-api'),
+  OTEL_EXPORTER_OTLP_ENDPOINT: Joi.string()
+    .uri()
+    .when('TRACING_EXPORTER', { is: 'otlp', then: Joi.required() }),
+  OTEL_EXPORTER_OTLP_HEADERS: Joi.string().optional(),
 });
@@ -0,0 +1,97 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  EnvelopeMetaField,
+  IEnvelopeProfileOptions,
+} from '../interfaces/envelope-profile-options.interface';
+import {
+  createDefaultEnvelopeProfileOptions,
+  ENVELOPE_META_FIELDS,
+} from '../utils/envelope-profile.util';
+
+/**
+ * Splits a comma-separated environment value into trimmed, non-empty entries.
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses ENVELOPE_PROFILES.
+ * Example: "mobile=requestId,timestamp;partner=requestId,correlationId,timestamp"
+ */
+function parseProfiles(
+  value: string | undefined,
+): Record<string, EnvelopeMetaField[]> {
+  const profiles: Record<string, EnvelopeMetaField[]> = {};
+
+  for (const definition of (value ?? '').split(';')) {
+    if (!definition.trim()) {
+      continue;
+    }
+
+    const [name, fields = ''] = definition.split('=');
+    const metaFields = splitList(fields);
+    const unknown = metaFields.filter(
+      (field) => !ENVELOPE_META_FIELDS.includes(field as EnvelopeMetaField),
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown envelope meta field(s) "${unknown.join(', ')}" in profile "${name.trim()}". Available: ${ENVELOPE_META_FIELDS.join(', ')}`,
+      );
+    }
+
+    profiles[name.trim().toLowerCase()] = metaFields as EnvelopeMetaField[];
+  }
+
+  return profiles;
+}
+
+/**
+ * Builds envelope profile settings from environment configuration.
+ *
+ * - ENVELOPE_PROFILE: default profile (`full`)
+ * - ENVELOPE_PROFILES: custom profiles, may redefine built-in ones
+ * - ENVELOPE_PROFILE_HEADER_ENABLED / ENVELOPE_PROFILE_HEADER: client selection header
+ * - ENVELOPE_PROFILE_HEADER_PROFILES: profiles clients may select (`minimal,public`)
+ */
+export function getEnvelopeProfileOptions(
+  configService: ConfigService,
+): IEnvelopeProfileOptions {
+  const defaults = createDefaultEnvelopeProfileOptions();
+  const profiles = {
+    ...defaults.profiles,
+    ...parseProfiles(configService.get<string>('ENVELOPE_PROFILES')),
+  };
+
+  const defaultProfile = configService
+    .get<string>('ENVELOPE_PROFILE', defaults.defaultProfile)
+    .toLowerCase();
+  const headerProfiles = configService.get<string>(
+    'ENVELOPE_PROFILE_HEADER_PROFILES',
+  );
+
+  for (const name of [defaultProfile, ...splitList(headerProfiles)]) {
+    if (!profiles[name.toLowerCase()]) {
+      throw new Error(
+        `Unknown envelope profile "${name}". Available: ${Object.keys(profiles).join(', ')}`,
+      );
+    }
+  }
+
+  return {
+    defaultProfile,
+    profiles,
+    header: configService.get<boolean>('ENVELOPE_PROFILE_HEADER_ENABLED', true)
+      ? configService
+          .get<string>('ENVELOPE_PROFILE_HEADER', defaults.header as string)
+          .toLowerCase()
+      : undefined,
+    headerProfiles:
+      headerProfiles !== undefined
+        ? splitList(headerProfiles).map((name) => name.toLowerCase())
+        : defaults.headerProfiles,
+  };
+}
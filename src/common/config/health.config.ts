@@ -0,0 +1,31 @@
+import { ConfigService } from '@nestjs/config';
+import { I18nService } from 'nestjs-i18n';
+import { IHealthIndicator } from '../interfaces/health-indicator.interface';
+import { MemoryHealthIndicator } from '../health-indicators/memory.health-indicator';
+import { EventLoopLagHealthIndicator } from '../health-indicators/event-loop-lag.health-indicator';
+import { DiskSpaceHealthIndicator } from '../health-indicators/disk-space.health-indicator';
+import { I18nHealthIndicator } from '../health-indicators/i18n.health-indicator';
+
+/**
+ * Build the built-in readiness indicators from environment variables.
+ * @param configService - Config service holding validated HEALTH_* variables
+ * @param i18n - I18n service checked by the i18n indicator
+ */
+export function getDefaultHealthIndicators(
+  configService: ConfigService,
+  i18n: I18nService,
+): IHealthIndicator[] {
+  return [
+    new MemoryHealthIndicator(
+      configService.get<number>('HEALTH_MEMORY_HEAP_THRESHOLD_MB', 512),
+    ),
+    new EventLoopLagHealthIndicator(
+      configService.get<number>('HEALTH_EVENT_LOOP_LAG_THRESHOLD_MS', 200),
+    ),
+    new DiskSpaceHealthIndicator(
+      configService.get<string>('HEALTH_DISK_PATH', 'logs'),
+      configService.get<number>('HEALTH_DISK_THRESHOLD_PERCENT', 90),
+    ),
+    new I18nHealthIndicator(i18n),
+  ];
+}
@@ -0,0 +1,38 @@
+import { ConfigService } from '@nestjs/config';
+import { IHttpClientOptions } from '../interfaces/http-client-options.interface';
+
+/**
+ * Builds outbound HTTP client defaults from environment configuration.
+ *
+ * - HTTP_CLIENT_TIMEOUT_MS: timeout per attempt (10s)
+ * - HTTP_CLIENT_RETRIES: retries of idempotent requests (2)
+ * - HTTP_CLIENT_RETRY_BASE_DELAY_MS / HTTP_CLIENT_RETRY_MAX_DELAY_MS: backoff bounds
+ * - HTTP_CLIENT_CIRCUIT_FAILURE_THRESHOLD: failures opening a circuit (5)
+ * - HTTP_CLIENT_CIRCUIT_RESET_MS: fail-fast period of an open circuit (30s)
+ * - HTTP_CLIENT_LOG_BODIES: log masked request and error response bodies
+ */
+export function getHttpClientOptions(
+  configService: ConfigService,
+): IHttpClientOptions {
+  return {
+    timeoutMs: configService.get<number>('HTTP_CLIENT_TIMEOUT_MS', 10_000),
+    retries: configService.get<number>('HTTP_CLIENT_RETRIES', 2),
+    retryBaseDelayMs: configService.get<number>(
+      'HTTP_CLIENT_RETRY_BASE_DELAY_MS',
+      200,
+    ),
+    retryMaxDelayMs: configService.get<number>(
+      'HTTP_CLIENT_RETRY_MAX_DELAY_MS',
+      5000,
+    ),
+    circuitFailureThreshold: configService.get<number>(
+      'HTTP_CLIENT_CIRCUIT_FAILURE_THRESHOLD',
+      5,
+    ),
+    circuitResetMs: configService.get<number>(
+      'HTTP_CLIENT_CIRCUIT_RESET_MS',
+      30_000,
+    ),
+    logBodies: configService.get<boolean>('HTTP_CLIENT_LOG_BODIES', false),
+  };
+}
@@ -0,0 +1,28 @@
+import { ConfigService } from '@nestjs/config';
+import { IIdempotencyOptions } from '../interfaces/idempotency-options.interface';
+
+/**
+ * Builds Idempotency-Key settings from environment configuration.
+ *
+ * - IDEMPOTENCY_ENABLED: master switch
+ * - IDEMPOTENCY_HEADER: header name (`Idempotency-Key`)
+ * - IDEMPOTENCY_KEY_MAX_LENGTH: longest accepted key
+ * - IDEMPOTENCY_TTL_MS: replay window (24 hours)
+ * - IDEMPOTENCY_IN_FLIGHT_TTL_MS: lock lifetime of unfinished requests (1 minute)
+ */
+export function getIdempotencyOptions(
+  configService: ConfigService,
+): IIdempotencyOptions {
+  return {
+    enabled: configService.get<boolean>('IDEMPOTENCY_ENABLED', true),
+    header: configService
+      .get<string>('IDEMPOTENCY_HEADER', 'Idempotency-Key')
+      .toLowerCase(),
+    maxKeyLength: configService.get<number>('IDEMPOTENCY_KEY_MAX_LENGTH', 255),
+    ttlMs: configService.get<number>('IDEMPOTENCY_TTL_MS', 86_400_000),
+    inFlightTtlMs: configService.get<number>(
+      'IDEMPOTENCY_IN_FLIGHT_TTL_MS',
+      60_000,
+    ),
+  };
+}
@@ -0,0 +1,45 @@
+import { ConfigService } from '@nestjs/config';
+import { IpPrivacyMode } from '../enums/ip-privacy-mode.enum';
+import { IIpPrivacyOptions } from '../interfaces/ip-privacy-options.interface';
+import { createDefaultIpPrivacyOptions } from '../utils/ip-privacy.util';
+
+/**
+ * Builds the IP privacy policy from environment configuration.
+ *
+ * - IP_PRIVACY_MODE: omit, truncate, hash or keep (truncate in production, keep otherwise)
+ * - IP_PRIVACY_RESPONSE_MODE / IP_PRIVACY_LOG_MODE: per-target overrides
+ * - IP_PRIVACY_IPV4_PREFIX / IP_PRIVACY_IPV6_PREFIX: bits kept when truncating
+ * - IP_PRIVACY_HASH_SECRET: secret for hash salts (random per process if unset)
+ * - IP_PRIVACY_SALT_ROTATION_HOURS: lifetime of a hash salt
+ */
+export function getIpPrivacyOptions(
+  configService: ConfigService,
+): IIpPrivacyOptions {
+  const defaults = createDefaultIpPrivacyOptions();
+  const mode = configService.get<IpPrivacyMode>(
+    'IP_PRIVACY_MODE',
+    IpPrivacyMode.KEEP,
+  );
+
+  return {
+    responseMode:
+      configService.get<IpPrivacyMode>('IP_PRIVACY_RESPONSE_MODE') ?? mode,
+    logMode: configService.get<IpPrivacyMode>('IP_PRIVACY_LOG_MODE') ?? mode,
+    ipv4PrefixLength: configService.get<number>(
+      'IP_PRIVACY_IPV4_PREFIX',
+      defaults.ipv4PrefixLength,
+    ),
+    ipv6PrefixLength: configService.get<number>(
+      'IP_PRIVACY_IPV6_PREFIX',
+      defaults.ipv6PrefixLength,
+    ),
+    hashSecret:
+      configService.get<string>('IP_PRIVACY_HASH_SECRET') ??
+      defaults.hashSecret,
+    saltRotationMs:
+      configService.get<number>('IP_PRIVACY_SALT_ROTATION_HOURS', 24) *
+      60 *
+      60 *
+      1000,
+  };
+}
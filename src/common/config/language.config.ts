@@ -0,0 +1,68 @@
+import { ConfigService } from '@nestjs/config';
+import { LanguageSource } from '../enums/language-source.enum';
+import { ILanguageOptions } from '../interfaces/language-options.interface';
+
+const DEFAULT_SOURCES = [
+  LanguageSource.QUERY,
+  LanguageSource.HEADER,
+  LanguageSource.COOKIE,
+  LanguageSource.USER,
+  LanguageSource.ACCEPT_LANGUAGE,
+];
+
+/**
+ * Splits a comma-separated environment value into trimmed, non-empty entries.
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build language resolution settings from environment variables:
+ * FALLBACK_LANGUAGE, SUPPORTED_LANGUAGES, LANGUAGE_RESOLVERS, LANGUAGE_QUERY_PARAM,
+ * LANGUAGE_HEADER, LANGUAGE_COOKIE and LANGUAGE_USER_PROPERTY.
+ * @param configService - Config service holding validated variables
+ */
+export function getLanguageOptions(
+  configService: ConfigService,
+): ILanguageOptions {
+  const fallbackLanguage =
+    configService.getOrThrow<string>('FALLBACK_LANGUAGE');
+  const supportedLanguages = splitList(
+    configService.get<string>('SUPPORTED_LANGUAGES', 'tr,en'),
+  );
+  if (!supportedLanguages.includes(fallbackLanguage)) {
+    supportedLanguages.push(fallbackLanguage);
+  }
+
+  const configuredSources = configService.get<string>('LANGUAGE_RESOLVERS');
+  const sources =
+    configuredSources === undefined
+      ? DEFAULT_SOURCES
+      : splitList(configuredSources.toLowerCase());
+  const known = Object.values(LanguageSource) as string[];
+  const unknown = sources.filter((source) => !known.includes(source));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown language resolver(s) "${unknown.join(', ')}". Available: ${known.join(', ')}`,
+    );
+  }
+
+  return {
+    fallbackLanguage,
+    supportedLanguages,
+    sources: sources as LanguageSource[],
+    queryParam: configService.get<string>('LANGUAGE_QUERY_PARAM', 'lang'),
+    header: configService
+      .get<string>('LANGUAGE_HEADER', 'x-lang')
+      .toLowerCase(),
+    cookie: configService.get<string>('LANGUAGE_COOKIE', 'lang'),
+    userProperty: configService.get<string>(
+      'LANGUAGE_USER_PROPERTY',
+      'language',
+    ),
+  };
+}
@@ -0,0 +1,143 @@
+import { ConfigService } from '@nestjs/config';
+import { MaskStrategy } from '../enums/mask-strategy.enum';
+import {
+  IMaskingKeyRule,
+  IMaskingOptions,
+  IMaskingValueDetector,
+} from '../interfaces/masking-options.interface';
+import {
+  BUILT_IN_DETECTORS,
+  DEFAULT_DETECTOR_NAMES,
+} from '../utils/mask-detectors.util';
+import {
+  createDefaultMaskingOptions,
+  DEFAULT_MASK_MAX_DEPTH,
+} from '../utils/mask.util';
+import { createResponseRedactionOptions } from '../utils/redaction.util';
+
+/**
+ * Splits a `pattern[:STRATEGY]` entry.
+ * The suffix is only treated as a strategy if it is a known MaskStrategy,
+ * so regular expressions containing ':' are kept intact.
+ */
+function parseEntry(
+  entry: string,
+  defaultStrategy: MaskStrategy,
+): { value: string; strategy: MaskStrategy } {
+  const separatorIndex = entry.lastIndexOf(':');
+  const suffix = entry.substring(separatorIndex + 1).toUpperCase();
+
+  if (
+    separatorIndex > 0 &&
+    Object.values(MaskStrategy).includes(suffix as MaskStrategy)
+  ) {
+    return {
+      value: entry.substring(0, separatorIndex),
+      strategy: suffix as MaskStrategy,
+    };
+  }
+
+  return { value: entry, strategy: defaultStrategy };
+}
+
+/**
+ * Splits a comma-separated environment value into trimmed, non-empty entries.
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses MASK_KEY_PATTERNS.
+ * Example: "*email*:EMAIL,/^x-.*-token$/i:HASH,internalNotes"
+ */
+function parseKeyRules(value: string | undefined): IMaskingKeyRule[] {
+  return splitList(value).map((entry) => {
+    const { value: pattern, strategy } = parseEntry(entry, MaskStrategy.FULL);
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+
+    return {
+      pattern: regex ? new RegExp(regex[1], regex[2]) : pattern,
+      strategy,
+    };
+  });
+}
+
+/**
+ * Parses MASK_DETECTORS / RESPONSE_REDACTION_DETECTORS.
+ * Example: "jwt,credit-card,email:FULL"
+ */
+function parseDetectors(
+  value: string | undefined,
+  defaultNames: string[] = DEFAULT_DETECTOR_NAMES,
+): IMaskingValueDetector[] {
+  const entries = splitList(value);
+  const names = entries.length ? entries : defaultNames;
+
+  return names.map((entry) => {
+    const { value: name, strategy } = parseEntry(entry, MaskStrategy.FULL);
+    const detector = BUILT_IN_DETECTORS[name];
+
+    if (!detector) {
+      throw new Error(
+        `Unknown masking detector "${name}". Available: ${Object.keys(BUILT_IN_DETECTORS).join(', ')}`,
+      );
+    }
+
+    return entry.includes(':') ? { ...detector, strategy } : detector;
+  });
+}
+
+/**
+ * Builds masking engine options from environment configuration.
+ *
+ * - MASK_KEY_PATTERNS: extra key rules, evaluated before the defaults
+ * - MASK_DETECTORS: enabled value detectors (defaults exclude `email`)
+ * - MASK_MAX_DEPTH: maximum traversal depth
+ * - MASK_HASH_SALT: salt for the HASH strategy (random per process if unset)
+ */
+export function getMaskingOptions(
+  configService: ConfigService,
+): IMaskingOptions {
+  const defaults = createDefaultMaskingOptions();
+
+  return {
+    keyRules: [
+      ...parseKeyRules(configService.get<string>('MASK_KEY_PATTERNS')),
+      ...defaults.keyRules,
+    ],
+    detectors: parseDetectors(configService.get<string>('MASK_DETECTORS')),
+    maxDepth: configService.get<number>(
+      'MASK_MAX_DEPTH',
+      DEFAULT_MASK_MAX_DEPTH,
+    ),
+    hashSalt: configService.get<string>('MASK_HASH_SALT') ?? defaults.hashSalt,
+  };
+}
+
+/**
+ * Builds the response redaction engine options from environment configuration.
+ * Response redaction only matches exact sensitive field names by default.
+ *
+ * - RESPONSE_REDACTION_DETECTORS: opt-in value detectors (none by default)
+ * - RESPONSE_REDACTION_MAX_DEPTH: opt-in depth limit (unlimited by default)
+ * - MASK_HASH_SALT: shared with log masking
+ */
+export function getResponseRedactionOptions(
+  configService: ConfigService,
+): IMaskingOptions {
+  const maxDepth = configService.get<number>('RESPONSE_REDACTION_MAX_DEPTH');
+  const hashSalt = configService.get<string>('MASK_HASH_SALT');
+
+  return createResponseRedactionOptions({
+    detectors: parseDetectors(
+      configService.get<string>('RESPONSE_REDACTION_DETECTORS'),
+      [],
+    ),
+    ...(maxDepth !== undefined ? { maxDepth } : {}),
+    ...(hashSalt ? { hashSalt } : {}),
+  });
+}
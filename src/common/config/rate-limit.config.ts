@@ -0,0 +1,45 @@
+import { ConfigService } from '@nestjs/config';
+import { RateLimitAlgorithm } from '../enums/rate-limit-algorithm.enum';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+import { IRateLimitOptions } from '../interfaces/rate-limit-options.interface';
+
+/** Counter namespace of the global rate limit */
+export const GLOBAL_RATE_LIMIT_NAME = 'global';
+
+/**
+ * Builds rate limiter settings from environment configuration.
+ *
+ * - RATE_LIMIT_ENABLED: master switch
+ * - RATE_LIMIT_ALGORITHM / RATE_LIMIT_KEY / RATE_LIMIT_WINDOW_MS: defaults for @RateLimit()
+ * - RATE_LIMIT_GLOBAL_LIMIT: limit applied to every route (unset = decorated routes only)
+ * - RATE_LIMIT_API_KEY_HEADER: header read for RateLimitKey.API_KEY
+ * - RATE_LIMIT_HEADERS_ENABLED: send RateLimit-* headers
+ */
+export function getRateLimitOptions(
+  configService: ConfigService,
+): IRateLimitOptions {
+  const defaults = {
+    algorithm: configService.get<RateLimitAlgorithm>(
+      'RATE_LIMIT_ALGORITHM',
+      RateLimitAlgorithm.SLIDING_WINDOW,
+    ),
+    keyBy: configService.get<RateLimitKey>('RATE_LIMIT_KEY', RateLimitKey.IP),
+    windowMs: configService.get<number>('RATE_LIMIT_WINDOW_MS', 60_000),
+  };
+  const globalLimit = configService.get<number>('RATE_LIMIT_GLOBAL_LIMIT');
+
+  return {
+    enabled: configService.get<boolean>('RATE_LIMIT_ENABLED', true),
+    defaults,
+    globalRule: globalLimit
+      ? { ...defaults, limit: globalLimit, name: GLOBAL_RATE_LIMIT_NAME }
+      : undefined,
+    apiKeyHeader: configService
+      .get<string>('RATE_LIMIT_API_KEY_HEADER', 'x-api-key')
+      .toLowerCase(),
+    headersEnabled: configService.get<boolean>(
+      'RATE_LIMIT_HEADERS_ENABLED',
+      true,
+    ),
+  };
+}
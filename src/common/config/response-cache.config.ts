@@ -0,0 +1,22 @@
+import { ConfigService } from '@nestjs/config';
+import { IResponseCacheOptions } from '../interfaces/response-cache-options.interface';
+
+/**
+ * Builds response cache settings from environment configuration.
+ *
+ * - RESPONSE_CACHE_ENABLED: master switch
+ * - RESPONSE_CACHE_TTL_MS: default time to live (1 minute)
+ * - RESPONSE_CACHE_MAX_ENTRIES: entry limit of the in-memory store
+ * - RESPONSE_CACHE_MAX_SIZE_MB: size limit of the in-memory store
+ */
+export function getResponseCacheOptions(
+  configService: ConfigService,
+): IResponseCacheOptions {
+  return {
+    enabled: configService.get<boolean>('RESPONSE_CACHE_ENABLED', true),
+    defaultTtlMs: configService.get<number>('RESPONSE_CACHE_TTL_MS', 60_000),
+    maxEntries: configService.get<number>('RESPONSE_CACHE_MAX_ENTRIES', 1000),
+    maxSizeBytes:
+      configService.get<number>('RESPONSE_CACHE_MAX_SIZE_MB', 50) * 1024 * 1024,
+  };
+}
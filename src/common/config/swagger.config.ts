@@ -0,0 +1,82 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+import { CORRELATION_ID_HEADER } from '../middleware/correlation-id.middleware';
+import { ErrorResponseDto, ProblemDetailsDto } from '../dto/error-response.dto';
+
+/**
+ * Keeps only the paths of one URI version (plus version-neutral paths).
+ * Example (version "1"): /api/v1/users and /api/health are kept, /api/v2/users is dropped.
+ */
+function filterDocumentByVersion(
+  document: OpenAPIObject,
+  version: string,
+): OpenAPIObject {
+  const paths = Object.fromEntries(
+    Object.entries(document.paths).filter(
+      ([path]) => path.includes(`/v${version}/`) || !/\/v\d+\//.test(path),
+    ),
+  );
+
+  return { ...document, paths };
+}
+
+/**
+ * Serves one OpenAPI document per URI version under the global prefix.
+ *
+ * - UI:   /{GLOBAL_PREFIX}/v{version}/docs
+ * - JSON: /{GLOBAL_PREFIX}/v{version}/docs-json
+ *
+ * Controlled by API_DOCS_ENABLED and API_DOCS_VERSIONS (comma-separated, e.g. "1,2").
+ */
+export function setupSwagger(
+  app: INestApplication,
+  configService: ConfigService,
+): void {
+  if (!configService.get<boolean>('API_DOCS_ENABLED', true)) {
+    return;
+  }
+
+  const globalPrefix = configService.getOrThrow<string>('GLOBAL_PREFIX');
+  const versions = configService
+    .get<string>('API_DOCS_VERSIONS', '1')
+    .split(',')
+    .map((version) => version.trim())
+    .filter(Boolean);
+
+  const config = new DocumentBuilder()
+    .setTitle('NexuS API')
+    .setDescription(
+      'All responses are wrapped in the IGenericResponse envelope; errors use IErrorResponse or RFC 9457 Problem Details.',
+    )
+    .addGlobalParameters({
+      name: CORRELATION_ID_HEADER,
+      in: 'header',
+      required: false,
+      description: 'Correlation ID propagated from upstream callers',
+      schema: { type: 'string' },
+    })
+    .build();
+
+  const document = SwaggerModule.createDocument(app, config, {
+    extraModels: [ErrorResponseDto, ProblemDetailsDto],
+  });
+
+  for (const version of versions) {
+    SwaggerModule.setup(
+      `${globalPrefix}/v${version}/docs`,
+      app,
+      filterDocumentByVersion(
+        {
+          ...document,
+          info: { ...document.info, version: `v${version}` },
+        },
+        version,
+      ),
+      {
+        customSiteTitle: `NexuS API v${version}`,
+        swaggerOptions: { displayRequestDuration: true },
+      },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { ConfigService } from '@nestjs/config';
+import { ISpanExporter } from '../interfaces/span-exporter.interface';
+import { InMemorySpanExporter } from '../exporters/in-memory.span-exporter';
+import { OtlpHttpSpanExporter } from '../exporters/otlp-http.span-exporter';
+
+/**
+ * Parses `key=value` pairs separated by commas (OTEL_EXPORTER_OTLP_HEADERS format).
+ */
+function parseHeaders(value: string | undefined): Record<string, string> {
+  return Object.fromEntries(
+    (value ?? '')
+      .split(',')
+      .map((pair) => pair.split('='))
+      .filter(([key, ...rest]) => key.trim() && rest.length > 0)
+      .map(([key, ...rest]) => [
+        key.trim(),
+        decodeURIComponent(rest.join('=').trim()),
+      ]),
+  );
+}
+
+/**
+ * Create the span exporter selected by TRACING_EXPORTER.
+ * @param configService - Config service holding validated tracing variables
+ * @returns The exporter, or null when spans are not exported
+ */
+export function createSpanExporter(
+  configService: ConfigService,
+): ISpanExporter | null {
+  switch (configService.get<string>('TRACING_EXPORTER', 'none')) {
+    case 'otlp':
+      return new OtlpHttpSpanExporter({
+        endpoint: configService.getOrThrow<string>(
+          'OTEL_EXPORTER_OTLP_ENDPOINT',
+        ),
+        serviceName: configService.get<string>(
+          'OTEL_SERVICE_NAME',
+          'nexus-api',
+        ),
+        headers: parseHeaders(
+          configService.get<string>('OTEL_EXPORTER_OTLP_HEADERS'),
+        ),
+      });
+    case 'memory':
+      return new InMemorySpanExporter();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,84 @@
+import { ConfigService } from '@nestjs/config';
+import { ForwardedHeader } from '../enums/forwarded-header.enum';
+import { ITrustedProxyOptions } from '../interfaces/trusted-proxy-options.interface';
+import { createIpMatcher, parseCidrList } from '../utils/cidr.util';
+
+/**
+ * Named ranges usable in TRUSTED_PROXIES.
+ */
+const RANGE_KEYWORDS: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  private: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+};
+
+/**
+ * Provider presets: their edge ranges and the header carrying the client IP.
+ * Cloudflare ranges from https://www.cloudflare.com/ips/
+ */
+export const TRUSTED_PROXY_PRESETS: Record<
+  string,
+  { ranges: string[]; clientIpHeader: string }
+> = {
+  cloudflare: {
+    clientIpHeader: 'cf-connecting-ip',
+    ranges: [
+      '173.245.48.0/20',
+      '103.21.244.0/22',
+      '103.22.200.0/22',
+      '103.31.4.0/22',
+      '141.101.64.0/18',
+      '108.162.192.0/18',
+      '190.93.240.0/20',
+      '188.114.96.0/20',
+      '197.234.240.0/22',
+      '198.41.128.0/17',
+      '162.158.0.0/15',
+      '104.16.0.0/13',
+      '104.24.0.0/14',
+      '172.64.0.0/13',
+      '131.0.72.0/22',
+      '2400:cb00::/32',
+      '2606:4700::/32',
+      '2803:f800::/32',
+      '2405:b500::/32',
+      '2405:8100::/32',
+      '2a06:98c0::/29',
+      '2c0f:f248::/32',
+    ],
+  },
+};
+
+/**
+ * Build trusted proxy settings from environment variables.
+ * - TRUSTED_PROXIES: CIDR list, may contain `loopback`, `private`, `linklocal`
+ * - TRUSTED_PROXY_HOPS: number of nearest hops trusted regardless of address
+ * - TRUSTED_FORWARDED_HEADER: `x-forwarded-for` (default) or `forwarded`; only this header is read
+ * - TRUSTED_PROXY_PRESET: provider preset (e.g. `cloudflare`)
+ * - TRUSTED_CLIENT_IP_HEADER: header set by the trusted proxy (overrides the preset)
+ * @param configService - Config service holding validated TRUSTED_* variables
+ */
+export function getTrustedProxyOptions(
+  configService: ConfigService,
+): ITrustedProxyOptions {
+  const preset =
+    TRUSTED_PROXY_PRESETS[
+      configService.get<string>('TRUSTED_PROXY_PRESET', '')
+    ];
+
+  const ranges = parseCidrList(
+    configService.get<string>('TRUSTED_PROXIES'),
+  ).flatMap((entry) => RANGE_KEYWORDS[entry.toLowerCase()] ?? [entry]);
+
+  return {
+    isTrustedProxy: createIpMatcher([...ranges, ...(preset?.ranges ?? [])]),
+    hops: configService.get<number>('TRUSTED_PROXY_HOPS', 0),
+    forwardedHeader: configService.get<ForwardedHeader>(
+      'TRUSTED_FORWARDED_HEADER',
+      ForwardedHeader.X_FORWARDED_FOR,
+    ),
+    clientIpHeader:
+      configService.get<string>('TRUSTED_CLIENT_IP_HEADER')?.toLowerCase() ??
+      preset?.clientIpHeader,
+  };
+}
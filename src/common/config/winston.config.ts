@@ -1,6 +1,7 @@
 import * as winston from 'winston';
 import 'winston-daily-rotate-file';
 import * as os from 'os';
+import { RequestContextService } from '../services/request-context.service';
 
 /**
  * Response time threshold in milliseconds.
@@ -8,6 +9,34 @@ import * as os from 'os';
  */
 export const SLOW_REQUEST_THRESHOLD_MS = 3000;
 
+/**
+ * Stamps the current request context (IDs, language, user, trace) on every log entry.
+ * Entries logged outside a request are left untouched; explicit metadata wins.
+ */
+const requestContextFormat = winston.format((info) => {
+  const context = RequestContextService.current();
+  if (!context) {
+    return info;
+  }
+
+  const user = context.user as { id?: unknown; sub?: unknown } | undefined;
+  const stamp: Record<string, unknown> = {
+    requestId: context.requestId,
+    correlationId: context.correlationId,
+    lang: context.lang,
+    userId: user?.id ?? user?.sub,
+    traceId: context.traceContext?.traceId,
+    spanId: context.traceContext?.spanId,
+  };
+
+  for (const [key, value] of Object.entries(stamp)) {
+    if (value !== undefined && info[key] === undefined) {
+      info[key] = value;
+    }
+  }
+  return info;
+});
+
 /**
  * Pretty format for human-readable log file.
  * Creates a structured, easy-to-read log format.
@@ -76,8 +105,11 @@ const consoleFormat = winston.format.printf((info) => {
  * 1. Console - Colored, human-readable output for development
  * 2. JSON Log File - Machine-readable for ELK/Grafana/monitoring tools
  * 3. Pretty Log File - Human-readable for manual log review
+ *
+ * Every entry logged during a request is stamped with the request context.
  */
 export const winstonConfig = {
+  format: requestContextFormat(),
   transports: [
     // Console transport - Environment based
     new winston.transports.Console({
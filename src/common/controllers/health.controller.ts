@@ -0,0 +1,37 @@
+import { Controller, Get, Res, VERSION_NEUTRAL } from '@nestjs/common';
+import type { Response } from 'express';
+import { HealthStatus } from '../enums/health-status.enum';
+import type { IHealthCheckResult } from '../interfaces/health-indicator.interface';
+import { HealthIndicatorRegistry } from '../services/health-indicator-registry.service';
+import { RawResponse } from '../decorators/raw-response.decorator';
+import { SkipSlowRequestAlert } from '../decorators/skip-slow-request-alert.decorator';
+import { SkipRateLimit } from '../decorators/rate-limit.decorator';
+
+/**
+ * Liveness and readiness probes.
+ * Responses are sent without the success envelope so orchestrators and
+ * load balancers can consume them directly, and are never rate limited.
+ */
+@Controller({ path: 'health', version: VERSION_NEUTRAL })
+@RawResponse()
+@SkipSlowRequestAlert()
+@SkipRateLimit()
+export class HealthController {
+  constructor(private readonly registry: HealthIndicatorRegistry) {}
+
+  @Get('live')
+  live(): IHealthCheckResult {
+    return this.registry.live();
+  }
+
+  @Get('ready')
+  async ready(
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<IHealthCheckResult> {
+    const result = await this.registry.ready();
+    if (result.status === HealthStatus.DOWN) {
+      response.status(503);
+    }
+    return result;
+  }
+}
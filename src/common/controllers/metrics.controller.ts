@@ -0,0 +1,33 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Res,
+  VERSION_NEUTRAL,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { MetricsService } from '../services/metrics.service';
+import { RawResponse } from '../decorators/raw-response.decorator';
+import { SkipRateLimit } from '../decorators/rate-limit.decorator';
+
+/**
+ * Prometheus scrape endpoint (`/metrics`, outside the global prefix).
+ */
+@Controller({ path: 'metrics', version: VERSION_NEUTRAL })
+@RawResponse()
+@SkipRateLimit()
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  async metrics(
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<string> {
+    if (!this.metricsService.enabled) {
+      throw new NotFoundException();
+    }
+
+    response.type(this.metricsService.contentType);
+    return this.metricsService.render();
+  }
+}
@@ -0,0 +1,138 @@
+import { applyDecorators, HttpStatus, Type } from '@nestjs/common';
+import { ApiExtraModels, ApiResponse, getSchemaPath } from '@nestjs/swagger';
+import { STATUS_CODES } from 'http';
+import {
+  CORRELATION_ID_HEADER,
+  REQUEST_ID_HEADER,
+} from '../middleware/correlation-id.middleware';
+import {
+  GenericResponseDto,
+  PaginationMetaDto,
+} from '../dto/generic-response.dto';
+import {
+  ErrorResponseDto,
+  ProblemDetailsDto,
+  ValidationErrorDetailDto,
+} from '../dto/error-response.dto';
+import { PROBLEM_JSON_CONTENT_TYPE } from '../serializers/problem-details.serializer';
+
+/** Tracing headers set on every response by CorrelationIdMiddleware */
+export const API_TRACING_RESPONSE_HEADERS = {
+  [REQUEST_ID_HEADER]: {
+    description: 'Unique identifier generated for this request',
+    schema: { type: 'string' },
+  },
+  [CORRELATION_ID_HEADER]: {
+    description: 'Correlation ID for distributed tracing',
+    schema: { type: 'string' },
+  },
+};
+
+/**
+ * Options for @ApiEnvelopedResponse().
+ * @property status - HTTP status code (default: 200)
+ * @property description - Response description
+ * @property isArray - Whether `data` is an array of the model
+ * @property paginated - Whether the route is @Paginated() (implies isArray and documents the Link header)
+ */
+export interface IApiEnvelopedResponseOptions {
+  status?: HttpStatus;
+  description?: string;
+  isArray?: boolean;
+  paginated?: boolean;
+}
+
+/**
+ * Documents a success response wrapped in the IGenericResponse envelope,
+ * with `data` typed as the given model.
+ *
+ * @example
+ * @ApiEnvelopedResponse(UserDto, { paginated: true })
+ * @Get()
+ * findAll() {}
+ */
+export function ApiEnvelopedResponse(
+  model: Type<unknown>,
+  options: IApiEnvelopedResponseOptions = {},
+) {
+  const { status = HttpStatus.OK, paginated = false } = options;
+  const isArray = options.isArray || paginated;
+  const modelSchema = { $ref: getSchemaPath(model) };
+
+  return applyDecorators(
+    ApiExtraModels(GenericResponseDto, PaginationMetaDto, model),
+    ApiResponse({
+      status,
+      description: options.description ?? STATUS_CODES[status],
+      headers: {
+        ...API_TRACING_RESPONSE_HEADERS,
+        ...(paginated
+          ? {
+              Link: {
+                description: 'RFC 8288 pagination links',
+                schema: { type: 'string' },
+              },
+            }
+          : {}),
+      },
+      schema: {
+        allOf: [
+          { $ref: getSchemaPath(GenericResponseDto) },
+          {
+            properties: {
+              data: isArray
+                ? { type: 'array', items: modelSchema }
+                : modelSchema,
+              ...(paginated
+                ? {
+                    meta: {
+                      properties: {
+                        pagination: {
+                          $ref: getSchemaPath(PaginationMetaDto),
+                        },
+                      },
+                      required: ['pagination'],
+                    },
+                  }
+                : {}),
+            },
+          },
+        ],
+      },
+    }),
+  );
+}
+
+/**
+ * Documents error responses produced by AllExceptionsFilter, in both the
+ * IErrorResponse envelope and RFC 9457 Problem Details representations.
+ *
+ * @example
+ * @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.NOT_FOUND)
+ * @Get(':id')
+ * findOne() {}
+ */
+export function ApiErrorResponses(...statuses: HttpStatus[]) {
+  return applyDecorators(
+    ApiExtraModels(
+      ErrorResponseDto,
+      ProblemDetailsDto,
+      ValidationErrorDetailDto,
+    ),
+    ...statuses.map((status) =>
+      ApiResponse({
+        status,
+        description: STATUS_CODES[status],
+        headers: API_TRACING_RESPONSE_HEADERS,
+        content: {
+          'application/json': {
+            schema: { $ref: getSchemaPath(ErrorResponseDto) },
+          },
+          [PROBLEM_JSON_CONTENT_TYPE]: {
+            schema: { $ref: getSchemaPath(ProblemDetailsDto) },
+          },
+        },
+      }),
+    ),
+  );
+}
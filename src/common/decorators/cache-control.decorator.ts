@@ -0,0 +1,22 @@
+import { SetMetadata } from '@nestjs/common';
+import { ICacheControlOptions } from '../interfaces/cache-control-options.interface';
+
+/** Metadata key holding the Cache-Control directives of a route */
+export const CACHE_CONTROL_KEY = 'cacheControl';
+
+/**
+ * Sets the Cache-Control header of successful responses.
+ * Handler-level metadata overrides controller-level metadata.
+ *
+ * @example
+ * @CacheControl({ public: true, maxAge: 60, staleWhileRevalidate: 30 })
+ * @Get('catalog')
+ * findAll() {}
+ */
+export const CacheControl = (options: ICacheControlOptions) =>
+  SetMetadata(CACHE_CONTROL_KEY, options);
+
+/**
+ * Shorthand for `@CacheControl({ noStore: true })`, for sensitive responses.
+ */
+export const NoStore = () => CacheControl({ noStore: true });
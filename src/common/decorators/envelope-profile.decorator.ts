@@ -0,0 +1,18 @@
+import { SetMetadata } from '@nestjs/common';
+import { EnvelopeProfile } from '../enums/envelope-profile.enum';
+
+/** Metadata key holding the envelope profile of a route */
+export const ENVELOPE_PROFILE_KEY = 'envelopeProfile';
+
+/**
+ * Selects the envelope profile (which meta fields are sent) for a route or a whole controller.
+ * Handler-level metadata overrides controller-level metadata; a profile requested
+ * by the client via the profile header (if allowed) takes precedence.
+ *
+ * @example
+ * @UseEnvelopeProfile(EnvelopeProfile.PUBLIC)
+ * @Controller('catalog')
+ * export class CatalogController {}
+ */
+export const UseEnvelopeProfile = (profile: EnvelopeProfile | string) =>
+  SetMetadata(ENVELOPE_PROFILE_KEY, profile);
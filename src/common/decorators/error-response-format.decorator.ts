@@ -0,0 +1,23 @@
+import { SetMetadata } from '@nestjs/common';
+import { ErrorResponseFormat } from '../enums/error-response-format.enum';
+
+/** Metadata key holding the preferred error response format */
+export const ERROR_RESPONSE_FORMAT_KEY = 'errorResponseFormat';
+
+/**
+ * Selects the error response format for a route or a whole controller.
+ * Handler-level metadata overrides controller-level metadata.
+ *
+ * @example
+ * @UseErrorFormat(ErrorResponseFormat.PROBLEM_DETAILS)
+ * @Controller('partners')
+ * export class PartnersController {}
+ */
+export const UseErrorFormat = (format: ErrorResponseFormat) =>
+  SetMetadata(ERROR_RESPONSE_FORMAT_KEY, format);
+
+/**
+ * Shorthand for `@UseErrorFormat(ErrorResponseFormat.PROBLEM_DETAILS)`.
+ */
+export const UseProblemDetails = () =>
+  UseErrorFormat(ErrorResponseFormat.PROBLEM_DETAILS);
@@ -0,0 +1,26 @@
+import { SetMetadata } from '@nestjs/common';
+
+/** Metadata key holding the idempotency settings of a route */
+export const IDEMPOTENT_KEY = 'idempotent';
+
+/** Route-level idempotency settings */
+export interface IdempotentOptions {
+  /** Reject requests without an Idempotency-Key header (400) */
+  required?: boolean;
+
+  /** How long the response is replayed, in milliseconds (default IDEMPOTENCY_TTL_MS) */
+  ttlMs?: number;
+}
+
+/**
+ * Tunes Idempotency-Key handling for a route or controller.
+ * Unsafe methods honour the header without this decorator; use it to require
+ * the header or change how long responses are kept. `@Idempotent(false)` disables it.
+ *
+ * @example
+ * @Idempotent({ required: true })
+ * @Post('payments')
+ * createPayment() {}
+ */
+export const Idempotent = (options: IdempotentOptions | false = {}) =>
+  SetMetadata(IDEMPOTENT_KEY, options);
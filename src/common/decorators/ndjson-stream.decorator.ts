@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+
+/** Metadata key marking routes that stream their Observable as NDJSON */
+export const NDJSON_STREAM_KEY = 'ndjsonStream';
+
+/**
+ * Streams every value emitted by the handler's Observable as one
+ * `application/x-ndjson` line `{ data, meta }` instead of responding with the last value.
+ * Errors before the first line get a regular error response; later errors
+ * are written as a final error line.
+ *
+ * @example
+ * @Get('exports/:id/progress')
+ * @NdjsonStream()
+ * progress(@Param('id') id: string): Observable<ExportProgress> {}
+ */
+export const NdjsonStream = () => SetMetadata(NDJSON_STREAM_KEY, true);
@@ -0,0 +1,23 @@
+import { SetMetadata } from '@nestjs/common';
+import { IPaginatedResult } from '../interfaces/pagination.interface';
+
+/** Metadata key marking paginated list endpoints */
+export const PAGINATED_KEY = 'paginated';
+
+/**
+ * Return type of @Paginated() endpoints.
+ * Shares its name with the decorator so both can be imported together.
+ */
+export type Paginated<T> = IPaginatedResult<T>;
+
+/**
+ * Marks a list endpoint as paginated.
+ * TransformInterceptor moves `items` to `data`, fills `meta.pagination`
+ * and emits RFC 8288 `Link` headers.
+ *
+ * @example
+ * @Get()
+ * @Paginated()
+ * findAll(@Query() query: PaginationQueryDto): Promise<Paginated<UserDto>> {}
+ */
+export const Paginated = () => SetMetadata(PAGINATED_KEY, true);
@@ -0,0 +1,27 @@
+import { SetMetadata } from '@nestjs/common';
+import { IRateLimitRule } from '../interfaces/rate-limit-rule.interface';
+
+/** Metadata key holding the rate limit of a route (false to skip limiting) */
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/** Options of @RateLimit(); unset fields use the RATE_LIMIT_* defaults */
+export type RateLimitDecoratorOptions = Pick<IRateLimitRule, 'limit'> &
+  Partial<Omit<IRateLimitRule, 'limit'>>;
+
+/**
+ * Limits how often a route (or every route of a controller) may be called.
+ * Handler-level metadata overrides controller-level metadata. Counters are
+ * kept per route unless a shared `name` is given.
+ *
+ * @example
+ * @RateLimit({ limit: 5, windowMs: 60_000, keyBy: RateLimitKey.IP })
+ * @Post('login')
+ * login() {}
+ */
+export const RateLimit = (options: RateLimitDecoratorOptions) =>
+  SetMetadata(RATE_LIMIT_KEY, options);
+
+/**
+ * Excludes a route or controller from rate limiting, including the global limit.
+ */
+export const SkipRateLimit = () => SetMetadata(RATE_LIMIT_KEY, false);
@@ -0,0 +1,23 @@
+import { SetMetadata } from '@nestjs/common';
+
+/** Metadata key marking routes whose result bypasses the response envelope */
+export const RAW_RESPONSE_KEY = 'rawResponse';
+
+/**
+ * Sends the handler result as-is instead of wrapping it in `{ success, meta, data }`.
+ * Can be applied to a whole controller; handler-level metadata overrides it,
+ * so `@RawResponse(false)` re-enables the envelope for a single route.
+ * Raw routes are still logged and keep their correlation headers.
+ *
+ * @example
+ * @RawResponse()
+ * @Controller('webhooks')
+ * export class WebhooksController {}
+ */
+export const RawResponse = (enabled = true) =>
+  SetMetadata(RAW_RESPONSE_KEY, enabled);
+
+/**
+ * Alias of `@RawResponse()`.
+ */
+export const SkipEnvelope = () => RawResponse();
@@ -0,0 +1,49 @@
+import { SetMetadata } from '@nestjs/common';
+
+/** Metadata key holding additional field names to redact */
+export const REDACT_FIELDS_KEY = 'redactFields';
+
+/** Metadata key disabling response redaction */
+export const SKIP_REDACTION_KEY = 'skipRedaction';
+
+/** Metadata key holding class-transformer groups to expose */
+export const EXPOSE_ONLY_GROUPS_KEY = 'exposeOnlyGroups';
+
+/**
+ * Enables response redaction for a route or controller and adds extra fields
+ * on top of the global sensitive-field list. Redacted fields are also masked
+ * in logged request bodies.
+ *
+ * @example
+ * @Redact('jwt', 'internalNotes')
+ * @Get(':id')
+ * findOne() {}
+ */
+export const Redact = (...fields: string[]) =>
+  SetMetadata(REDACT_FIELDS_KEY, fields);
+
+/**
+ * Sends response data without redaction, e.g. auth endpoints that must return
+ * `accessToken`/`refreshToken`. Logged request bodies are still masked.
+ * Handler-level metadata overrides the controller, so `@SkipRedaction(false)`
+ * re-enables redaction for a single route.
+ *
+ * @example
+ * @SkipRedaction()
+ * @Post('login')
+ * login(@Body() dto: LoginDto): TokenPair {}
+ */
+export const SkipRedaction = (skip = true) =>
+  SetMetadata(SKIP_REDACTION_KEY, skip);
+
+/**
+ * Serializes response data with class-transformer, exposing only properties
+ * that belong to the given groups (see `@Expose({ groups })`).
+ *
+ * @example
+ * @ExposeOnly('public')
+ * @Get('profile')
+ * getProfile(): UserEntity {}
+ */
+export const ExposeOnly = (...groups: string[]) =>
+  SetMetadata(EXPOSE_ONLY_GROUPS_KEY, groups);
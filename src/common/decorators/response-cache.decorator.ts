@@ -0,0 +1,53 @@
+import { SetMetadata } from '@nestjs/common';
+import { Request } from 'express';
+
+/** Metadata key holding the cache settings of a route */
+export const CACHEABLE_KEY = 'cacheable';
+
+/** Metadata key holding the tags a route invalidates */
+export const CACHE_EVICT_KEY = 'cacheEvict';
+
+/** Request properties cache entries can be split by */
+export type CacheVaryBy = 'lang' | 'user';
+
+/** A fixed tag or one derived from the request (e.g. `order:${req.params.id}`) */
+export type CacheTag = string | ((request: Request) => string);
+
+/** Route-level response cache settings */
+export interface CacheableOptions {
+  /** Time to live in milliseconds (default RESPONSE_CACHE_TTL_MS) */
+  ttl?: number;
+
+  /** Cache key (default: method and URL including the query string) */
+  key?: string | ((request: Request) => string);
+
+  /** Keep separate entries per response language and/or user */
+  varyBy?: CacheVaryBy[];
+
+  /** Tags for invalidation via @CacheEvict() */
+  tags?: CacheTag[];
+}
+
+/**
+ * Caches the handler result of a GET route. The envelope is built on every
+ * request, so `requestId`, `timestamp` and `duration` stay fresh while `data`
+ * comes from the cache. `meta.cache` reports HIT or MISS.
+ *
+ * @example
+ * @Cacheable({ ttl: 60_000, varyBy: ['lang'], tags: ['products'] })
+ * @Get('products')
+ * findAll() {}
+ */
+export const Cacheable = (options: CacheableOptions = {}) =>
+  SetMetadata(CACHEABLE_KEY, options);
+
+/**
+ * Removes cached responses carrying any of the tags once the handler succeeds.
+ *
+ * @example
+ * @CacheEvict('products', (req) => `product:${req.params.id}`)
+ * @Put('products/:id')
+ * update() {}
+ */
+export const CacheEvict = (...tags: CacheTag[]) =>
+  SetMetadata(CACHE_EVICT_KEY, tags);
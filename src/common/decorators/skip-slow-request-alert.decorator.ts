@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+
+/** Metadata key excluding routes from slow-request alerts */
+export const SKIP_SLOW_REQUEST_ALERT_KEY = 'skipSlowRequestAlert';
+
+/**
+ * Excludes a route or a whole controller from slow-request alerts,
+ * e.g. probes whose duration is dominated by dependency checks.
+ * Requests are still logged.
+ */
+export const SkipSlowRequestAlert = () =>
+  SetMetadata(SKIP_SLOW_REQUEST_ALERT_KEY, true);
@@ -0,0 +1,24 @@
+import { SetMetadata } from '@nestjs/common';
+import { ILocalizedMessage } from '../interfaces/localized-message.interface';
+
+/** Metadata key of the i18n success message of a route */
+export const SUCCESS_MESSAGE_KEY = 'successMessage';
+
+/**
+ * Sets `meta.message` of successful responses to a translation,
+ * resolved in the request language. A `message` returned by the handler
+ * (string or `{ i18nKey, args }`) takes precedence.
+ *
+ * @example
+ * @Post()
+ * @SuccessMessage('common.SUCCESS.CREATED')
+ * create(@Body() dto: CreateUserDto) {}
+ */
+export const SuccessMessage = (
+  i18nKey: string,
+  args?: Record<string, unknown>,
+) =>
+  SetMetadata<string, ILocalizedMessage>(SUCCESS_MESSAGE_KEY, {
+    i18nKey,
+    args,
+  });
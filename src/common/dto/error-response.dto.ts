@@ -0,0 +1,139 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { ErrorCategory } from '../enums/error-category.enum';
+
+/**
+ * OpenAPI model of a single validation failure (IValidationErrorDetail).
+ */
+export class ValidationErrorDetailDto {
+  @ApiProperty({ example: 'isEmail' })
+  constraint: string;
+
+  @ApiProperty({ example: 'Please enter a valid email address.' })
+  message: string;
+
+  @ApiPropertyOptional({ example: 'john@' })
+  value?: unknown;
+}
+
+/** Schema of `errors`: property path -> list of failures */
+const VALIDATION_ERRORS_SCHEMA = {
+  type: 'object',
+  description: 'Validation errors keyed by property path (e.g. `items[2].qty`)',
+  additionalProperties: {
+    type: 'array',
+    items: { $ref: getSchemaPath(ValidationErrorDetailDto) },
+  },
+} as const;
+
+/**
+ * OpenAPI model of the error envelope metadata (IErrorResponse.meta).
+ * Optional fields depend on the active envelope profile.
+ */
+export class ErrorResponseMetaDto {
+  @ApiPropertyOptional({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  requestId?: string;
+
+  @ApiPropertyOptional({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  correlationId?: string;
+
+  @ApiPropertyOptional({ example: '/api/v1/auth/register' })
+  path?: string;
+
+  @ApiPropertyOptional({ example: 'POST' })
+  method?: string;
+
+  @ApiPropertyOptional({ example: 'en' })
+  lang?: string;
+
+  @ApiPropertyOptional({
+    example: '127.0.0.1',
+    description: 'Truncated, hashed or omitted depending on IP_PRIVACY_MODE',
+  })
+  ipv4?: string;
+
+  @ApiPropertyOptional({
+    example: '::1',
+    description: 'Truncated, hashed or omitted depending on IP_PRIVACY_MODE',
+  })
+  ipv6?: string;
+
+  @ApiProperty({
+    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    example: 'Invalid request.',
+  })
+  message: string | string[];
+
+  @ApiPropertyOptional({ example: '2024-02-06T12:00:00.000Z' })
+  timestamp?: string;
+
+  @ApiProperty({ enum: ErrorCategory, enumName: 'ErrorCategory' })
+  errorCategory: ErrorCategory;
+
+  @ApiProperty({ example: 'BAD_REQUEST' })
+  code: string;
+
+  @ApiPropertyOptional({ type: 'object', additionalProperties: true })
+  details?: Record<string, unknown>;
+
+  @ApiPropertyOptional(VALIDATION_ERRORS_SCHEMA)
+  errors?: Record<string, ValidationErrorDetailDto[]>;
+}
+
+/**
+ * OpenAPI model of the error envelope (IErrorResponse).
+ */
+export class ErrorResponseDto {
+  @ApiProperty({ example: false })
+  success: boolean;
+
+  @ApiProperty({ example: 400 })
+  statusCode: number;
+
+  @ApiProperty({ type: ErrorResponseMetaDto })
+  meta: ErrorResponseMetaDto;
+}
+
+/**
+ * OpenAPI model of RFC 9457 Problem Details (IProblemDetails).
+ */
+export class ProblemDetailsDto {
+  @ApiProperty({ example: 'about:blank' })
+  type: string;
+
+  @ApiProperty({ example: 'Bad Request' })
+  title: string;
+
+  @ApiProperty({ example: 400 })
+  status: number;
+
+  @ApiProperty({ example: 'Invalid request.' })
+  detail: string;
+
+  @ApiPropertyOptional({ example: '/api/v1/auth/register' })
+  instance?: string;
+
+  @ApiPropertyOptional({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  requestId?: string;
+
+  @ApiPropertyOptional({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  correlationId?: string;
+
+  @ApiProperty({ enum: ErrorCategory, enumName: 'ErrorCategory' })
+  errorCategory: ErrorCategory;
+
+  @ApiProperty({ example: 'BAD_REQUEST' })
+  code: string;
+
+  @ApiPropertyOptional({ example: '2024-02-06T12:00:00.000Z' })
+  timestamp?: string;
+
+  @ApiPropertyOptional({ type: 'object', additionalProperties: true })
+  details?: Record<string, unknown>;
+
+  @ApiPropertyOptional(VALIDATION_ERRORS_SCHEMA)
+  errors?: Record<string, ValidationErrorDetailDto[]>;
+}
@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CacheStatus } from '../enums/cache-status.enum';
+
+/**
+ * OpenAPI model of `meta.pagination` (IPaginationMeta).
+ */
+export class PaginationMetaDto {
+  @ApiProperty({ example: 20 })
+  limit: number;
+
+  @ApiProperty({ example: true })
+  hasNext: boolean;
+
+  @ApiPropertyOptional({ example: 45 })
+  total?: number;
+
+  @ApiPropertyOptional({ example: 2 })
+  page?: number;
+
+  @ApiPropertyOptional({ example: 3 })
+  totalPages?: number;
+
+  @ApiPropertyOptional({ example: true })
+  hasPrevious?: boolean;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    example: 'eyJpZCI6NDJ9',
+  })
+  nextCursor?: string | null;
+}
+
+/**
+ * OpenAPI model of the success envelope metadata (IGenericResponse.meta).
+ * Optional fields depend on the active envelope profile.
+ */
+export class ResponseMetaDto {
+  @ApiPropertyOptional({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  requestId?: string;
+
+  @ApiPropertyOptional({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  correlationId?: string;
+
+  @ApiPropertyOptional({ example: '/api/v1/users/profile' })
+  path?: string;
+
+  @ApiPropertyOptional({ example: 'GET' })
+  method?: string;
+
+  @ApiPropertyOptional({ example: 'en' })
+  lang?: string;
+
+  @ApiPropertyOptional({
+    example: '127.0.0.1',
+    description: 'Truncated, hashed or omitted depending on IP_PRIVACY_MODE',
+  })
+  ipv4?: string;
+
+  @ApiPropertyOptional({
+    example: '::1',
+    description: 'Truncated, hashed or omitted depending on IP_PRIVACY_MODE',
+  })
+  ipv6?: string;
+
+  @ApiPropertyOptional({ example: '15ms' })
+  duration?: string;
+
+  @ApiProperty({ example: 'Request successful' })
+  message: string;
+
+  @ApiPropertyOptional({ example: '2024-02-06T12:00:00.000Z' })
+  timestamp?: string;
+
+  @ApiPropertyOptional({
+    enum: CacheStatus,
+    example: CacheStatus.HIT,
+    description: 'Only present on @Cacheable() routes',
+  })
+  cache?: CacheStatus;
+
+  @ApiPropertyOptional({ type: PaginationMetaDto })
+  pagination?: PaginationMetaDto;
+}
+
+/**
+ * OpenAPI model of the success envelope (IGenericResponse).
+ * `data` is refined per endpoint by @ApiEnvelopedResponse().
+ */
+export class GenericResponseDto {
+  @ApiProperty({ example: true })
+  success: boolean;
+
+  @ApiProperty({ example: 200 })
+  statusCode: number;
+
+  @ApiProperty({ type: ResponseMetaDto })
+  meta: ResponseMetaDto;
+
+  @ApiProperty({ description: 'Response payload' })
+  data: unknown;
+}
@@ -0,0 +1,60 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+
+/** Default page size when `limit` is omitted */
+export const DEFAULT_PAGE_LIMIT = 20;
+
+/** Upper bound for `limit` to protect list endpoints */
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Query parameters for offset (`page`, `limit`) and cursor (`cursor`, `limit`) pagination.
+ * Validated and transformed by the global I18nValidationPipe.
+ *
+ * @example
+ * @Get()
+ * @Paginated()
+ * findAll(@Query() query: PaginationQueryDto): Promise<Paginated<UserDto>> {}
+ */
+export class PaginationQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({
+    message: i18nValidationMessage('common.VALIDATION.INVALID_INTEGER', {
+      field: 'page',
+    }),
+  })
+  @Min(1, {
+    message: i18nValidationMessage('common.VALIDATION.MIN_VALUE', {
+      field: 'page',
+      min: 1,
+    }),
+  })
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({
+    message: i18nValidationMessage('common.VALIDATION.INVALID_INTEGER', {
+      field: 'limit',
+    }),
+  })
+  @Min(1, {
+    message: i18nValidationMessage('common.VALIDATION.MIN_VALUE', {
+      field: 'limit',
+      min: 1,
+    }),
+  })
+  @Max(MAX_PAGE_LIMIT, {
+    message: i18nValidationMessage('common.VALIDATION.MAX_VALUE', {
+      field: 'limit',
+      max: MAX_PAGE_LIMIT,
+    }),
+  })
+  limit: number = DEFAULT_PAGE_LIMIT;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
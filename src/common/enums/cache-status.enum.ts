@@ -0,0 +1,10 @@
+/**
+ * Response cache outcome of a @Cacheable() route, reported in `meta.cache`.
+ */
+export enum CacheStatus {
+  /** Data was served from the cache; the handler did not run */
+  HIT = 'HIT',
+
+  /** Data was produced by the handler and stored */
+  MISS = 'MISS',
+}
@@ -0,0 +1,13 @@
+/**
+ * States of an outbound circuit breaker.
+ */
+export enum CircuitState {
+  /** Calls pass; consecutive failures are counted */
+  CLOSED = 'CLOSED',
+
+  /** Calls fail fast until the reset timeout elapses */
+  OPEN = 'OPEN',
+
+  /** One trial call decides whether the circuit closes or opens again */
+  HALF_OPEN = 'HALF_OPEN',
+}
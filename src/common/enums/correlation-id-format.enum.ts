@@ -0,0 +1,16 @@
+/**
+ * Accepted formats for inbound correlation IDs.
+ */
+export enum CorrelationIdFormat {
+  /** Any value made of the allowed charset */
+  ANY = 'any',
+
+  /** UUID of any version */
+  UUID = 'uuid',
+
+  /** ULID */
+  ULID = 'ulid',
+
+  /** Custom regular expression (CORRELATION_ID_PATTERN) */
+  REGEX = 'regex',
+}
@@ -0,0 +1,10 @@
+/**
+ * What to do with an inbound correlation ID that fails validation.
+ */
+export enum CorrelationIdRejectPolicy {
+  /** Ignore the inbound value and generate a new ID */
+  REGENERATE = 'regenerate',
+
+  /** Fail the request with 400 Bad Request */
+  REJECT = 'reject',
+}
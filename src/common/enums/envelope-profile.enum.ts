@@ -0,0 +1,14 @@
+/**
+ * Built-in envelope profiles controlling which meta fields are sent.
+ * Custom profiles can be added via ENVELOPE_PROFILES.
+ */
+export enum EnvelopeProfile {
+  /** Every meta field (default) */
+  FULL = 'full',
+
+  /** Request ID and message only, for bandwidth-sensitive clients */
+  MINIMAL = 'minimal',
+
+  /** Identifiers, language and timestamp; no path, method, IPs or timings */
+  PUBLIC = 'public',
+}
@@ -39,6 +39,8 @@ export enum ErrorCategory {
 
 /**
  * Maps HTTP status codes to error categories.
+ * Used as a fallback for exceptions that are not DomainExceptions,
+ * which declare their category explicitly.
  * @param statusCode - The HTTP status code
  * @param errorMessage - Optional error message for more specific categorization
  * @returns The corresponding error category
@@ -0,0 +1,64 @@
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Stable, machine-readable error codes returned in `meta.code`.
+ * Unlike messages, codes are never translated, so clients can safely branch on them.
+ * Applications may use their own string codes in addition to these.
+ */
+export enum ErrorCode {
+  /** Requested resource does not exist */
+  RESOURCE_NOT_FOUND = 'RESOURCE_NOT_FOUND',
+
+  /** Resource state conflicts with the request (e.g., duplicate entry) */
+  RESOURCE_CONFLICT = 'RESOURCE_CONFLICT',
+
+  /** Request is malformed (outside of DTO validation) */
+  INVALID_REQUEST = 'INVALID_REQUEST',
+
+  /** Inbound correlation ID failed validation */
+  INVALID_CORRELATION_ID = 'INVALID_CORRELATION_ID',
+
+  /** Idempotency-Key header is missing (where required) or malformed */
+  INVALID_IDEMPOTENCY_KEY = 'INVALID_IDEMPOTENCY_KEY',
+
+  /** A request with the same Idempotency-Key is still being processed */
+  IDEMPOTENCY_REQUEST_IN_PROGRESS = 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+
+  /** Idempotency-Key was reused with a different request body */
+  IDEMPOTENCY_KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED',
+
+  /** Conditional request failed (resource changed since it was read) */
+  PRECONDITION_FAILED = 'PRECONDITION_FAILED',
+
+  /** Request is valid but violates a business rule */
+  BUSINESS_RULE_VIOLATION = 'BUSINESS_RULE_VIOLATION',
+
+  /** Client exceeded a rate limit */
+  RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
+
+  /** A third-party or upstream service failed */
+  EXTERNAL_SERVICE_FAILURE = 'EXTERNAL_SERVICE_FAILURE',
+
+  /** A third-party or upstream service did not answer in time */
+  EXTERNAL_SERVICE_TIMEOUT = 'EXTERNAL_SERVICE_TIMEOUT',
+
+  /** Calls to an upstream service are suspended (circuit breaker open) */
+  EXTERNAL_SERVICE_UNAVAILABLE = 'EXTERNAL_SERVICE_UNAVAILABLE',
+
+  /** A database operation failed */
+  DATABASE_ERROR = 'DATABASE_ERROR',
+
+  /** Fallback when no specific code can be derived */
+  UNKNOWN_ERROR = 'UNKNOWN_ERROR',
+}
+
+/**
+ * Derives a default error code for exceptions that do not carry one.
+ * Example: 404 -> 'NOT_FOUND', 500 -> 'INTERNAL_SERVER_ERROR'
+ * @param statusCode - The HTTP status code
+ * @returns The HttpStatus name, or UNKNOWN_ERROR for non-standard codes
+ */
+export function getDefaultErrorCode(statusCode: number): string {
+  const name = (HttpStatus as Record<number, string | undefined>)[statusCode];
+  return name ?? ErrorCode.UNKNOWN_ERROR;
+}
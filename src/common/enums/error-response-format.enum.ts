@@ -0,0 +1,12 @@
+/**
+ * Output formats supported by AllExceptionsFilter.
+ * The envelope format is the default; Problem Details can be selected
+ * per route, per controller or by the client's `Accept` header.
+ */
+export enum ErrorResponseFormat {
+  /** Custom `IErrorResponse` envelope ({ success, statusCode, meta }) */
+  ENVELOPE = 'ENVELOPE',
+
+  /** RFC 9457 Problem Details (`application/problem+json`) */
+  PROBLEM_DETAILS = 'PROBLEM_DETAILS',
+}
@@ -0,0 +1,10 @@
+/**
+ * Forwarding header the trusted proxies set (the only one read for the client IP).
+ */
+export enum ForwardedHeader {
+  /** De-facto standard `X-Forwarded-For: client, proxy1, proxy2` */
+  X_FORWARDED_FOR = 'x-forwarded-for',
+
+  /** RFC 7239 `Forwarded: for=client;proto=https, for=proxy1` */
+  FORWARDED = 'forwarded',
+}
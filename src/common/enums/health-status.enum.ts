@@ -0,0 +1,10 @@
+/**
+ * Status reported by health indicators and the aggregated health check.
+ */
+export enum HealthStatus {
+  /** Indicator is healthy */
+  UP = 'UP',
+
+  /** Indicator is unhealthy; readiness responds with 503 */
+  DOWN = 'DOWN',
+}
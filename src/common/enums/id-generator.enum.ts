@@ -0,0 +1,13 @@
+/**
+ * Algorithms available for generating request IDs.
+ */
+export enum IdGenerator {
+  /** Random UUID (RFC 9562 version 4) */
+  UUID_V4 = 'uuidv4',
+
+  /** Time-ordered UUID (RFC 9562 version 7) */
+  UUID_V7 = 'uuidv7',
+
+  /** Lexicographically sortable ULID (26 Crockford base32 characters) */
+  ULID = 'ulid',
+}
@@ -0,0 +1,10 @@
+/**
+ * Lifecycle of an idempotency record.
+ */
+export enum IdempotencyStatus {
+  /** The first request is still being processed */
+  IN_FLIGHT = 'IN_FLIGHT',
+
+  /** The response was stored and is replayed for retries */
+  COMPLETED = 'COMPLETED',
+}
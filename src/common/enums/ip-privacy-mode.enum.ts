@@ -0,0 +1,16 @@
+/**
+ * How client IP addresses are exposed in responses and logs.
+ */
+export enum IpPrivacyMode {
+  /** Leave the address out entirely */
+  OMIT = 'omit',
+
+  /** Zero the host part (IPv4 /24, IPv6 /48 by default) */
+  TRUNCATE = 'truncate',
+
+  /** Replace with a keyed hash whose salt rotates periodically */
+  HASH = 'hash',
+
+  /** Expose the full address */
+  KEEP = 'keep',
+}
@@ -0,0 +1,22 @@
+/**
+ * Address range classification of an IP address.
+ */
+export enum IpScope {
+  /** Globally routable address */
+  PUBLIC = 'PUBLIC',
+
+  /** Private network (RFC 1918, RFC 6598 shared space, IPv6 unique local) */
+  PRIVATE = 'PRIVATE',
+
+  /** Loopback (127.0.0.0/8, ::1) */
+  LOOPBACK = 'LOOPBACK',
+
+  /** Link-local (169.254.0.0/16, fe80::/10) */
+  LINK_LOCAL = 'LINK_LOCAL',
+
+  /** Reserved, documentation, multicast or unspecified ranges */
+  RESERVED = 'RESERVED',
+
+  /** Missing or unparsable address */
+  UNKNOWN = 'UNKNOWN',
+}
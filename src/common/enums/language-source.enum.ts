@@ -0,0 +1,20 @@
+/**
+ * Where the response language is read from. LANGUAGE_RESOLVERS lists
+ * the sources in priority order.
+ */
+export enum LanguageSource {
+  /** Query parameter, e.g. `?lang=en` */
+  QUERY = 'query',
+
+  /** Dedicated request header, e.g. `x-lang: en` */
+  HEADER = 'header',
+
+  /** Cookie, e.g. `lang=en` */
+  COOKIE = 'cookie',
+
+  /** Preference stored on the authenticated user (`request.user`) */
+  USER = 'user',
+
+  /** `Accept-Language` header, honouring q-values */
+  ACCEPT_LANGUAGE = 'accept-language',
+}
@@ -0,0 +1,19 @@
+/**
+ * Strategies the masking engine can apply to a matched key or value.
+ */
+export enum MaskStrategy {
+  /** Replace the whole value with the mask string */
+  FULL = 'FULL',
+
+  /** Keep the first and last characters (see partialMask) */
+  PARTIAL = 'PARTIAL',
+
+  /** Keep part of the username and domain (see maskEmail) */
+  EMAIL = 'EMAIL',
+
+  /** Replace with a salted SHA-256 digest (stable within a process/salt) */
+  HASH = 'HASH',
+
+  /** Remove the field entirely */
+  DROP = 'DROP',
+}
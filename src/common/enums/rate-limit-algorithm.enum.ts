@@ -0,0 +1,13 @@
+/**
+ * Algorithms supported by the rate limiter.
+ */
+export enum RateLimitAlgorithm {
+  /** Counts requests per fixed window; allows bursts at window boundaries */
+  FIXED_WINDOW = 'fixed-window',
+
+  /** Weighs the previous window's count to smooth window boundaries */
+  SLIDING_WINDOW = 'sliding-window',
+
+  /** Refills `limit` tokens per window; allows bursts up to `limit` */
+  TOKEN_BUCKET = 'token-bucket',
+}
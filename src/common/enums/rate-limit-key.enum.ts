@@ -0,0 +1,16 @@
+/**
+ * What a rate limit is counted against.
+ */
+export enum RateLimitKey {
+  /** Client IP (see getClientIpInfo) */
+  IP = 'ip',
+
+  /** Authenticated user (`request.user.id` or `sub`), checked after all guards; falls back to the IP */
+  USER = 'user',
+
+  /** API key header (hashed); falls back to the IP */
+  API_KEY = 'api-key',
+
+  /** One shared limit for all clients of the route */
+  ROUTE = 'route',
+}
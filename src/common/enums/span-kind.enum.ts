@@ -0,0 +1,13 @@
+/**
+ * Span kinds, numbered as in the OTLP protocol.
+ */
+export enum SpanKind {
+  /** Internal operation without remote parent or child */
+  INTERNAL = 1,
+
+  /** Handling of an incoming request */
+  SERVER = 2,
+
+  /** Outgoing request to another service */
+  CLIENT = 3,
+}
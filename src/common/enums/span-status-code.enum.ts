@@ -0,0 +1,13 @@
+/**
+ * Span status codes, numbered as in the OTLP protocol.
+ */
+export enum SpanStatusCode {
+  /** Default status, the operation was not classified */
+  UNSET = 0,
+
+  /** Operation completed successfully */
+  OK = 1,
+
+  /** Operation failed */
+  ERROR = 2,
+}
@@ -0,0 +1,10 @@
+/**
+ * Wire format of a streamed response.
+ */
+export enum StreamFormat {
+  /** Server-Sent Events (`@Sse()` routes, `text/event-stream`) */
+  SSE = 'sse',
+
+  /** Newline-delimited JSON (`@NdjsonStream()` routes, `application/x-ndjson`) */
+  NDJSON = 'ndjson',
+}
@@ -0,0 +1,16 @@
+/**
+ * Why an outbound HTTP call failed.
+ */
+export enum UpstreamFailureReason {
+  /** The upstream answered with an unaccepted status (e.g. 5xx) */
+  HTTP_STATUS = 'HTTP_STATUS',
+
+  /** No response within the timeout */
+  TIMEOUT = 'TIMEOUT',
+
+  /** Connection refused, DNS failure, reset, ... */
+  NETWORK = 'NETWORK',
+
+  /** The circuit breaker of the service is open; no call was made */
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
+}
@@ -0,0 +1,20 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { DomainException } from './domain.exception';
+
+/**
+ * Thrown when a request is malformed outside of DTO validation
+ * (e.g., an invalid tracing header).
+ */
+export class BadRequestDomainException extends DomainException {
+  constructor(options: IDomainExceptionOptions = {}) {
+    super(
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.VALIDATION,
+      { code: ErrorCode.INVALID_REQUEST, i18nKey: 'common.ERROR.BAD_REQUEST' },
+      options,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { DomainException } from './domain.exception';
+
+/**
+ * Thrown when a valid request violates a business rule (e.g., insufficient balance).
+ */
+export class BusinessRuleDomainException extends DomainException {
+  constructor(options: IDomainExceptionOptions = {}) {
+    super(
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      ErrorCategory.BUSINESS_LOGIC,
+      {
+        code: ErrorCode.BUSINESS_RULE_VIOLATION,
+        i18nKey: 'common.ERROR.BUSINESS_RULE_VIOLATION',
+      },
+      options,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { DomainException } from './domain.exception';
+
+/**
+ * Thrown when the request conflicts with the current resource state (e.g., duplicate entry).
+ */
+export class ConflictDomainException extends DomainException {
+  constructor(options: IDomainExceptionOptions = {}) {
+    super(
+      HttpStatus.CONFLICT,
+      ErrorCategory.BUSINESS_LOGIC,
+      { code: ErrorCode.RESOURCE_CONFLICT, i18nKey: 'common.ERROR.CONFLICT' },
+      options,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { DomainException } from './domain.exception';
+
+/**
+ * Thrown when a database operation fails.
+ */
+export class DatabaseDomainException extends DomainException {
+  constructor(options: IDomainExceptionOptions = {}) {
+    super(
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      ErrorCategory.DATABASE,
+      {
+        code: ErrorCode.DATABASE_ERROR,
+        i18nKey: 'common.ERROR.DATABASE_ERROR',
+      },
+      options,
+    );
+  }
+}
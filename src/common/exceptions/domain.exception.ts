@@ -0,0 +1,48 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+
+/**
+ * Base class for all typed domain exceptions.
+ *
+ * Carries everything AllExceptionsFilter needs without inspecting message text:
+ * - An explicit ErrorCategory
+ * - A stable machine-readable error code
+ * - An i18n key (with args) translated in the request language
+ * - Optional structured details for the client
+ *
+ * @example
+ * throw new NotFoundDomainException({
+ *   code: 'USER_NOT_FOUND',
+ *   i18nKey: 'common.USER.NOT_FOUND',
+ *   details: { userId },
+ * });
+ */
+export class DomainException extends HttpException {
+  readonly category: ErrorCategory;
+  readonly code: string;
+  readonly i18nKey: string;
+  readonly i18nArgs?: Record<string, unknown>;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    status: HttpStatus,
+    category: ErrorCategory,
+    defaults: { code: string; i18nKey: string },
+    options: IDomainExceptionOptions = {},
+  ) {
+    const code = options.code ?? defaults.code;
+    const i18nKey = options.i18nKey ?? defaults.i18nKey;
+
+    super({ code, message: i18nKey, details: options.details }, status, {
+      cause: options.cause,
+    });
+
+    this.name = new.target.name;
+    this.category = category;
+    this.code = code;
+    this.i18nKey = i18nKey;
+    this.i18nArgs = options.args;
+    this.details = options.details;
+  }
+}
@@ -0,0 +1,22 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { DomainException } from './domain.exception';
+
+/**
+ * Thrown when a third-party or upstream service fails.
+ */
+export class ExternalServiceDomainException extends DomainException {
+  constructor(options: IDomainExceptionOptions = {}) {
+    super(
+      HttpStatus.BAD_GATEWAY,
+      ErrorCategory.EXTERNAL_SERVICE,
+      {
+        code: ErrorCode.EXTERNAL_SERVICE_FAILURE,
+        i18nKey: 'common.ERROR.EXTERNAL_SERVICE_FAILURE',
+      },
+      options,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { DomainException } from './domain.exception';
+
+/**
+ * Thrown when a requested resource does not exist.
+ */
+export class NotFoundDomainException extends DomainException {
+  constructor(options: IDomainExceptionOptions = {}) {
+    super(
+      HttpStatus.NOT_FOUND,
+      ErrorCategory.NOT_FOUND,
+      { code: ErrorCode.RESOURCE_NOT_FOUND, i18nKey: 'common.ERROR.NOT_FOUND' },
+      options,
+    );
+  }
+}
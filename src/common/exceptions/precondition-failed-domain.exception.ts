@@ -0,0 +1,23 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { DomainException } from './domain.exception';
+
+/**
+ * Thrown when a conditional write (If-Match, If-Unmodified-Since) targets
+ * a resource that changed in the meantime.
+ */
+export class PreconditionFailedDomainException extends DomainException {
+  constructor(options: IDomainExceptionOptions = {}) {
+    super(
+      HttpStatus.PRECONDITION_FAILED,
+      ErrorCategory.BUSINESS_LOGIC,
+      {
+        code: ErrorCode.PRECONDITION_FAILED,
+        i18nKey: 'common.ERROR.PRECONDITION_FAILED',
+      },
+      options,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { DomainException } from './domain.exception';
+
+/**
+ * Thrown when a client exceeds a rate limit.
+ */
+export class TooManyRequestsDomainException extends DomainException {
+  constructor(options: IDomainExceptionOptions = {}) {
+    super(
+      HttpStatus.TOO_MANY_REQUESTS,
+      ErrorCategory.RATE_LIMIT,
+      {
+        code: ErrorCode.RATE_LIMIT_EXCEEDED,
+        i18nKey: 'common.ERROR.RATE_LIMIT_EXCEEDED',
+      },
+      options,
+    );
+  }
+}
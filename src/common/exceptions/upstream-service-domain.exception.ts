@@ -0,0 +1,53 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { UpstreamFailureReason } from '../enums/upstream-failure-reason.enum';
+import { IDomainExceptionOptions } from '../interfaces/domain-exception-options.interface';
+import { IUpstreamCall } from '../interfaces/upstream-call.interface';
+import { DomainException } from './domain.exception';
+
+/** Client-facing status, code and message per failure reason */
+const FAILURE_DEFAULTS: Record<
+  UpstreamFailureReason,
+  { status: HttpStatus; code: ErrorCode; i18nKey: string }
+> = {
+  [UpstreamFailureReason.HTTP_STATUS]: {
+    status: HttpStatus.BAD_GATEWAY,
+    code: ErrorCode.EXTERNAL_SERVICE_FAILURE,
+    i18nKey: 'common.ERROR.EXTERNAL_SERVICE_FAILURE',
+  },
+  [UpstreamFailureReason.NETWORK]: {
+    status: HttpStatus.BAD_GATEWAY,
+    code: ErrorCode.EXTERNAL_SERVICE_FAILURE,
+    i18nKey: 'common.ERROR.EXTERNAL_SERVICE_FAILURE',
+  },
+  [UpstreamFailureReason.TIMEOUT]: {
+    status: HttpStatus.GATEWAY_TIMEOUT,
+    code: ErrorCode.EXTERNAL_SERVICE_TIMEOUT,
+    i18nKey: 'common.ERROR.EXTERNAL_SERVICE_TIMEOUT',
+  },
+  [UpstreamFailureReason.CIRCUIT_OPEN]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    code: ErrorCode.EXTERNAL_SERVICE_UNAVAILABLE,
+    i18nKey: 'common.ERROR.EXTERNAL_SERVICE_UNAVAILABLE',
+  },
+};
+
+/**
+ * Thrown by HttpClientService when an outbound call fails.
+ * Timeouts map to 504, open circuits to 503 and other failures to 502.
+ * The upstream call (status, latency, attempts) is logged by
+ * AllExceptionsFilter but never sent to the client.
+ */
+export class UpstreamServiceDomainException extends DomainException {
+  readonly upstream: IUpstreamCall;
+
+  constructor(
+    upstream: IUpstreamCall & { reason: UpstreamFailureReason },
+    options: IDomainExceptionOptions = {},
+  ) {
+    const { status, code, i18nKey } = FAILURE_DEFAULTS[upstream.reason];
+    super(status, ErrorCategory.EXTERNAL_SERVICE, { code, i18nKey }, options);
+    this.upstream = upstream;
+  }
+}
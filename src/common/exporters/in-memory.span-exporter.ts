@@ -0,0 +1,28 @@
+import { ISpan } from '../interfaces/span.interface';
+import { ISpanExporter } from '../interfaces/span-exporter.interface';
+
+/**
+ * Keeps exported spans in memory. Intended for tests.
+ *
+ * @example
+ * const exporter = app.get<InMemorySpanExporter>(SPAN_EXPORTER);
+ * expect(exporter.getFinishedSpans()[0].attributes['http.route']).toBe('/api/v1/users/:id');
+ */
+export class InMemorySpanExporter implements ISpanExporter {
+  private spans: ISpan[] = [];
+
+  export(spans: ISpan[]): Promise<void> {
+    this.spans.push(...spans);
+    return Promise.resolve();
+  }
+
+  /** Spans exported so far */
+  getFinishedSpans(): ISpan[] {
+    return [...this.spans];
+  }
+
+  /** Forget all exported spans */
+  reset(): void {
+    this.spans = [];
+  }
+}
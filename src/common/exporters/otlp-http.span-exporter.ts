@@ -0,0 +1,94 @@
+import { ISpan, SpanAttributeValue } from '../interfaces/span.interface';
+import { ISpanExporter } from '../interfaces/span-exporter.interface';
+import { IOtlpHttpExporterOptions } from '../interfaces/otlp-http-exporter-options.interface';
+
+/**
+ * Exports spans to an OpenTelemetry collector using OTLP/HTTP with JSON encoding
+ * (`POST {endpoint}/v1/traces`).
+ */
+export class OtlpHttpSpanExporter implements ISpanExporter {
+  private readonly url: string;
+
+  constructor(private readonly options: IOtlpHttpExporterOptions) {
+    this.url = `${options.endpoint.replace(/\/+$/, '')}/v1/traces`;
+  }
+
+  async export(spans: ISpan[]): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(this.toExportRequest(spans)),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10000),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `OTLP export failed with status ${response.status} ${response.statusText}`,
+      );
+    }
+  }
+
+  /**
+   * Build an `ExportTraceServiceRequest` in OTLP/JSON encoding.
+   */
+  private toExportRequest(spans: ISpan[]): Record<string, unknown> {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toKeyValues({
+              'service.name': this.options.serviceName,
+            }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: 'nexus-api' },
+              spans: spans.map((span) => ({
+                traceId: span.context.traceId,
+                spanId: span.context.spanId,
+                ...(span.context.parentSpanId
+                  ? { parentSpanId: span.context.parentSpanId }
+                  : {}),
+                ...(span.context.traceState
+                  ? { traceState: span.context.traceState }
+                  : {}),
+                name: span.name,
+                kind: span.kind,
+                startTimeUnixNano: toUnixNano(span.startTime),
+                endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+                attributes: toKeyValues(span.attributes),
+                status: span.status,
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Convert milliseconds since epoch to an OTLP nanosecond timestamp string.
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+/**
+ * Convert attributes to OTLP `KeyValue` entries.
+ */
+function toKeyValues(
+  attributes: Record<string, SpanAttributeValue>,
+): Record<string, unknown>[] {
+  return Object.entries(attributes).map(([key, value]) => {
+    if (typeof value === 'boolean') {
+      return { key, value: { boolValue: value } };
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value)
+        ? { key, value: { intValue: String(value) } }
+        : { key, value: { doubleValue: value } };
+    }
+    return { key, value: { stringValue: value } };
+  });
+}
@@ -0,0 +1,127 @@
+import { ArgumentsHost, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { randomUUID } from 'crypto';
+import { I18nService } from 'nestjs-i18n';
+import { lastValueFrom, Observable } from 'rxjs';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { TooManyRequestsDomainException } from '../exceptions/too-many-requests-domain.exception';
+import { ITransportErrorPayload } from '../interfaces/transport-error.interface';
+import { MetricsService } from '../services/metrics.service';
+import { AllExceptionsFilter } from './all-exceptions.filter';
+
+// uuid ships ES modules only, which Jest does not transform here
+jest.mock('uuid', () => ({
+  v4: () => randomUUID(),
+  v7: () => randomUUID(),
+}));
+
+const expectedPayload: ITransportErrorPayload = {
+  status: 'error',
+  statusCode: 429,
+  message: 'common.ERROR.RATE_LIMIT_EXCEEDED',
+  errorCategory: ErrorCategory.RATE_LIMIT,
+  code: ErrorCode.RATE_LIMIT_EXCEEDED,
+  requestId: expect.any(String) as string,
+  correlationId: expect.any(String) as string,
+  timestamp: expect.any(String) as string,
+  details: { limit: 5 },
+};
+
+function createHost(type: string, args: unknown[]): ArgumentsHost {
+  const host = new ExecutionContextHost(args);
+  host.setType(type);
+  return host;
+}
+
+describe('AllExceptionsFilter transports', () => {
+  let filter: AllExceptionsFilter;
+  const exception = () =>
+    new TooManyRequestsDomainException({ details: { limit: 5 } });
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    const configService = new ConfigService({
+      FALLBACK_LANGUAGE: 'en',
+      METRICS_ENABLED: false,
+    });
+    filter = new AllExceptionsFilter(
+      { translate: (key: string) => key } as unknown as I18nService,
+      configService,
+      new MetricsService(configService),
+      new Reflector(),
+    );
+  });
+
+  it('should error the RPC Observable with the transport payload', async () => {
+    const host = createHost('rpc', [
+      { id: 1 },
+      { getPattern: () => 'orders.create' },
+    ]);
+
+    const result = filter.catch(exception(), host) as Observable<never>;
+
+    await expect(lastValueFrom(result)).rejects.toEqual(expectedPayload);
+  });
+
+  it('should emit the payload as `exception` to Socket.IO clients', async () => {
+    const client = { emit: jest.fn() };
+    const host = createHost('ws', [client, { id: 1 }, 'orders.subscribe']);
+
+    await filter.catch(exception(), host);
+
+    expect(client.emit).toHaveBeenCalledWith('exception', expectedPayload);
+  });
+
+  it('should send the `exception` event to plain ws clients', async () => {
+    const client = { send: jest.fn<void, [string]>() };
+    const host = createHost('ws', [client, { id: 1 }, 'orders.subscribe']);
+
+    await filter.catch(exception(), host);
+
+    expect(client.send).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(client.send.mock.calls[0][0])).toEqual({
+      event: 'exception',
+      data: expectedPayload,
+    });
+  });
+
+  it('should return a GraphQL error carrying the extensions', async () => {
+    const info = { parentType: { name: 'Mutation' }, fieldName: 'createOrder' };
+    const host = createHost('graphql', [undefined, {}, {}, info]);
+
+    const error = (await filter.catch(exception(), host)) as Error & {
+      extensions: Record<string, unknown>;
+    };
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('common.ERROR.RATE_LIMIT_EXCEEDED');
+    expect(error.extensions).toEqual({
+      code: ErrorCode.RATE_LIMIT_EXCEEDED,
+      errorCategory: ErrorCategory.RATE_LIMIT,
+      statusCode: 429,
+      requestId: expect.any(String) as string,
+      correlationId: expect.any(String) as string,
+      details: { limit: 5 },
+    });
+  });
+
+  it('should answer unknown errors with status 500', async () => {
+    const host = createHost('rpc', [{}, {}]);
+
+    const result = filter.catch(
+      new Error('db down'),
+      host,
+    ) as Observable<never>;
+
+    await expect(lastValueFrom(result)).rejects.toMatchObject({
+      status: 'error',
+      statusCode: 500,
+    });
+  });
+});
@@ -2,11 +2,13 @@ import {
   ArgumentsHost,
   Catch,
   ExceptionFilter,
-  HttpException,
-  HttpStatus,
+  ExecutionContext,
   Logger,
 } from '@nestjs/common';
 
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { from, mergeMap, throwError } from 'rxjs';
 import { Response } from 'express';
 import {
   getSystemMetaData,
@@ -17,36 +19,122 @@ import { I18nService, I18nContext } from 'nestjs-i18n';
 import type { IErrorResponse } from '../interfaces/IErrorResponse.interface';
 import { IRequestWithRequestId } from '../interfaces/request.interface';
 import { getClientIpInfo } from '../utils/ip.util';
+import { anonymizeIpInfo } from '../utils/ip-privacy.util';
+import {
+  applyEnvelopeProfile,
+  getEnvelopeProfileHeader,
+  resolveEnvelopeProfile,
+} from '../utils/envelope-profile.util';
 import { maskSensitiveData } from '../utils/mask.util';
+import { resolveException } from '../utils/exception-resolution.util';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorResponseFormat } from '../enums/error-response-format.enum';
+import { ERROR_RESPONSE_FORMAT_KEY } from '../decorators/error-response-format.decorator';
+import { ENVELOPE_PROFILE_KEY } from '../decorators/envelope-profile.decorator';
+import { RequestContextService } from '../services/request-context.service';
+import { UpstreamServiceDomainException } from '../exceptions/upstream-service-domain.exception';
+import {
+  PROBLEM_JSON_CONTENT_TYPE,
+  toProblemDetails,
+} from '../serializers/problem-details.serializer';
+import { MetricsService } from '../services/metrics.service';
+import { getRouteTemplate } from '../utils/route.util';
 import {
-  ErrorCategory,
-  getErrorCategory,
-} from '../enums/error-category.enum';
+  toGraphqlError,
+  toTransportErrorPayload,
+} from '../serializers/transport-error.serializer';
+import type { ITransportErrorPayload } from '../interfaces/transport-error.interface';
+import { IUpstreamCall } from '../interfaces/upstream-call.interface';
+import { getCorrelationIdOptions } from '../config/correlation-id.config';
+import { getLanguageOptions } from '../config/language.config';
+import { ILanguageOptions } from '../interfaces/language-options.interface';
+import {
+  getLanguageVaryHeaders,
+  resolveRequestLanguage,
+  setLanguageHeaders,
+} from '../utils/language.util';
 
 /**
  * Global exception filter that catches all exceptions thrown in the application.
  *
  * Features:
- * - Structured error responses with i18n support
+ * - Structured error responses with i18n support (Content-Language, Vary)
  * - Comprehensive logging with error categorization
+ * - Native DomainException support (explicit category, stable code, i18n key)
+ * - Field-accurate validation errors from I18nValidationPipe
  * - Request body masking for sensitive data
  * - Log enrichment with system and request metadata
  * - Slow request alerting
  * - Correlation ID support for distributed tracing
+ * - RFC 9457 Problem Details output (per route, per controller or via `Accept`)
+ * - Error metrics by category
+ * - Upstream status, latency and attempts of outbound call failures in the log context
+ * - Envelope profiles selecting the meta fields (same profile as TransformInterceptor)
+ * - Transport-aware output: HTTP response, RPC error payload, WebSocket `exception`
+ *   event or GraphQL error extensions, sharing categorization, i18n and logging
  */
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
   private readonly logger = new Logger(AllExceptionsFilter.name);
-  constructor(private readonly i18n: I18nService) { }
+  private readonly generateRequestId: () => string;
+  private readonly languageOptions: ILanguageOptions;
+  private readonly languageVaryHeaders: string[];
+
+  constructor(
+    private readonly i18n: I18nService,
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+    private readonly reflector: Reflector,
+  ) {
+    this.generateRequestId =
+      getCorrelationIdOptions(configService).generateRequestId;
+    this.languageOptions = getLanguageOptions(configService);
+    this.languageVaryHeaders = getLanguageVaryHeaders(this.languageOptions);
+  }
+
+  catch(exception: unknown, host: ArgumentsHost): unknown {
+    switch (host.getType<string>()) {
+      case 'http':
+        return this.catchHttp(exception, host);
+      case 'rpc':
+        // RPC servers expect an Observable that errors with the payload
+        return from(this.buildTransportError(exception, host)).pipe(
+          mergeMap((errorResponse) =>
+            throwError(() => toTransportErrorPayload(errorResponse)),
+          ),
+        );
+      case 'ws':
+        return this.buildTransportError(exception, host).then((errorResponse) =>
+          this.emitWsError(host, toTransportErrorPayload(errorResponse)),
+        );
+      case 'graphql':
+        // graphql-js treats a returned Error as a field error and keeps its extensions
+        return this.buildTransportError(exception, host).then(toGraphqlError);
+      default:
+        return this.buildTransportError(exception, host).then(
+          toTransportErrorPayload,
+        );
+    }
+  }
 
-  async catch(exception: unknown, host: ArgumentsHost): Promise<void> {
+  /**
+   * HTTP: envelope or Problem Details response.
+   */
+  private async catchHttp(
+    exception: unknown,
+    host: ArgumentsHost,
+  ): Promise<void> {
     const context = host.switchToHttp();
     const response = context.getResponse<Response>();
     const request = context.getRequest<IRequestWithRequestId>();
     const i18n = I18nContext.current<Record<string, unknown>>(host);
 
-    // Extract request identifiers
-    const lang: string = i18n?.lang ?? 'tr';
+    // Extract request identifiers; errors raised before i18n resolution resolve the language here
+    const lang =
+      i18n?.lang ??
+      resolveRequestLanguage(request, this.languageOptions) ??
+      this.languageOptions.fallbackLanguage;
+    RequestContextService.update({ lang });
     const requestId = request.requestId || 'N/A';
     const correlationId = request.correlationId || requestId;
 
@@ -55,6 +143,8 @@ export class AllExceptionsFilter implements ExceptionFilter {
 
     // Get IP information
     const ipInfo = getClientIpInfo(request);
+    const responseIp = anonymizeIpInfo(ipInfo, 'response');
+    const loggedIp = anonymizeIpInfo(ipInfo, 'log');
 
     // Get enriched metadata
     const requestMeta = getRequestMetaData(request);
@@ -63,75 +153,76 @@ export class AllExceptionsFilter implements ExceptionFilter {
     // Mask sensitive data in request body
     const maskedBody =
       request.body && typeof request.body === 'object'
-        ? maskSensitiveData(request.body as Record<string, unknown>)
+        ? maskSensitiveData(
+            request.body as Record<string, unknown>,
+            request.redactionPolicy?.fields,
+          )
         : undefined;
 
-    // Determine status and message
-    let status: number = HttpStatus.INTERNAL_SERVER_ERROR;
-    let message: string | string[] = await this.i18n.translate(
-      'common.INTERNAL_SERVER_ERROR',
-      { lang },
-    );
-    let errorName = 'InternalServerError';
-
-    if (exception instanceof HttpException) {
-      status = exception.getStatus();
-      errorName = exception.name;
-      const res = exception.getResponse();
-
-      if (typeof res === 'object' && res !== null) {
-        const resBody = res as { message?: string | string[]; error?: string };
-        message = resBody.message ?? resBody.error ?? 'Error';
-      } else if (typeof res === 'string') {
-        message = res;
-      }
-    } else if (exception instanceof Error) {
-      errorName = exception.name;
-      // In production, raw Error messages can be a security risk
-      // but acceptable during development
-      message = exception.message;
-    }
-
-    // Determine error category
-    const messageStr = Array.isArray(message) ? message.join(', ') : message;
-    const errorCategory = getErrorCategory(status, messageStr);
+    // Determine status, message, category and code
+    const {
+      status,
+      message,
+      messageStr,
+      errorName,
+      errorCategory,
+      code,
+      details,
+      validationErrors,
+    } = await resolveException(exception, this.i18n, lang);
+    request.errorCategory = errorCategory;
 
-    // Build error response
+    // Build error response with the same profile as TransformInterceptor
+    const envelopeProfile = resolveEnvelopeProfile(
+      request,
+      this.getRouteMetadata<string>(ENVELOPE_PROFILE_KEY, host, request),
+    );
     const errorResponse: IErrorResponse = {
       success: false,
       statusCode: status,
-      meta: {
-        requestId,
-        correlationId,
-        path: request.url,
-        method: request.method,
-        lang,
-        message,
-        timestamp: new Date().toISOString(),
-        ipv4: ipInfo.ipv4,
-        ipv6: ipInfo.ipv6,
-        errorCategory,
-        // Extract structured errors if it's a validation error
-        ...(errorCategory === ErrorCategory.VALIDATION && Array.isArray(message)
-          ? { errors: this.structureValidationErrors(message) }
-          : {}),
-      },
+      meta: applyEnvelopeProfile(
+        {
+          requestId,
+          correlationId,
+          path: request.url,
+          method: request.method,
+          lang,
+          message,
+          timestamp: new Date().toISOString(),
+          ipv4: responseIp.ipv4,
+          ipv6: responseIp.ipv6,
+          errorCategory,
+          code,
+          ...(details ? { details } : {}),
+          ...(validationErrors ? { errors: validationErrors } : {}),
+        },
+        envelopeProfile,
+      ),
     };
 
+    // Outbound call details of upstream failures (logged, never sent to the client)
+    const { upstream, upstreamLog } = this.describeUpstream(exception);
+
     // Build log context object
     const logContext = {
       requestId,
       correlationId,
       errorCategory,
+      errorCode: code,
       errorName,
       duration: `${duration}ms`,
       lang,
       ...requestMeta,
-      ipv4: ipInfo.ipv4,
-      ipv6: ipInfo.ipv6,
+      ipv4: loggedIp.ipv4,
+      ipv6: loggedIp.ipv6,
+      ipScope: ipInfo.scope,
+      ...(loggedIp.proxyChain.length > 1
+        ? { proxyChain: loggedIp.proxyChain }
+        : {}),
       ...(maskedBody && Object.keys(maskedBody).length > 0
         ? { requestBody: maskedBody }
         : {}),
+      ...(upstream ? { upstream } : {}),
       ...systemMeta,
     };
 
@@ -143,19 +234,38 @@ export class AllExceptionsFilter implements ExceptionFilter {
 ║ Request ID    : ${requestId}
 ║ Correlation ID: ${correlationId}
 ║ Category      : ${errorCategory}
+║ Code          : ${code}
 ║ Status        : ${status} (${errorName})
 ║ Duration      : ${duration}ms
-║ IPv4          : ${ipInfo.ipv4 || 'N/A'}
-║ IPv6          : ${ipInfo.ipv6 || 'N/A'}
+║ IPv4          : ${loggedIp.ipv4 || 'N/A'}
+║ IPv6          : ${loggedIp.ipv6 || 'N/A'}
 ║ User Agent    : ${requestMeta.userAgent}
-║ Message       : ${messageStr}
+║ Message       : ${messageStr}${upstreamLog}
 ╚══════════════════════════════════════════════════════════════╝`;
 
     // Log based on status code and category
-    this.logByCategory(status, errorCategory, logMessage, exception, logContext);
+    this.logByCategory(
+      status,
+      errorCategory,
+      logMessage,
+      exception,
+      logContext,
+    );
+
+    const isSlow = duration > SLOW_REQUEST_THRESHOLD_MS;
+    this.metricsService.observeError(
+      {
+        method: request.method,
+        route: getRouteTemplate(request),
+        statusCode: status,
+        durationMs: duration,
+      },
+      errorCategory,
+      isSlow,
+    );
 
     // Alert for slow requests
-    if (duration > SLOW_REQUEST_THRESHOLD_MS) {
+    if (isSlow) {
       this.logger.warn(
         `⏰ SLOW REQUEST ALERT: ${request.method} ${request.url} took ${duration}ms (threshold: ${SLOW_REQUEST_THRESHOLD_MS}ms)`,
         {
@@ -165,9 +275,242 @@ export class AllExceptionsFilter implements ExceptionFilter {
       );
     }
 
+    const profileHeader = getEnvelopeProfileHeader();
+    if (profileHeader) {
+      response.vary(profileHeader);
+    }
+    setLanguageHeaders(response, lang, this.languageVaryHeaders);
+
+    // Serialize in the format requested by the route or the client
+    if (
+      this.resolveErrorFormat(host, request) ===
+      ErrorResponseFormat.PROBLEM_DETAILS
+    ) {
+      response
+        .status(status)
+        .type(PROBLEM_JSON_CONTENT_TYPE)
+        .json(
+          toProblemDetails(errorResponse, {
+            typeBaseUrl: this.configService.get<string>(
+              'PROBLEM_TYPE_BASE_URL',
+            ),
+          }),
+        );
+      return;
+    }
+
     response.status(status).json(errorResponse);
   }
 
+  /**
+   * RPC, WebSocket and GraphQL: build the error envelope and log it.
+   * There is no HTTP response to write; callers serialize the envelope
+   * for their transport. Route metrics are HTTP-only.
+   */
+  private async buildTransportError(
+    exception: unknown,
+    host: ArgumentsHost,
+  ): Promise<IErrorResponse> {
+    const transport = host.getType<string>();
+    const i18n = I18nContext.current<Record<string, unknown>>(host);
+    const lang = i18n?.lang ?? this.languageOptions.fallbackLanguage;
+    RequestContextService.update({ lang });
+
+    // GraphQL over HTTP runs inside the request context; other transports get new IDs
+    const requestContext = RequestContextService.current();
+    const requestId = requestContext?.requestId ?? this.generateRequestId();
+    const correlationId = requestContext?.correlationId ?? requestId;
+    const duration = requestContext
+      ? Date.now() - requestContext.startTime
+      : undefined;
+    const operation = this.getOperationName(host, transport) ?? 'unknown';
+
+    const {
+      status,
+      message,
+      messageStr,
+      errorName,
+      errorCategory,
+      code,
+      details,
+      validationErrors,
+    } = await resolveException(exception, this.i18n, lang);
+
+    const errorResponse: IErrorResponse = {
+      success: false,
+      statusCode: status,
+      meta: {
+        requestId,
+        correlationId,
+        lang,
+        message,
+        timestamp: new Date().toISOString(),
+        errorCategory,
+        code,
+        ...(details ? { details } : {}),
+        ...(validationErrors ? { errors: validationErrors } : {}),
+      },
+    };
+
+    const { upstream, upstreamLog } = this.describeUpstream(exception);
+    const logContext = {
+      requestId,
+      correlationId,
+      errorCategory,
+      errorCode: code,
+      errorName,
+      transport,
+      operation,
+      ...(duration !== undefined ? { duration: `${duration}ms` } : {}),
+      lang,
+      ...(upstream ? { upstream } : {}),
+      ...getSystemMetaData(),
+    };
+
+    const logMessage = `
+╔══════════════════════════════════════════════════════════════╗
+║ ${this.getStatusEmoji(status)} ${transport.toUpperCase()} ${operation}
+╠══════════════════════════════════════════════════════════════╣
+║ Request ID    : ${requestId}
+║ Correlation ID: ${correlationId}
+║ Category      : ${errorCategory}
+║ Code          : ${code}
+║ Status        : ${status} (${errorName})
+║ Message       : ${messageStr}${upstreamLog}
+╚══════════════════════════════════════════════════════════════╝`;
+
+    this.logByCategory(
+      status,
+      errorCategory,
+      logMessage,
+      exception,
+      logContext,
+    );
+
+    return errorResponse;
+  }
+
+  /**
+   * Send the error as `exception` event, like Nest's BaseWsExceptionFilter.
+   * Socket.IO clients expose `emit`; plain `ws` clients only `send`.
+   */
+  private emitWsError(host: ArgumentsHost, payload: ITransportErrorPayload) {
+    const client = host.switchToWs().getClient<{
+      emit?: (event: string, data: unknown) => void;
+      send?: (data: string) => void;
+    }>();
+
+    if (typeof client?.emit === 'function') {
+      client.emit('exception', payload);
+    } else if (typeof client?.send === 'function') {
+      client.send(JSON.stringify({ event: 'exception', data: payload }));
+    }
+  }
+
+  /**
+   * Identify the failed operation: message pattern (RPC), event (WS)
+   * or `Type.field` (GraphQL).
+   */
+  private getOperationName(
+    host: ArgumentsHost,
+    transport: string,
+  ): string | undefined {
+    switch (transport) {
+      case 'rpc': {
+        const rpcContext = host
+          .switchToRpc()
+          .getContext<{ getPattern?: () => unknown } | undefined>();
+        const pattern = rpcContext?.getPattern?.();
+        if (pattern === undefined) {
+          return undefined;
+        }
+        return typeof pattern === 'string' ? pattern : JSON.stringify(pattern);
+      }
+      case 'ws':
+        return host.switchToWs().getPattern();
+      case 'graphql': {
+        const info = host.getArgByIndex<
+          { parentType?: { name: string }; fieldName?: string } | undefined
+        >(3);
+        return info?.fieldName
+          ? `${info.parentType?.name ?? 'Unknown'}.${info.fieldName}`
+          : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Outbound call details of upstream failures (logged, never sent to the client).
+   */
+  private describeUpstream(exception: unknown): {
+    upstream?: IUpstreamCall;
+    upstreamLog: string;
+  } {
+    if (!(exception instanceof UpstreamServiceDomainException)) {
+      return { upstreamLog: '' };
+    }
+
+    const { upstream } = exception;
+    return {
+      upstream,
+      upstreamLog: `\n║ Upstream      : ${upstream.service} ${upstream.status ?? upstream.reason} (${upstream.latencyMs}ms, ${upstream.attempts} attempt(s))`,
+    };
+  }
+
+  /**
+   * Resolve the error response format.
+   * Priority: route/controller metadata > `Accept` header > envelope (default).
+   */
+  private resolveErrorFormat(
+    host: ArgumentsHost,
+    request: IRequestWithRequestId,
+  ): ErrorResponseFormat {
+    const routeFormat = this.getRouteMetadata<ErrorResponseFormat>(
+      ERROR_RESPONSE_FORMAT_KEY,
+      host,
+      request,
+    );
+    if (routeFormat) {
+      return routeFormat;
+    }
+
+    const accept = request.headers.accept;
+    if (
+      typeof accept === 'string' &&
+      accept.includes(PROBLEM_JSON_CONTENT_TYPE)
+    ) {
+      return ErrorResponseFormat.PROBLEM_DETAILS;
+    }
+
+    return ErrorResponseFormat.ENVELOPE;
+  }
+
+  /**
+   * Read route/controller metadata of the failed request (handler overrides controller),
+   * e.g. the error format and envelope profile.
+   * Uses the host's handler when the transport provides one, otherwise the targets
+   * recorded by RouteMetadataGuard. Errors raised before routing (middleware, 404)
+   * have no route metadata.
+   */
+  private getRouteMetadata<T>(
+    key: string,
+    host: ArgumentsHost,
+    request: IRequestWithRequestId,
+  ): T | undefined {
+    const context = host as Partial<ExecutionContext>;
+    const handler = context.getHandler?.();
+    const targets = handler
+      ? [handler, context.getClass?.()]
+      : (request.routeMetadataTargets ?? []);
+
+    return this.reflector.getAllAndOverride<T | undefined>(
+      key,
+      targets.filter((target) => target !== undefined),
+    );
+  }
+
   /**
    * Get appropriate emoji based on HTTP status code.
    */
@@ -242,28 +585,4 @@ export class AllExceptionsFilter implements ExceptionFilter {
     // Fallback
     this.logger.log(logMessage, context);
   }
-
-  /**
-   * Transforms flat validation error messages into a structured object.
-   * Example: ["email must be an email", "password is too short"]
-   * -> { email: ["email must be an email"], password: ["password is too short"] }
-   */
-  private structureValidationErrors(
-    messages: string[],
-  ): Record<string, string[]> {
-    const errors: Record<string, string[]> = {};
-
-    messages.forEach((msg) => {
-      // Logic to find the field name. Usually it's the first word.
-      // This is a simple heuristic; I18nValidationPipe might provide better structure
-      // but if we only have the string array, we try to guess the field.
-      const field = msg.split(' ')[0] || 'general';
-      if (!errors[field]) {
-        errors[field] = [];
-      }
-      errors[field].push(msg);
-    });
-
-    return errors;
-  }
 }
@@ -0,0 +1,158 @@
+import { CallHandler } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { Response } from 'express';
+import { lastValueFrom, of } from 'rxjs';
+import { RateLimit, SkipRateLimit } from '../decorators/rate-limit.decorator';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+import { TooManyRequestsDomainException } from '../exceptions/too-many-requests-domain.exception';
+import { RateLimitInterceptor } from '../interceptors/rate-limit.interceptor';
+import { IRequestWithRequestId } from '../interfaces/request.interface';
+import { RateLimitService } from '../services/rate-limit.service';
+import { InMemoryRateLimitStore } from '../stores/in-memory.rate-limit-store';
+import { RateLimitGuard } from './rate-limit.guard';
+
+class AuthController {
+  @RateLimit({ limit: 2, windowMs: 60_000, keyBy: RateLimitKey.IP })
+  login(): void {}
+
+  @RateLimit({ limit: 1, windowMs: 60_000, keyBy: RateLimitKey.API_KEY })
+  exportData(): void {}
+
+  @RateLimit({ limit: 1, windowMs: 60_000, keyBy: RateLimitKey.USER })
+  profile(): void {}
+
+  @SkipRateLimit()
+  health(): void {}
+}
+
+function createRequest(
+  remoteAddress = '8.8.8.8',
+  headers: Record<string, string> = {},
+  user?: { id: string },
+): IRequestWithRequestId {
+  return {
+    method: 'POST',
+    socket: { remoteAddress },
+    headers,
+    user,
+  } as unknown as IRequestWithRequestId;
+}
+
+function createResponse(): Response & { headers: Record<string, unknown> } {
+  const headers: Record<string, unknown> = {};
+  return {
+    headers,
+    setHeader(name: string, value: unknown) {
+      headers[name.toLowerCase()] = value;
+    },
+  } as unknown as Response & { headers: Record<string, unknown> };
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let interceptor: RateLimitInterceptor;
+
+  const context = (
+    handler: keyof AuthController,
+    request: IRequestWithRequestId,
+    response = createResponse(),
+  ) =>
+    new ExecutionContextHost(
+      [request, response],
+      AuthController,
+      AuthController.prototype[handler],
+    );
+
+  beforeEach(() => {
+    const service = new RateLimitService(
+      new Reflector(),
+      new InMemoryRateLimitStore(),
+      new ConfigService({}),
+    );
+    guard = new RateLimitGuard(service);
+    interceptor = new RateLimitInterceptor(service);
+  });
+
+  it('should set RateLimit headers on allowed requests', async () => {
+    const response = createResponse();
+
+    await expect(
+      guard.canActivate(context('login', createRequest(), response)),
+    ).resolves.toBe(true);
+    expect(response.headers).toEqual({
+      'ratelimit-limit': 2,
+      'ratelimit-remaining': 1,
+      'ratelimit-reset': expect.any(Number) as number,
+      'ratelimit-policy': '2;w=60',
+    });
+  });
+
+  it('should reject with 429 and Retry-After once the limit is exceeded', async () => {
+    await guard.canActivate(context('login', createRequest()));
+    await guard.canActivate(context('login', createRequest()));
+
+    const response = createResponse();
+    const error: unknown = await guard
+      .canActivate(context('login', createRequest(), response))
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TooManyRequestsDomainException);
+    expect((error as TooManyRequestsDomainException).getStatus()).toBe(429);
+    expect(response.headers['ratelimit-remaining']).toBe(0);
+    expect(response.headers['retry-after']).toBeGreaterThan(0);
+  });
+
+  it('should count IP rules per client IP', async () => {
+    await guard.canActivate(context('login', createRequest('8.8.8.8')));
+    await guard.canActivate(context('login', createRequest('8.8.8.8')));
+
+    await expect(
+      guard.canActivate(context('login', createRequest('8.8.4.4'))),
+    ).resolves.toBe(true);
+  });
+
+  it('should count API key rules per key regardless of the IP', async () => {
+    const key = (apiKey: string, ip: string) =>
+      createRequest(ip, { 'x-api-key': apiKey });
+
+    await guard.canActivate(context('exportData', key('key-a', '8.8.8.8')));
+
+    await expect(
+      guard.canActivate(context('exportData', key('key-a', '8.8.4.4'))),
+    ).rejects.toBeInstanceOf(TooManyRequestsDomainException);
+    await expect(
+      guard.canActivate(context('exportData', key('key-b', '8.8.8.8'))),
+    ).resolves.toBe(true);
+  });
+
+  it('should leave user rules to the interceptor, after authentication', async () => {
+    // Authentication has not run yet: the guard must not fall back to the IP
+    const response = createResponse();
+    await guard.canActivate(context('profile', createRequest(), response));
+    await guard.canActivate(context('profile', createRequest()));
+    expect(response.headers).toEqual({});
+
+    const next: CallHandler = { handle: () => of('ok') };
+    const run = (user: { id: string }) =>
+      interceptor
+        .intercept(context('profile', createRequest('8.8.8.8', {}, user)), next)
+        .then(lastValueFrom);
+
+    await expect(run({ id: 'alice' })).resolves.toBe('ok');
+    await expect(run({ id: 'alice' })).rejects.toBeInstanceOf(
+      TooManyRequestsDomainException,
+    );
+    await expect(run({ id: 'bob' })).resolves.toBe('ok');
+  });
+
+  it('should skip routes marked with @SkipRateLimit()', async () => {
+    const response = createResponse();
+
+    await expect(
+      guard.canActivate(context('health', createRequest(), response)),
+    ).resolves.toBe(true);
+    expect(response.headers).toEqual({});
+  });
+});
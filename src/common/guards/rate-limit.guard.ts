@@ -0,0 +1,27 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+import { RateLimitService } from '../services/rate-limit.service';
+
+/**
+ * Global guard enforcing @RateLimit() rules keyed by IP, API key or route,
+ * and the optional global limit.
+ *
+ * Global guards run before controller and route guards, so authentication has
+ * not set `request.user` yet. User-keyed rules are therefore left to
+ * RateLimitInterceptor, which runs after every guard. Checking the other keys
+ * here means requests rejected by authentication still count.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(private readonly rateLimitService: RateLimitService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const rule = this.rateLimitService.resolveRule(context);
+    if (!rule || rule.keyBy === RateLimitKey.USER) {
+      return true;
+    }
+
+    await this.rateLimitService.enforce(context, rule);
+    return true;
+  }
+}
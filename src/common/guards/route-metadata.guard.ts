@@ -0,0 +1,25 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { IRequestWithRequestId } from '../interfaces/request.interface';
+
+/**
+ * Global guard recording the matched route's handler and controller on the request.
+ *
+ * Nest hands HTTP exception filters a host without the handler or class, so
+ * AllExceptionsFilter reads route metadata (@UseProblemDetails(), @UseEnvelopeProfile())
+ * from these targets. Registered as the first global guard (AppModule), so errors
+ * thrown by every later guard (auth, RateLimitGuard), pipe or handler honour it.
+ * Never blocks a request.
+ */
+@Injectable()
+export class RouteMetadataGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() === 'http') {
+      const request = context
+        .switchToHttp()
+        .getRequest<IRequestWithRequestId>();
+      request.routeMetadataTargets = [context.getHandler(), context.getClass()];
+    }
+
+    return true;
+  }
+}
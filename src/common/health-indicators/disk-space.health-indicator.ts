@@ -0,0 +1,54 @@
+import { existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+import { HealthStatus } from '../enums/health-status.enum';
+import {
+  IHealthIndicator,
+  IHealthIndicatorResult,
+} from '../interfaces/health-indicator.interface';
+
+/**
+ * Reports DOWN when the disk holding the given directory (the log directory
+ * by default) is used beyond the configured percentage.
+ */
+export class DiskSpaceHealthIndicator implements IHealthIndicator {
+  readonly name = 'disk';
+
+  constructor(
+    private readonly directory: string,
+    private readonly thresholdPercent: number,
+  ) {}
+
+  async check(): Promise<IHealthIndicatorResult> {
+    const target = this.resolveExistingPath(path.resolve(this.directory));
+    const stats = await fs.statfs(target);
+
+    const total = stats.blocks * stats.bsize;
+    const free = stats.bavail * stats.bsize;
+    const usedPercent = total > 0 ? ((total - free) / total) * 100 : 0;
+
+    return {
+      status:
+        usedPercent <= this.thresholdPercent
+          ? HealthStatus.UP
+          : HealthStatus.DOWN,
+      details: {
+        path: target,
+        used: `${usedPercent.toFixed(1)}%`,
+        free: `${Math.round(free / 1024 / 1024)} MB`,
+        threshold: `${this.thresholdPercent}%`,
+      },
+    };
+  }
+
+  /**
+   * The log directory is created lazily by winston; fall back to the
+   * nearest existing parent so the check works on a fresh deployment.
+   */
+  private resolveExistingPath(target: string): string {
+    let current = target;
+    while (!existsSync(current) && path.dirname(current) !== current) {
+      current = path.dirname(current);
+    }
+    return current;
+  }
+}
@@ -0,0 +1,51 @@
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
+import { HealthStatus } from '../enums/health-status.enum';
+import {
+  IHealthIndicator,
+  IHealthIndicatorResult,
+} from '../interfaces/health-indicator.interface';
+
+const NS_PER_MS = 1e6;
+const SAMPLING_RESOLUTION_MS = 20;
+
+/**
+ * Reports DOWN when the mean event-loop delay since the previous check
+ * exceeds the configured threshold.
+ */
+export class EventLoopLagHealthIndicator implements IHealthIndicator {
+  readonly name = 'eventLoop';
+  private readonly histogram: IntervalHistogram;
+
+  constructor(private readonly thresholdMs: number) {
+    this.histogram = monitorEventLoopDelay({
+      resolution: SAMPLING_RESOLUTION_MS,
+    });
+    this.histogram.enable();
+  }
+
+  check(): Promise<IHealthIndicatorResult> {
+    // Samples include the sampling interval itself; an empty histogram reports NaN
+    const lagMs = this.toLagMs(this.histogram.mean);
+    const maxLagMs = this.toLagMs(this.histogram.max);
+    this.histogram.reset();
+
+    return Promise.resolve({
+      status: lagMs <= this.thresholdMs ? HealthStatus.UP : HealthStatus.DOWN,
+      details: {
+        meanLag: `${lagMs.toFixed(1)}ms`,
+        maxLag: `${maxLagMs.toFixed(1)}ms`,
+        threshold: `${this.thresholdMs}ms`,
+      },
+    });
+  }
+
+  /**
+   * Convert a histogram value (ns) to event-loop lag in milliseconds.
+   */
+  private toLagMs(delayNs: number): number {
+    if (Number.isNaN(delayNs)) {
+      return 0;
+    }
+    return Math.max(0, delayNs / NS_PER_MS - SAMPLING_RESOLUTION_MS);
+  }
+}
@@ -0,0 +1,35 @@
+import { I18nService } from 'nestjs-i18n';
+import { HealthStatus } from '../enums/health-status.enum';
+import {
+  IHealthIndicator,
+  IHealthIndicatorResult,
+} from '../interfaces/health-indicator.interface';
+
+/**
+ * Reports DOWN until translations are loaded for every supported language.
+ * Error and validation messages depend on them.
+ */
+export class I18nHealthIndicator implements IHealthIndicator {
+  readonly name = 'i18n';
+
+  constructor(private readonly i18n: I18nService) {}
+
+  check(): Promise<IHealthIndicatorResult> {
+    const languages = this.i18n.getSupportedLanguages();
+    const translations = this.i18n.getTranslations();
+    const missing = languages.filter(
+      (lang) => Object.keys(translations[lang] ?? {}).length === 0,
+    );
+
+    return Promise.resolve({
+      status:
+        languages.length > 0 && missing.length === 0
+          ? HealthStatus.UP
+          : HealthStatus.DOWN,
+      details: {
+        languages,
+        ...(missing.length > 0 ? { missing } : {}),
+      },
+    });
+  }
+}
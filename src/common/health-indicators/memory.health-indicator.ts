@@ -0,0 +1,33 @@
+import { HealthStatus } from '../enums/health-status.enum';
+import {
+  IHealthIndicator,
+  IHealthIndicatorResult,
+} from '../interfaces/health-indicator.interface';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Reports DOWN when the V8 heap usage exceeds the configured threshold.
+ */
+export class MemoryHealthIndicator implements IHealthIndicator {
+  readonly name = 'memory';
+
+  constructor(private readonly heapThresholdMb: number) {}
+
+  check(): Promise<IHealthIndicatorResult> {
+    const { heapUsed, rss } = process.memoryUsage();
+    const heapUsedMb = Math.round(heapUsed / BYTES_PER_MB);
+
+    return Promise.resolve({
+      status:
+        heapUsedMb <= this.heapThresholdMb
+          ? HealthStatus.UP
+          : HealthStatus.DOWN,
+      details: {
+        heapUsed: `${heapUsedMb} MB`,
+        rss: `${Math.round(rss / BYTES_PER_MB)} MB`,
+        threshold: `${this.heapThresholdMb} MB`,
+      },
+    });
+  }
+}
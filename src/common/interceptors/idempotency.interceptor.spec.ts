@@ -0,0 +1,177 @@
+import { CallHandler } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { Response } from 'express';
+import { lastValueFrom, Observable, of, Subject, throwError } from 'rxjs';
+import { BusinessRuleDomainException } from '../exceptions/business-rule-domain.exception';
+import { ConflictDomainException } from '../exceptions/conflict-domain.exception';
+import { IRequestWithRequestId } from '../interfaces/request.interface';
+import { InMemoryIdempotencyStore } from '../stores/in-memory.idempotency-store';
+import {
+  IDEMPOTENT_REPLAYED_HEADER,
+  IdempotencyInterceptor,
+} from './idempotency.interceptor';
+
+class OrdersController {}
+
+/** Route handler without metadata: default idempotency options */
+function cancel(): void {}
+
+function createRequest(
+  overrides: Partial<IRequestWithRequestId> = {},
+): IRequestWithRequestId {
+  return {
+    method: 'POST',
+    path: '/orders/1/cancel',
+    url: '/orders/1/cancel',
+    query: {},
+    body: { reason: 'duplicate' },
+    headers: { 'idempotency-key': 'key-1' },
+    ...overrides,
+  } as unknown as IRequestWithRequestId;
+}
+
+function createResponse(): Response {
+  const headers: Record<string, unknown> = {};
+  const response = {
+    statusCode: 201,
+    headersSent: false,
+    status(code: number) {
+      response.statusCode = code;
+      return response;
+    },
+    setHeader(name: string, value: unknown) {
+      headers[name.toLowerCase()] = value;
+      return response;
+    },
+    getHeader: (name: string) => headers[name.toLowerCase()],
+    getHeaders: () => ({ ...headers }),
+  };
+  return response as unknown as Response;
+}
+
+describe('IdempotencyInterceptor', () => {
+  let store: InMemoryIdempotencyStore;
+  let interceptor: IdempotencyInterceptor;
+  let calls: number;
+
+  const handler = (result: () => Observable<unknown>): CallHandler => ({
+    handle: () => {
+      calls++;
+      return result();
+    },
+  });
+
+  const run = async (
+    request: IRequestWithRequestId,
+    next: CallHandler,
+    response = createResponse(),
+  ): Promise<unknown> => {
+    const context = new ExecutionContextHost(
+      [request, response],
+      OrdersController,
+      cancel,
+    );
+    return lastValueFrom(await interceptor.intercept(context, next));
+  };
+
+  beforeEach(() => {
+    calls = 0;
+    store = new InMemoryIdempotencyStore();
+    interceptor = new IdempotencyInterceptor(
+      new Reflector(),
+      store,
+      new ConfigService({}),
+    );
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+  });
+
+  it('should replay the stored response for retries', async () => {
+    const next = handler(() => of({ cancelled: true }));
+
+    await expect(run(createRequest(), next)).resolves.toEqual({
+      cancelled: true,
+    });
+
+    const response = createResponse();
+    await expect(run(createRequest(), next, response)).resolves.toEqual({
+      cancelled: true,
+    });
+    expect(calls).toBe(1);
+    expect(response.statusCode).toBe(201);
+    expect(response.getHeader(IDEMPOTENT_REPLAYED_HEADER)).toBe('true');
+  });
+
+  it('should scope keys to the concrete path', async () => {
+    const next = handler(() => of({ cancelled: true }));
+
+    await run(createRequest(), next);
+    const response = createResponse();
+    await run(
+      createRequest({ path: '/orders/2/cancel', url: '/orders/2/cancel' }),
+      next,
+      response,
+    );
+
+    expect(calls).toBe(2);
+    expect(response.getHeader(IDEMPOTENT_REPLAYED_HEADER)).toBeUndefined();
+  });
+
+  it('should reject duplicates while the first request is in flight with 409', async () => {
+    const pending = new Subject<unknown>();
+    const first = run(
+      createRequest(),
+      handler(() => pending),
+    );
+
+    const error = await run(
+      createRequest(),
+      handler(() => of({})),
+    ).catch((rejection: unknown) => rejection);
+    expect(error).toBeInstanceOf(ConflictDomainException);
+    expect((error as ConflictDomainException).getStatus()).toBe(409);
+
+    pending.next({ cancelled: true });
+    pending.complete();
+    await expect(first).resolves.toEqual({ cancelled: true });
+    expect(calls).toBe(1);
+  });
+
+  it('should reject a key reused with a different body or query with 422', async () => {
+    const next = handler(() => of({ cancelled: true }));
+    await run(createRequest(), next);
+
+    const error = await run(
+      createRequest({ body: { reason: 'other' } }),
+      next,
+    ).catch((rejection: unknown) => rejection);
+    expect(error).toBeInstanceOf(BusinessRuleDomainException);
+    expect((error as BusinessRuleDomainException).getStatus()).toBe(422);
+
+    await expect(
+      run(createRequest({ query: { notify: 'true' } }), next),
+    ).rejects.toBeInstanceOf(BusinessRuleDomainException);
+    expect(calls).toBe(1);
+  });
+
+  it('should release the key when the request fails', async () => {
+    await expect(
+      run(
+        createRequest(),
+        handler(() => throwError(() => new Error('boom'))),
+      ),
+    ).rejects.toThrow('boom');
+
+    await expect(
+      run(
+        createRequest(),
+        handler(() => of({ cancelled: true })),
+      ),
+    ).resolves.toEqual({ cancelled: true });
+    expect(calls).toBe(2);
+  });
+});
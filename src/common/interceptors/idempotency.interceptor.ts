@@ -0,0 +1,230 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { Response } from 'express';
+import { catchError, from, mergeMap, Observable, of, throwError } from 'rxjs';
+import { getIdempotencyOptions } from '../config/idempotency.config';
+import {
+  IDEMPOTENT_KEY,
+  IdempotentOptions,
+} from '../decorators/idempotent.decorator';
+import { ErrorCode } from '../enums/error-code.enum';
+import { IdempotencyStatus } from '../enums/idempotency-status.enum';
+import { BadRequestDomainException } from '../exceptions/bad-request-domain.exception';
+import { BusinessRuleDomainException } from '../exceptions/business-rule-domain.exception';
+import { ConflictDomainException } from '../exceptions/conflict-domain.exception';
+import { IIdempotencyOptions } from '../interfaces/idempotency-options.interface';
+import { IIdempotentResponse } from '../interfaces/idempotency-record.interface';
+import { IDEMPOTENCY_STORE } from '../interfaces/idempotency-store.interface';
+import type { IIdempotencyStore } from '../interfaces/idempotency-store.interface';
+import { IRequestWithRequestId } from '../interfaces/request.interface';
+import { isRawResponseBody } from '../utils/raw-response.util';
+
+/** Methods whose retries can create duplicates */
+const UNSAFE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Headers describing the original request rather than the resource; never replayed */
+const NON_REPLAYED_HEADERS = [
+  'x-request-id',
+  'x-correlation-id',
+  'traceparent',
+  'tracestate',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+  'ratelimit-policy',
+  'retry-after',
+  'set-cookie',
+  'content-length',
+  'date',
+  'connection',
+];
+
+/** Header marking replayed responses */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Idempotency-Key support for unsafe methods.
+ *
+ * The first successful response per key + user + path is stored and replayed
+ * for retries. Must wrap TransformInterceptor so the stored body is the envelope.
+ *
+ * - Concurrent duplicates while the first request runs: 409
+ * - Key reused with a different body or query: 422
+ * - Errors release the key so the request can be retried
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+  private readonly options: IIdempotencyOptions;
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(IDEMPOTENCY_STORE) private readonly store: IIdempotencyStore,
+    configService: ConfigService,
+  ) {
+    this.options = getIdempotencyOptions(configService);
+  }
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    if (!this.options.enabled || context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<IRequestWithRequestId>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const routeOptions = this.reflector.getAllAndOverride<
+      IdempotentOptions | false | undefined
+    >(IDEMPOTENT_KEY, [context.getHandler(), context.getClass()]);
+
+    if (routeOptions === false || !UNSAFE_METHODS.includes(request.method)) {
+      return next.handle();
+    }
+
+    const idempotencyKey = request.headers[this.options.header];
+    if (idempotencyKey === undefined && !routeOptions?.required) {
+      return next.handle();
+    }
+    if (
+      typeof idempotencyKey !== 'string' ||
+      idempotencyKey.length === 0 ||
+      idempotencyKey.length > this.options.maxKeyLength
+    ) {
+      throw new BadRequestDomainException({
+        code: ErrorCode.INVALID_IDEMPOTENCY_KEY,
+        i18nKey: 'common.ERROR.INVALID_IDEMPOTENCY_KEY',
+        args: { header: this.options.header },
+      });
+    }
+
+    const storeKey = this.buildStoreKey(request, idempotencyKey);
+    // Query parameters select what the request acts on, like the body
+    const fingerprint = this.hash(
+      JSON.stringify({
+        query: request.query ?? {},
+        body: (request.body as unknown) ?? null,
+      }),
+    );
+
+    const existing = await this.store.acquire(
+      storeKey,
+      fingerprint,
+      this.options.inFlightTtlMs,
+    );
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new BusinessRuleDomainException({
+          code: ErrorCode.IDEMPOTENCY_KEY_REUSED,
+          i18nKey: 'common.ERROR.IDEMPOTENCY_KEY_REUSED',
+        });
+      }
+      if (
+        existing.status === IdempotencyStatus.IN_FLIGHT ||
+        !existing.response
+      ) {
+        throw new ConflictDomainException({
+          code: ErrorCode.IDEMPOTENCY_REQUEST_IN_PROGRESS,
+          i18nKey: 'common.ERROR.IDEMPOTENCY_REQUEST_IN_PROGRESS',
+        });
+      }
+
+      this.logger.log(
+        `↩️ Replayed idempotent response: ${request.method} ${request.url}`,
+        { idempotencyKey: this.hash(idempotencyKey) },
+      );
+      return of(this.replay(response, existing.response));
+    }
+
+    const ttlMs = routeOptions?.ttlMs ?? this.options.ttlMs;
+
+    return next.handle().pipe(
+      mergeMap((body: unknown) =>
+        from(this.complete(storeKey, response, body, ttlMs)),
+      ),
+      catchError((error: unknown) =>
+        from(this.store.release(storeKey)).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Store the response for replay; raw and handler-managed responses cannot be
+   * replayed, so their key is released instead.
+   */
+  private async complete(
+    storeKey: string,
+    response: Response,
+    body: unknown,
+    ttlMs: number,
+  ): Promise<unknown> {
+    if (response.headersSent || isRawResponseBody(body)) {
+      await this.store.release(storeKey);
+      return body;
+    }
+
+    const headers: Record<string, string | string[]> = {};
+    for (const [name, value] of Object.entries(response.getHeaders())) {
+      if (value !== undefined && !NON_REPLAYED_HEADERS.includes(name)) {
+        headers[name] = typeof value === 'number' ? String(value) : value;
+      }
+    }
+
+    await this.store.complete(
+      storeKey,
+      { statusCode: response.statusCode, headers, body },
+      ttlMs,
+    );
+    return body;
+  }
+
+  /**
+   * Restore status and headers of the stored response and return its body.
+   */
+  private replay(response: Response, stored: IIdempotentResponse): unknown {
+    response.status(stored.statusCode);
+    for (const [name, value] of Object.entries(stored.headers)) {
+      response.setHeader(name, value);
+    }
+    response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    return stored.body;
+  }
+
+  /**
+   * Keys are scoped to the user and the concrete path (`/orders/1/cancel`, not
+   * `/orders/:id/cancel`), so equal keys of different clients or resources never collide.
+   */
+  private buildStoreKey(
+    request: IRequestWithRequestId,
+    idempotencyKey: string,
+  ): string {
+    const user = (request as { user?: { id?: unknown; sub?: unknown } }).user;
+    const userId = user?.id ?? user?.sub;
+    const scope = [
+      request.method,
+      request.path,
+      typeof userId === 'string' || typeof userId === 'number'
+        ? String(userId)
+        : 'anonymous',
+    ].join(' ');
+
+    return `${this.hash(scope)}:${this.hash(idempotencyKey)}`;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex').substring(0, 32);
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+import { RateLimitService } from '../services/rate-limit.service';
+
+/**
+ * Enforces user-keyed @RateLimit() rules (`keyBy: RateLimitKey.USER`).
+ *
+ * Interceptors run after every guard, so `request.user` set by authentication
+ * guards (global, controller or route level) is available here. Registered first
+ * in AppModule so limits apply before idempotent replays and response cache hits.
+ * Other keys are enforced earlier by RateLimitGuard.
+ */
+@Injectable()
+export class RateLimitInterceptor implements NestInterceptor {
+  constructor(private readonly rateLimitService: RateLimitService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const rule = this.rateLimitService.resolveRule(context);
+    if (rule?.keyBy === RateLimitKey.USER) {
+      await this.rateLimitService.enforce(context, rule);
+    }
+
+    return next.handle();
+  }
+}
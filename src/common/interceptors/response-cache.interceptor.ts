@@ -0,0 +1,164 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Response } from 'express';
+import { I18nContext } from 'nestjs-i18n';
+import { from, map, mergeMap, Observable, of } from 'rxjs';
+import { getResponseCacheOptions } from '../config/response-cache.config';
+import {
+  CACHE_EVICT_KEY,
+  CACHEABLE_KEY,
+  CacheableOptions,
+  CacheTag,
+} from '../decorators/response-cache.decorator';
+import { CacheStatus } from '../enums/cache-status.enum';
+import { IRequestWithRequestId } from '../interfaces/request.interface';
+import { IResponseCacheOptions } from '../interfaces/response-cache-options.interface';
+import { RESPONSE_CACHE_STORE } from '../interfaces/response-cache-store.interface';
+import type { IResponseCacheStore } from '../interfaces/response-cache-store.interface';
+import { isRawResponseBody } from '../utils/raw-response.util';
+import {
+  buildResponseCacheKey,
+  resolveCacheTags,
+} from '../utils/response-cache.util';
+
+/**
+ * Response cache for @Cacheable() GET routes and tag invalidation for
+ * @CacheEvict() routes.
+ *
+ * Must run inside TransformInterceptor: it caches the handler result, and the
+ * envelope (requestId, timestamp, ETag) is rebuilt for every hit. The outcome
+ * is stored in `request.cacheStatus` for `meta.cache` and the request log.
+ * Store failures are logged and the request proceeds uncached.
+ */
+@Injectable()
+export class ResponseCacheInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(ResponseCacheInterceptor.name);
+  private readonly options: IResponseCacheOptions;
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(RESPONSE_CACHE_STORE) private readonly store: IResponseCacheStore,
+    configService: ConfigService,
+  ) {
+    this.options = getResponseCacheOptions(configService);
+  }
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    if (!this.options.enabled || context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<IRequestWithRequestId>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const targets = [context.getHandler(), context.getClass()];
+    const cacheable = this.reflector.getAllAndOverride<
+      CacheableOptions | undefined
+    >(CACHEABLE_KEY, targets);
+    const evictTags = this.reflector.getAllAndOverride<CacheTag[] | undefined>(
+      CACHE_EVICT_KEY,
+      targets,
+    );
+
+    const result$ =
+      cacheable && ['GET', 'HEAD'].includes(request.method)
+        ? await this.cached(context, request, response, cacheable, next)
+        : next.handle();
+
+    if (!evictTags?.length) {
+      return result$;
+    }
+
+    return result$.pipe(
+      mergeMap((data: unknown) =>
+        from(this.evict(resolveCacheTags(request, evictTags))).pipe(
+          map(() => data),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Serve from the cache or run the handler and store its result.
+   */
+  private async cached(
+    context: ExecutionContext,
+    request: IRequestWithRequestId,
+    response: Response,
+    cacheable: CacheableOptions,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const user = (request as { user?: { id?: unknown; sub?: unknown } }).user;
+    const userId = user?.id ?? user?.sub;
+    const key = buildResponseCacheKey(request, cacheable, {
+      lang: I18nContext.current(context)?.lang,
+      userId:
+        typeof userId === 'string' || typeof userId === 'number'
+          ? String(userId)
+          : undefined,
+    });
+
+    const hit = await this.store.get(key).catch((error: unknown) => {
+      this.logger.warn(`Response cache read failed: ${String(error)}`);
+      return undefined;
+    });
+    if (hit) {
+      request.cacheStatus = CacheStatus.HIT;
+      return of(hit.data);
+    }
+
+    request.cacheStatus = CacheStatus.MISS;
+    const ttlMs = cacheable.ttl ?? this.options.defaultTtlMs;
+
+    return next.handle().pipe(
+      mergeMap((data: unknown) => {
+        // Only plain 200 results are reusable
+        if (
+          response.statusCode !== 200 ||
+          response.headersSent ||
+          isRawResponseBody(data)
+        ) {
+          return of(data);
+        }
+
+        const entry = {
+          data,
+          tags: resolveCacheTags(request, cacheable.tags),
+          createdAt: Date.now(),
+        };
+        return from(
+          this.store.set(key, entry, ttlMs).catch((error: unknown) => {
+            this.logger.warn(`Response cache write failed: ${String(error)}`);
+          }),
+        ).pipe(map(() => data));
+      }),
+    );
+  }
+
+  /**
+   * Invalidate tags after a successful handler run. The change is already
+   * committed, so failures are logged rather than failing the request.
+   */
+  private async evict(tags: string[]): Promise<void> {
+    try {
+      const removed = await this.store.invalidateTags(tags);
+      this.logger.debug(
+        `🧹 Evicted ${removed} cached response(s) for tags: ${tags.join(', ')}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Response cache eviction failed for tags ${tags.join(', ')}: ${String(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,365 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  INestApplication,
+  MessageEvent,
+  NotFoundException,
+  Sse,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { randomUUID } from 'crypto';
+import { IncomingMessage } from 'http';
+import { I18nService } from 'nestjs-i18n';
+import { concat, Observable, of, throwError } from 'rxjs';
+import request from 'supertest';
+import { Stream } from 'stream';
+import { App } from 'supertest/types';
+import { getResponseCacheOptions } from '../config/response-cache.config';
+import { NdjsonStream } from '../decorators/ndjson-stream.decorator';
+import { RateLimit } from '../decorators/rate-limit.decorator';
+import { SuccessMessage } from '../decorators/success-message.decorator';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+import { AllExceptionsFilter } from '../filters/all-exceptions.filter';
+import { IDEMPOTENCY_STORE } from '../interfaces/idempotency-store.interface';
+import { RATE_LIMIT_STORE } from '../interfaces/rate-limit-store.interface';
+import { RESPONSE_CACHE_STORE } from '../interfaces/response-cache-store.interface';
+import { IStreamEvent } from '../interfaces/stream-event.interface';
+import { MetricsService } from '../services/metrics.service';
+import { RateLimitService } from '../services/rate-limit.service';
+import { InMemoryIdempotencyStore } from '../stores/in-memory.idempotency-store';
+import { InMemoryRateLimitStore } from '../stores/in-memory.rate-limit-store';
+import { LruResponseCacheStore } from '../stores/lru.response-cache-store';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { RateLimitInterceptor } from './rate-limit.interceptor';
+import { ResponseCacheInterceptor } from './response-cache.interceptor';
+import { TransformInterceptor } from './transform.interceptor';
+
+// uuid ships ES modules only, which Jest does not transform here
+jest.mock('uuid', () => ({
+  v4: () => randomUUID(),
+  v7: () => randomUUID(),
+}));
+
+@Controller('events')
+class EventsController {
+  @Sse('progress')
+  @RateLimit({ limit: 5, windowMs: 60_000, keyBy: RateLimitKey.USER })
+  progress(): Observable<MessageEvent> {
+    return of(
+      { data: { i: 1 }, type: 'progress' },
+      { data: { i: 2 }, type: 'progress' },
+    );
+  }
+
+  @Sse('custom')
+  custom(): Observable<MessageEvent> {
+    return of({ data: { done: true }, type: 'done', id: 'final', retry: 5000 });
+  }
+}
+
+@Controller('exports')
+class ExportsController {
+  @Get('progress')
+  @NdjsonStream()
+  progress(): Observable<{ percent: number }> {
+    return of({ percent: 50 }, { percent: 100 });
+  }
+
+  @Get('failing')
+  @NdjsonStream()
+  failing(): Observable<{ percent: number }> {
+    return concat(
+      of({ percent: 50 }),
+      throwError(() => new BadRequestException('Export failed')),
+    );
+  }
+
+  @Get('missing')
+  @NdjsonStream()
+  missing(): Observable<{ percent: number }> {
+    return throwError(() => new NotFoundException('Export not found'));
+  }
+}
+
+@Controller('messages')
+class MessagesController {
+  @Get('handler')
+  @SuccessMessage('common.SUCCESS.CREATED')
+  handler(): object {
+    return { id: 1, message: 'Imported 3 records' };
+  }
+
+  @Get('localized')
+  @SuccessMessage('common.SUCCESS.CREATED')
+  localized(): object {
+    return {
+      id: 1,
+      message: { i18nKey: 'common.USER.UPDATED', args: { name: 'Ada' } },
+    };
+  }
+
+  @Get('missing')
+  @SuccessMessage('common.SUCCESS.CREATED')
+  missing(): object {
+    return { id: 1, message: { i18nKey: 'common.UNKNOWN' } };
+  }
+
+  @Get('decorated')
+  @SuccessMessage('common.SUCCESS.CREATED')
+  decorated(): object {
+    return { id: 1 };
+  }
+
+  @Get('default')
+  plain(): object {
+    return { id: 1 };
+  }
+}
+
+/**
+ * I18nService stub resolving `{arg}` placeholders; like nestjs-i18n,
+ * missing keys translate to the key itself.
+ */
+function createI18nStub(translations: Record<string, string>) {
+  return {
+    translate: (
+      key: string,
+      options?: { args?: Record<string, unknown> },
+    ): string =>
+      translations[key]?.replace(/\{(\w+)\}/g, (_, name: string) =>
+        String(options?.args?.[name]),
+      ) ?? key,
+  };
+}
+
+/**
+ * Boots the controllers behind the global filter and the interceptors
+ * in the order AppModule registers them.
+ */
+async function createApp(
+  controllers: (new (...args: never[]) => unknown)[],
+  translations: Record<string, string> = {},
+): Promise<INestApplication<App>> {
+  const configService = new ConfigService({
+    FALLBACK_LANGUAGE: 'en',
+    METRICS_ENABLED: false,
+  });
+
+  const moduleRef = await Test.createTestingModule({
+    controllers,
+    providers: [
+      MetricsService,
+      RateLimitService,
+      { provide: ConfigService, useValue: configService },
+      { provide: I18nService, useValue: createI18nStub(translations) },
+      { provide: RATE_LIMIT_STORE, useClass: InMemoryRateLimitStore },
+      { provide: IDEMPOTENCY_STORE, useClass: InMemoryIdempotencyStore },
+      {
+        provide: RESPONSE_CACHE_STORE,
+        useValue: new LruResponseCacheStore(
+          getResponseCacheOptions(configService),
+        ),
+      },
+      { provide: APP_FILTER, useClass: AllExceptionsFilter },
+      { provide: APP_INTERCEPTOR, useClass: RateLimitInterceptor },
+      { provide: APP_INTERCEPTOR, useClass: IdempotencyInterceptor },
+      { provide: APP_INTERCEPTOR, useClass: TransformInterceptor },
+      { provide: APP_INTERCEPTOR, useClass: ResponseCacheInterceptor },
+    ],
+  }).compile();
+
+  const app = moduleRef.createNestApplication<INestApplication<App>>({
+    logger: false,
+  });
+  await app.init();
+  return app;
+}
+
+/** Parses an NDJSON body into one object per line */
+function parseLines(body: string): IStreamEvent[] {
+  return body
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line) as IStreamEvent);
+}
+
+/** Collects a streamed body as text, whatever its content type */
+function readText(
+  response: Stream & Pick<IncomingMessage, 'setEncoding'>,
+  callback: (error: Error | null, body: string) => void,
+): void {
+  let body = '';
+  response.setEncoding('utf8');
+  response.on('data', (chunk: string) => (body += chunk));
+  response.on('end', () => callback(null, body));
+}
+
+describe('TransformInterceptor streams (HTTP)', () => {
+  let app: INestApplication<App>;
+
+  beforeEach(async () => {
+    app = await createApp([EventsController, ExportsController]);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should stream @Sse() events through the interceptor stack', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/events/progress')
+      .buffer(true)
+      .parse(readText)
+      .expect(200)
+      .expect('Content-Type', /text\/event-stream/);
+    const body = response.body as string;
+
+    expect(body).not.toContain('event: error');
+    expect(body.match(/^event: progress$/gm)).toHaveLength(2);
+    expect(body).toContain('id: 2');
+    expect(body).toContain('"data":{"i":2}');
+  });
+
+  it('should pass SSE MessageEvent fields through and envelope the data', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/events/custom')
+      .buffer(true)
+      .parse(readText)
+      .expect(200);
+    const body = response.body as string;
+
+    expect(body).toContain('event: done');
+    expect(body).toContain('id: final');
+    expect(body).toContain('retry: 5000');
+    const data = /^data: (.*)$/m.exec(body)?.[1] ?? '';
+    expect(JSON.parse(data)).toMatchObject({
+      data: { done: true },
+      meta: { sequence: 1 },
+    });
+  });
+
+  it('should write one NDJSON line per emitted value', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/exports/progress')
+      .buffer(true)
+      .parse(readText)
+      .expect(200)
+      .expect('Content-Type', /application\/x-ndjson/)
+      .expect('Cache-Control', 'no-cache')
+      .expect('X-Accel-Buffering', 'no');
+
+    const lines = parseLines(response.body as string);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      data: { percent: 50 },
+      meta: { sequence: 1 },
+    });
+    expect(lines[1]).toMatchObject({
+      data: { percent: 100 },
+      meta: { sequence: 2 },
+    });
+    expect(lines[0].meta.requestId).toBe(lines[1].meta.requestId);
+  });
+
+  it('should end the stream with an error line after a mid-stream error', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/exports/failing')
+      .buffer(true)
+      .parse(readText)
+      .expect(200);
+
+    const lines = parseLines(response.body as string);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ data: { percent: 50 } });
+    expect(lines[1]).toMatchObject({
+      success: false,
+      statusCode: 400,
+      meta: { sequence: 2, message: 'Export failed' },
+    });
+  });
+
+  it('should leave errors before the first line to the exception filter', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/exports/missing')
+      .expect(404)
+      .expect('Content-Type', /application\/json/);
+
+    expect(response.body).toMatchObject({
+      success: false,
+      statusCode: 404,
+    });
+  });
+});
+
+describe('TransformInterceptor messages (HTTP)', () => {
+  let app: INestApplication<App>;
+
+  const getMessage = async (path: string) => {
+    const response = await request(app.getHttpServer()).get(path).expect(200);
+    return response.body as { meta: { message: string }; data: object };
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('with translations', () => {
+    beforeEach(async () => {
+      app = await createApp([MessagesController], {
+        'common.SUCCESS.DEFAULT': 'Request successful.',
+        'common.SUCCESS.CREATED': 'Record created successfully.',
+        'common.USER.UPDATED': '{name} was updated.',
+      });
+    });
+
+    it('should prefer a message string returned by the handler', async () => {
+      const body = await getMessage('/messages/handler');
+
+      expect(body.meta.message).toBe('Imported 3 records');
+      expect(body.data).toEqual({ id: 1 });
+    });
+
+    it('should translate a returned { i18nKey, args } before @SuccessMessage()', async () => {
+      const body = await getMessage('/messages/localized');
+
+      expect(body.meta.message).toBe('Ada was updated.');
+      expect(body.data).toEqual({ id: 1 });
+    });
+
+    it('should fall back to @SuccessMessage() when the returned key is missing', async () => {
+      const body = await getMessage('/messages/missing');
+
+      expect(body.meta.message).toBe('Record created successfully.');
+    });
+
+    it('should use @SuccessMessage() without a returned message', async () => {
+      const body = await getMessage('/messages/decorated');
+
+      expect(body.meta.message).toBe('Record created successfully.');
+    });
+
+    it('should use the default message on undecorated routes', async () => {
+      const body = await getMessage('/messages/default');
+
+      expect(body.meta.message).toBe('Request successful.');
+    });
+  });
+
+  describe('without translations', () => {
+    beforeEach(async () => {
+      app = await createApp([MessagesController]);
+    });
+
+    it('should never send untranslated keys', async () => {
+      expect((await getMessage('/messages/decorated')).meta.message).toBe(
+        'Request successful',
+      );
+      expect((await getMessage('/messages/missing')).meta.message).toBe(
+        'Request successful',
+      );
+    });
+  });
+});
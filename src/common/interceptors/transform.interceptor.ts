@@ -4,18 +4,110 @@ import {
   Injectable,
   Logger,
   NestInterceptor,
+  StreamableFile,
 } from '@nestjs/common';
+import { SSE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { Response } from 'express';
-import { I18nContext } from 'nestjs-i18n';
-import { map, Observable } from 'rxjs';
+import { I18nContext, I18nService } from 'nestjs-i18n';
+import { catchError, finalize, from, map, Observable, throwError } from 'rxjs';
+import { PassThrough } from 'stream';
 import { IGenericResponse } from 'src/common/interfaces/generic-response.interface';
 import { IRequestWithRequestId } from '../interfaces/request.interface';
-import { getClientIpInfo } from '../utils/ip.util';
+import { getClientIpInfo, IpInfo } from '../utils/ip.util';
+import { anonymizeIpInfo } from '../utils/ip-privacy.util';
+import { ENVELOPE_PROFILE_KEY } from '../decorators/envelope-profile.decorator';
+import {
+  applyEnvelopeProfile,
+  getEnvelopeProfileHeader,
+  resolveEnvelopeProfile,
+} from '../utils/envelope-profile.util';
 import {
   getRequestMetaData,
   SLOW_REQUEST_THRESHOLD_MS,
 } from '../config/winston.config';
 import { maskSensitiveData } from '../utils/mask.util';
+import {
+  buildRedactionPolicy,
+  redactResponseData,
+} from '../utils/redaction.util';
+import {
+  EXPOSE_ONLY_GROUPS_KEY,
+  REDACT_FIELDS_KEY,
+  SKIP_REDACTION_KEY,
+} from '../decorators/redaction.decorator';
+import { IRedactionPolicy } from '../interfaces/redaction-policy.interface';
+import { PAGINATED_KEY } from '../decorators/paginated.decorator';
+import { IPaginationMeta } from '../interfaces/pagination.interface';
+import {
+  buildPaginationLinks,
+  buildPaginationMeta,
+  isPaginatedResult,
+} from '../utils/pagination.util';
+import { RAW_RESPONSE_KEY } from '../decorators/raw-response.decorator';
+import { SKIP_SLOW_REQUEST_ALERT_KEY } from '../decorators/skip-slow-request-alert.decorator';
+import { MetricsService } from '../services/metrics.service';
+import { getRouteTemplate } from '../utils/route.util';
+import { RequestContextService } from '../services/request-context.service';
+import {
+  isRawResponseBody,
+  isResponseManagedByRoute,
+} from '../utils/raw-response.util';
+import { CACHE_CONTROL_KEY } from '../decorators/cache-control.decorator';
+import { ICacheControlOptions } from '../interfaces/cache-control-options.interface';
+import {
+  computeEtag,
+  formatCacheControl,
+  isNotModified,
+  toRepresentationData,
+} from '../utils/http-cache.util';
+import { NDJSON_STREAM_KEY } from '../decorators/ndjson-stream.decorator';
+import { StreamFormat } from '../enums/stream-format.enum';
+import { IStreamEventMeta } from '../interfaces/stream-event.interface';
+import type { IErrorResponse } from '../interfaces/IErrorResponse.interface';
+import {
+  formatNdjsonLine,
+  NDJSON_CONTENT_TYPE,
+  toSseMessage,
+  toStreamEvent,
+} from '../utils/stream.util';
+import { resolveException } from '../utils/exception-resolution.util';
+import { SUCCESS_MESSAGE_KEY } from '../decorators/success-message.decorator';
+import { ILocalizedMessage } from '../interfaces/localized-message.interface';
+import { getLanguageOptions } from '../config/language.config';
+import { LanguageSource } from '../enums/language-source.enum';
+import { ILanguageOptions } from '../interfaces/language-options.interface';
+import {
+  getLanguageVaryHeaders,
+  resolveRequestLanguage,
+  setLanguageHeaders,
+} from '../utils/language.util';
+
+/** Used when neither the handler nor @SuccessMessage() provide a message */
+const DEFAULT_SUCCESS_MESSAGE: ILocalizedMessage = {
+  i18nKey: 'common.SUCCESS.DEFAULT',
+};
+
+function isLocalizedMessage(message: unknown): message is ILocalizedMessage {
+  return (
+    message !== null &&
+    typeof message === 'object' &&
+    typeof (message as { i18nKey?: unknown }).i18nKey === 'string'
+  );
+}
+
+/** Request details captured before the handler runs, used once the response is done */
+interface IRequestCompletion {
+  request: IRequestWithRequestId;
+  response: Response;
+  startTime: number;
+  ipInfo: IpInfo;
+  requestMeta: Record<string, unknown>;
+  routeTemplate: string;
+  redactionPolicy: IRedactionPolicy;
+  skipSlowRequestAlert?: boolean;
+}
 
 /**
  * Transform interceptor that wraps all successful responses in a standard format.
@@ -25,23 +117,91 @@ import { maskSensitiveData } from '../utils/mask.util';
  * - Request/response timing and slow request alerting
  * - IP enrichment (IPv4 and IPv6)
  * - Correlation ID propagation
- * - i18n language tracking
+ * - i18n language tracking, Content-Language and user language preferences
+ * - Error format resolution for AllExceptionsFilter
+ * - Response data redaction (@Redact, @ExposeOnly and global sensitive fields)
+ * - Pagination metadata and RFC 8288 Link headers for @Paginated() routes
+ * - Raw responses (@RawResponse, streams, buffers, @Res(), redirects) bypass the envelope
+ * - Request duration and slow request metrics
+ * - Envelope profiles (@UseEnvelopeProfile, X-Envelope-Profile) selecting the meta fields
+ * - Cache-Control headers (@CacheControl) and data ETags answering If-None-Match with 304
+ * - Response cache outcome (@Cacheable) in meta.cache and logs
+ * - Localized success messages (@SuccessMessage, `{ i18nKey, args }` messages)
+ * - SSE (@Sse) and NDJSON (@NdjsonStream) streams with per-event meta, in-stream
+ *   error events and request logging once the stream completes
  */
 @Injectable()
-export class TransformInterceptor<T>
-  implements NestInterceptor<T, IGenericResponse<T>> {
+export class TransformInterceptor<T> implements NestInterceptor<
+  T,
+  IGenericResponse<T> | T
+> {
   private readonly logger = new Logger('HTTP');
+  private readonly etagEnabled: boolean;
+  private readonly languageOptions: ILanguageOptions;
+  private readonly languageVaryHeaders: string[];
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+    private readonly i18n: I18nService,
+  ) {
+    this.etagEnabled = this.configService.get<boolean>('ETAG_ENABLED', true);
+    this.languageOptions = getLanguageOptions(configService);
+    this.languageVaryHeaders = getLanguageVaryHeaders(this.languageOptions);
+  }
 
   intercept(
     context: ExecutionContext,
     next: CallHandler,
-  ): Observable<IGenericResponse<T>> {
+  ): Observable<IGenericResponse<T> | T> {
     const ctx = context.switchToHttp();
     const request = ctx.getRequest<IRequestWithRequestId>();
     const response = ctx.getResponse<Response>();
 
-    const i18n = I18nContext.current(context);
-    const lang: string = i18n?.lang ?? 'tr';
+    // Resolve redaction policy (also used by the filter for logged bodies)
+    const redactionPolicy = this.resolveRedactionPolicy(context);
+    request.redactionPolicy = redactionPolicy;
+
+    // Matched route template (metric label)
+    const routeTemplate = getRouteTemplate(request);
+
+    // Resolve the envelope profile (AllExceptionsFilter resolves errors the same way)
+    const envelopeProfile = resolveEnvelopeProfile(
+      request,
+      this.reflector.getAllAndOverride<string | undefined>(
+        ENVELOPE_PROFILE_KEY,
+        [context.getHandler(), context.getClass()],
+      ),
+    );
+
+    const isPaginated = this.reflector.getAllAndOverride<boolean | undefined>(
+      PAGINATED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    const isRawRoute = this.isRawRoute(context);
+    const cacheControl = this.reflector.getAllAndOverride<
+      ICacheControlOptions | undefined
+    >(CACHE_CONTROL_KEY, [context.getHandler(), context.getClass()]);
+    const successMessage = this.reflector.getAllAndOverride<
+      ILocalizedMessage | undefined
+    >(SUCCESS_MESSAGE_KEY, [context.getHandler(), context.getClass()]);
+    const skipSlowRequestAlert = this.reflector.getAllAndOverride<
+      boolean | undefined
+    >(SKIP_SLOW_REQUEST_ALERT_KEY, [context.getHandler(), context.getClass()]);
+
+    const lang = this.resolveLanguage(context, request);
+    // @Sse() routes have already written their headers when interceptors run
+    if (!response.headersSent) {
+      setLanguageHeaders(response, lang, this.languageVaryHeaders);
+    }
+
+    // Language and user are only known once guards and i18n resolvers have run
+    RequestContextService.update({
+      lang,
+      user: (request as { user?: unknown }).user,
+    });
 
     // Record start time if not already set by middleware
     const startTime = request.startTime || Date.now();
@@ -50,81 +210,483 @@ export class TransformInterceptor<T>
     const ipInfo = getClientIpInfo(request);
     const requestMeta = getRequestMetaData(request);
 
+    const completion: IRequestCompletion = {
+      request,
+      response,
+      startTime,
+      ipInfo,
+      requestMeta,
+      routeTemplate,
+      redactionPolicy,
+      skipSlowRequestAlert,
+    };
+
+    const streamFormat = this.resolveStreamFormat(context);
+    if (streamFormat) {
+      return this.handleStream(
+        streamFormat,
+        next.handle(),
+        completion,
+        lang,
+      ) as Observable<T>;
+    }
+
     return next.handle().pipe(
-      map((data: unknown): IGenericResponse<T> => {
+      map((data: unknown): IGenericResponse<T> | T => {
+        if (cacheControl && !response.headersSent) {
+          response.setHeader('Cache-Control', formatCacheControl(cacheControl));
+        }
+
+        // Streams, buffers and handler-managed responses are sent untouched
+        if (isRawRoute || response.headersSent || isRawResponseBody(data)) {
+          this.recordCompletion(completion);
+          return data as T;
+        }
+
         const isObject = data !== null && typeof data === 'object';
         const dataObj = isObject ? (data as Record<string, unknown>) : {};
 
         const rawMessage: unknown = dataObj['message'];
-        const messageString = this.formatMessage(rawMessage);
+        const messageString = this.resolveMessage(
+          rawMessage,
+          successMessage,
+          lang,
+        );
+
+        // Unwrap paginated results into data + meta.pagination
+        let pagination: IPaginationMeta | undefined;
+        if (isPaginated && isPaginatedResult(data)) {
+          pagination = buildPaginationMeta(data);
+          const link = buildPaginationLinks(request.originalUrl, pagination);
+          if (link) {
+            response.setHeader('Link', link);
+          }
+        }
 
-        const duration = Date.now() - startTime;
-        const durationStr = `${duration}ms`;
+        // Data without message field, unwrapped and redacted before serialization
+        const finalData = toRepresentationData(data, {
+          paginated: isPaginated,
+          redactionPolicy,
+        });
 
-        const requestId = request.requestId || 'N/A';
-        const correlationId = request.correlationId || requestId;
+        const { ipv4, ipv6 } = anonymizeIpInfo(ipInfo, 'response');
 
-        // Extract data without message field
-        let finalData = data;
-        if (isObject && 'message' in dataObj) {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { message: _, ...rest } = dataObj;
-          finalData = rest;
+        // The profile may differ per client, so caches must key on its header
+        const profileHeader = getEnvelopeProfileHeader();
+        if (profileHeader) {
+          response.vary(profileHeader);
         }
 
-        // Log successful request
-        const shouldLogBody = ['POST', 'PUT', 'PATCH'].includes(request.method);
-        const maskedBody =
-          shouldLogBody && request.body && typeof request.body === 'object'
-            ? maskSensitiveData(request.body as Record<string, unknown>)
-            : undefined;
-
-        this.logSuccess(
-          request,
-          response,
-          duration,
-          requestId,
-          correlationId,
-          ipInfo,
-          requestMeta,
-          maskedBody,
-        );
+        // ETag over data only (as computeResourceEtag): meta changes on every request.
+        // An ETag set by the handler (e.g. from a version column) wins.
+        // Decided before recording so logs and metrics report the 304.
+        if (
+          this.etagEnabled &&
+          ['GET', 'HEAD'].includes(request.method) &&
+          response.statusCode === 200
+        ) {
+          const etag =
+            (response.getHeader('ETag') as string | undefined) ??
+            computeEtag(finalData);
+          response.setHeader('ETag', etag);
 
-        // Alert for slow requests
-        if (duration > SLOW_REQUEST_THRESHOLD_MS) {
-          this.logger.warn(
-            `⏰ SLOW REQUEST: ${request.method} ${request.url} took ${duration}ms (threshold: ${SLOW_REQUEST_THRESHOLD_MS}ms)`,
-            {
-              requestId,
-              correlationId,
-              duration: durationStr,
-              alertType: 'SLOW_REQUEST',
-              ...requestMeta,
-            },
-          );
+          if (isNotModified(request, etag)) {
+            response.status(304);
+            this.recordCompletion(completion);
+            return undefined as T;
+          }
         }
 
+        const { requestId, correlationId, duration } =
+          this.recordCompletion(completion);
+
         return {
           success: true,
           statusCode: response.statusCode,
-          meta: {
-            requestId,
-            correlationId,
-            path: request.url,
-            method: request.method,
-            lang,
-            ipv4: ipInfo.ipv4,
-            ipv6: ipInfo.ipv6,
-            duration: durationStr,
-            message: messageString,
-            timestamp: new Date().toISOString(),
-          },
+          meta: applyEnvelopeProfile(
+            {
+              requestId,
+              correlationId,
+              path: request.url,
+              method: request.method,
+              lang,
+              ipv4,
+              ipv6,
+              duration: `${duration}ms`,
+              message: messageString,
+              timestamp: new Date().toISOString(),
+              cache: request.cacheStatus,
+              ...(pagination ? { pagination } : {}),
+            },
+            envelopeProfile,
+          ),
           data: finalData as T,
         };
       }),
     );
   }
 
+  /**
+   * Log the finished request, record its metrics and alert when it was slow.
+   * Runs once per request: on the mapped result, or when a stream completes.
+   */
+  private recordCompletion(completion: IRequestCompletion): {
+    requestId: string;
+    correlationId: string;
+    duration: number;
+  } {
+    const {
+      request,
+      response,
+      startTime,
+      ipInfo,
+      requestMeta,
+      routeTemplate,
+      redactionPolicy,
+      skipSlowRequestAlert,
+    } = completion;
+    const duration = Date.now() - startTime;
+
+    const requestId = request.requestId || 'N/A';
+    const correlationId = request.correlationId || requestId;
+
+    // Log successful request
+    const shouldLogBody = ['POST', 'PUT', 'PATCH'].includes(request.method);
+    const maskedBody =
+      shouldLogBody && request.body && typeof request.body === 'object'
+        ? maskSensitiveData(
+            request.body as Record<string, unknown>,
+            redactionPolicy.fields,
+          )
+        : undefined;
+
+    this.logSuccess(
+      request,
+      response,
+      duration,
+      requestId,
+      correlationId,
+      ipInfo,
+      requestMeta,
+      maskedBody,
+    );
+
+    const isSlow =
+      !skipSlowRequestAlert && duration > SLOW_REQUEST_THRESHOLD_MS;
+    this.metricsService.observeRequest(
+      {
+        method: request.method,
+        route: routeTemplate,
+        statusCode: response.statusCode,
+        durationMs: duration,
+      },
+      isSlow,
+    );
+
+    // Alert for slow requests
+    if (isSlow) {
+      this.logger.warn(
+        `⏰ SLOW REQUEST: ${request.method} ${request.url} took ${duration}ms (threshold: ${SLOW_REQUEST_THRESHOLD_MS}ms)`,
+        {
+          requestId,
+          correlationId,
+          duration: `${duration}ms`,
+          alertType: 'SLOW_REQUEST',
+          ...requestMeta,
+        },
+      );
+    }
+
+    return { requestId, correlationId, duration };
+  }
+
+  /**
+   * SSE for @Sse() routes, NDJSON for @NdjsonStream() routes.
+   * @RawResponse() keeps the handler's events untouched.
+   */
+  private resolveStreamFormat(
+    context: ExecutionContext,
+  ): StreamFormat | undefined {
+    const targets = [context.getHandler(), context.getClass()];
+    if (
+      this.reflector.getAllAndOverride<boolean | undefined>(
+        RAW_RESPONSE_KEY,
+        targets,
+      )
+    ) {
+      return undefined;
+    }
+
+    if (this.reflector.get<boolean | undefined>(SSE_METADATA, targets[0])) {
+      return StreamFormat.SSE;
+    }
+
+    return this.reflector.getAllAndOverride<boolean | undefined>(
+      NDJSON_STREAM_KEY,
+      targets,
+    )
+      ? StreamFormat.NDJSON
+      : undefined;
+  }
+
+  /**
+   * Wrap every emitted value into `{ data, meta }` and log the request once
+   * the stream ends. Errors raised after streaming started become a final
+   * IErrorResponse event, since the status line is already sent.
+   */
+  private handleStream(
+    format: StreamFormat,
+    source: Observable<unknown>,
+    completion: IRequestCompletion,
+    lang: string,
+  ): Observable<unknown> {
+    const { request, response, redactionPolicy } = completion;
+    const requestId = request.requestId || 'N/A';
+    const correlationId = request.correlationId || requestId;
+
+    let sequence = 0;
+    let failed = false;
+    // SSE headers are written before Nest subscribes; NDJSON waits for the first event
+    let started = format === StreamFormat.SSE;
+
+    const nextMeta = (): IStreamEventMeta => ({
+      requestId,
+      correlationId,
+      sequence: ++sequence,
+      timestamp: new Date().toISOString(),
+    });
+
+    const events = source.pipe(
+      map((value) => {
+        const event = toStreamEvent(value, nextMeta());
+        event.data = redactResponseData(event.data, redactionPolicy);
+        return format === StreamFormat.SSE ? toSseMessage(value, event) : event;
+      }),
+      catchError((error: unknown) => {
+        failed = true;
+        // Nothing sent yet: let AllExceptionsFilter send a regular error response
+        if (!started) {
+          return throwError(() => error);
+        }
+
+        const meta = nextMeta();
+        return from(this.buildStreamError(error, completion, lang, meta)).pipe(
+          map((errorResponse) =>
+            format === StreamFormat.SSE
+              ? {
+                  type: 'error',
+                  id: String(meta.sequence),
+                  data: errorResponse,
+                }
+              : errorResponse,
+          ),
+        );
+      }),
+      // Also runs when the client disconnects
+      finalize(() => {
+        if (!failed) {
+          this.recordCompletion(completion);
+        }
+      }),
+    );
+
+    if (format === StreamFormat.SSE) {
+      return events;
+    }
+
+    return new Observable<StreamableFile>((subscriber) => {
+      const body = new PassThrough();
+      const start = () => {
+        if (started) {
+          return;
+        }
+        started = true;
+        response.setHeader('Cache-Control', 'no-cache');
+        // Keep reverse proxies (nginx) from buffering the stream
+        response.setHeader('X-Accel-Buffering', 'no');
+        subscriber.next(
+          new StreamableFile(body, { type: NDJSON_CONTENT_TYPE }),
+        );
+        subscriber.complete();
+      };
+
+      // Not tied to the returned Observable, which completes once the body is handed to Nest
+      const subscription = events.subscribe({
+        next: (event) => {
+          start();
+          body.write(formatNdjsonLine(event));
+        },
+        error: (error: unknown) => subscriber.error(error),
+        complete: () => {
+          start();
+          body.end();
+        },
+      });
+      response.once('close', () => subscription.unsubscribe());
+    });
+  }
+
+  /**
+   * Build, log and record the IErrorResponse event of a failed stream.
+   */
+  private async buildStreamError(
+    error: unknown,
+    completion: IRequestCompletion,
+    lang: string,
+    meta: IStreamEventMeta,
+  ): Promise<IErrorResponse> {
+    const { request, startTime, requestMeta, routeTemplate } = completion;
+    const duration = Date.now() - startTime;
+    const {
+      status,
+      message,
+      messageStr,
+      errorName,
+      errorCategory,
+      code,
+      details,
+      validationErrors,
+    } = await resolveException(error, this.i18n, lang);
+    request.errorCategory = errorCategory;
+
+    const logContext = {
+      requestId: meta.requestId,
+      correlationId: meta.correlationId,
+      errorCategory,
+      errorCode: code,
+      errorName,
+      sequence: meta.sequence,
+      duration: `${duration}ms`,
+      lang,
+      ...requestMeta,
+      stack: error instanceof Error ? error.stack : undefined,
+    };
+    const logMessage = `
+  ╔══════════════════════════════════════════════════════════════╗
+  ║ 💥 STREAM ERROR ${request.method} ${request.url}
+  ╠══════════════════════════════════════════════════════════════╣
+  ║ Request ID    : ${meta.requestId}
+  ║ Correlation ID: ${meta.correlationId}
+  ║ Category      : ${errorCategory}
+  ║ Code          : ${code}
+  ║ Status        : ${status} (${errorName})
+  ║ Event         : #${meta.sequence}
+  ║ Duration      : ${duration}ms
+  ║ Message       : ${messageStr}
+  ╚══════════════════════════════════════════════════════════════╝`;
+
+    if (status >= 500) {
+      this.logger.error(logMessage, logContext);
+    } else {
+      this.logger.warn(logMessage, logContext);
+    }
+
+    const isSlow =
+      !completion.skipSlowRequestAlert && duration > SLOW_REQUEST_THRESHOLD_MS;
+    this.metricsService.observeError(
+      {
+        method: request.method,
+        route: routeTemplate,
+        statusCode: status,
+        durationMs: duration,
+      },
+      errorCategory,
+      isSlow,
+    );
+
+    return {
+      success: false,
+      statusCode: status,
+      meta: {
+        ...meta,
+        lang,
+        message,
+        errorCategory,
+        code,
+        ...(details ? { details } : {}),
+        ...(validationErrors ? { errors: validationErrors } : {}),
+      },
+    };
+  }
+
+  /**
+   * Language chosen by the i18n middleware. Guards authenticate after that
+   * middleware, so it is re-evaluated once the user is known: a stored preference
+   * wins when no source of higher priority already decided.
+   */
+  private resolveLanguage(
+    context: ExecutionContext,
+    request: IRequestWithRequestId,
+  ): string {
+    const i18n = I18nContext.current(context);
+    if (!i18n) {
+      return (
+        resolveRequestLanguage(request, this.languageOptions) ??
+        this.languageOptions.fallbackLanguage
+      );
+    }
+
+    if (
+      (request as { user?: unknown }).user &&
+      this.languageOptions.sources.includes(LanguageSource.USER)
+    ) {
+      const lang = resolveRequestLanguage(request, this.languageOptions);
+      if (lang && lang !== i18n.lang) {
+        // Shared with `i18n.t()` calls of the handler and with AllExceptionsFilter
+        (i18n as { lang: string }).lang = lang;
+        (request as { i18nLang?: string }).i18nLang = lang;
+      }
+    }
+
+    return i18n.lang;
+  }
+
+  /**
+   * Whether the route opted out of the envelope via @RawResponse()/@SkipEnvelope()
+   * or hands the response over to the handler (@Res(), @Redirect(), @Render(), @Sse()).
+   */
+  private isRawRoute(context: ExecutionContext): boolean {
+    const rawResponse = this.reflector.getAllAndOverride<boolean | undefined>(
+      RAW_RESPONSE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (rawResponse !== undefined) {
+      return rawResponse;
+    }
+
+    return isResponseManagedByRoute(context);
+  }
+
+  /**
+   * Resolve the redaction policy for the current route.
+   * Redaction is enabled globally via RESPONSE_REDACTION_ENABLED or per route
+   * via @Redact(), and disabled per route via @SkipRedaction().
+   */
+  private resolveRedactionPolicy(context: ExecutionContext): IRedactionPolicy {
+    const targets = [context.getHandler(), context.getClass()];
+    const routeFields = targets
+      .map((target) =>
+        this.reflector.get<string[] | undefined>(REDACT_FIELDS_KEY, target),
+      )
+      .filter((fields): fields is string[] => Array.isArray(fields));
+
+    return buildRedactionPolicy({
+      globalEnabled: this.configService.get<boolean>(
+        'RESPONSE_REDACTION_ENABLED',
+        true,
+      ),
+      routeFields,
+      skip: this.reflector.getAllAndOverride<boolean | undefined>(
+        SKIP_REDACTION_KEY,
+        targets,
+      ),
+      groups: this.reflector.getAllAndOverride<string[] | undefined>(
+        EXPOSE_ONLY_GROUPS_KEY,
+        targets,
+      ),
+    });
+  }
+
   /**
    * Log successful requests with structured format.
    */
@@ -134,14 +696,18 @@ export class TransformInterceptor<T>
     duration: number,
     requestId: string,
     correlationId: string,
-    ipInfo: { ipv4: string; ipv6: string; display: string },
+    ipInfo: IpInfo,
     requestMeta: Record<string, unknown>,
     maskedBody?: Record<string, unknown>,
   ): void {
+    const loggedIp = anonymizeIpInfo(ipInfo, 'log');
     const hasBody = maskedBody && Object.keys(maskedBody).length > 0;
     const bodyLog = hasBody
       ? `\n║ Body          : ${JSON.stringify(maskedBody)}`
       : '';
+    const cacheLog = request.cacheStatus
+      ? `\n  ║ Cache         : ${request.cacheStatus}`
+      : '';
 
     const logMessage = `
   ╔══════════════════════════════════════════════════════════════╗
@@ -150,9 +716,9 @@ export class TransformInterceptor<T>
   ║ Request ID    : ${requestId}
   ║ Correlation ID: ${correlationId}
   ║ Status        : ${response.statusCode}
-  ║ Duration      : ${duration}ms
-  ║ IPv4          : ${ipInfo.ipv4 || 'N/A'}
-  ║ IPv6          : ${ipInfo.ipv6 || 'N/A'}
+  ║ Duration      : ${duration}ms${cacheLog}
+  ║ IPv4          : ${loggedIp.ipv4 || 'N/A'}
+  ║ IPv6          : ${loggedIp.ipv6 || 'N/A'}
   ║ User Agent    : ${requestMeta.userAgent || 'Unknown'}${bodyLog}
   ╚══════════════════════════════════════════════════════════════╝`;
 
@@ -161,13 +727,73 @@ export class TransformInterceptor<T>
       correlationId,
       status: response.statusCode,
       duration: `${duration}ms`,
-      ipv4: ipInfo.ipv4,
-      ipv6: ipInfo.ipv6,
+      ipv4: loggedIp.ipv4,
+      ipv6: loggedIp.ipv6,
+      ipScope: ipInfo.scope,
+      ...(loggedIp.proxyChain.length > 1
+        ? { proxyChain: loggedIp.proxyChain }
+        : {}),
+      ...(request.cacheStatus ? { cache: request.cacheStatus } : {}),
       ...(hasBody ? { requestBody: maskedBody } : {}),
       ...requestMeta,
     });
   }
 
+  /**
+   * Resolve `meta.message`: the handler's `message` (text or `{ i18nKey, args }`),
+   * then @SuccessMessage(), then the localized default.
+   * Missing translations fall through to the next source.
+   */
+  private resolveMessage(
+    rawMessage: unknown,
+    successMessage: ILocalizedMessage | undefined,
+    lang: string,
+  ): string {
+    if (isLocalizedMessage(rawMessage)) {
+      const translated = this.translateMessage(rawMessage, lang);
+      if (translated) {
+        return translated;
+      }
+    } else if (rawMessage !== null && rawMessage !== undefined) {
+      return this.formatMessage(rawMessage);
+    }
+
+    return (
+      (successMessage
+        ? this.translateMessage(successMessage, lang)
+        : undefined) ??
+      this.translateMessage(DEFAULT_SUCCESS_MESSAGE, lang) ??
+      'Request successful'
+    );
+  }
+
+  /**
+   * Translate a success message in the request language (with the i18n fallback language).
+   * Returns undefined when the key exists in no language.
+   */
+  private translateMessage(
+    { i18nKey, args }: ILocalizedMessage,
+    lang: string,
+  ): string | undefined {
+    let translated: unknown;
+    try {
+      translated = this.i18n.translate(i18nKey, { lang, args });
+    } catch {
+      // throwOnMissingKey
+      translated = undefined;
+    }
+
+    // nestjs-i18n returns the key itself for missing translations
+    if (typeof translated === 'string' && translated !== i18nKey) {
+      return translated;
+    }
+
+    this.logger.warn(
+      `Missing success message translation "${i18nKey}" (${lang})`,
+    );
+    return undefined;
+  }
+
   /**
    * Format message to string regardless of input type.
    */
@@ -1,4 +1,5 @@
 import { ErrorCategory } from '../enums/error-category.enum';
+import { IValidationErrorDetail } from './validation-error-detail.interface';
 
 /**
  * Standard error response interface for all API errors.
@@ -11,39 +12,51 @@ export interface IErrorResponse {
   /** HTTP status code */
   statusCode: number;
 
-  /** Metadata about the error and request context */
+  /**
+   * Metadata about the error and request context.
+   * The active envelope profile decides which optional fields are present.
+   */
   meta: {
     /** Unique identifier for this specific request */
-    requestId: string;
+    requestId?: string;
 
     /** Correlation ID for distributed tracing */
-    correlationId: string;
+    correlationId?: string;
+
+    /** Position of the error event in a streamed response */
+    sequence?: number;
 
     /** Request path/URL */
-    path: string;
+    path?: string;
 
     /** HTTP method (GET, POST, etc.) */
-    method: string;
+    method?: string;
 
     /** Response language */
-    lang: string;
+    lang?: string;
 
-    /** Client IPv4 address */
-    ipv4: string;
+    /** Client IPv4 address (absent when IP_PRIVACY_RESPONSE_MODE is omit) */
+    ipv4?: string;
 
-    /** Client IPv6 address */
-    ipv6: string;
+    /** Client IPv6 address (absent when IP_PRIVACY_RESPONSE_MODE is omit) */
+    ipv6?: string;
 
     /** Error message(s) */
     message: string | string[];
 
     /** ISO timestamp of when error occurred */
-    timestamp: string;
+    timestamp?: string;
 
     /** Categorized error type for analytics */
     errorCategory: ErrorCategory;
 
-    /** Structured validation errors for form fields */
-    errors?: Record<string, string[]>;
+    /** Stable machine-readable error code (never translated) */
+    code: string;
+
+    /** Additional structured data supplied by domain exceptions */
+    details?: Record<string, unknown>;
+
+    /** Structured validation errors keyed by property path (e.g. `items[2].qty`) */
+    errors?: Record<string, IValidationErrorDetail[]>;
   };
 }
@@ -0,0 +1,70 @@
+import { IRedactionPolicy } from './redaction-policy.interface';
+
+/**
+ * Cache-Control directives set by @CacheControl().
+ * Durations are in seconds.
+ */
+export interface ICacheControlOptions {
+  /** `public`: shared caches may store the response */
+  public?: boolean;
+
+  /** `private`: only the client may store the response */
+  private?: boolean;
+
+  /** `no-cache`: caches must revalidate (e.g. with the ETag) before reuse */
+  noCache?: boolean;
+
+  /** `no-store`: the response must not be stored at all */
+  noStore?: boolean;
+
+  /** `max-age` */
+  maxAge?: number;
+
+  /** `s-maxage`: max-age for shared caches */
+  sMaxAge?: number;
+
+  /** `must-revalidate` */
+  mustRevalidate?: boolean;
+
+  /** `proxy-revalidate` */
+  proxyRevalidate?: boolean;
+
+  /** `immutable` */
+  immutable?: boolean;
+
+  /** `stale-while-revalidate` */
+  staleWhileRevalidate?: number;
+
+  /** `stale-if-error` */
+  staleIfError?: number;
+}
+
+/**
+ * Current state of a resource, used to evaluate If-Match / If-None-Match /
+ * If-Unmodified-Since on writes.
+ */
+export interface IResourceValidators {
+  /** ETag of the current representation (takes precedence over `data`) */
+  etag?: string;
+
+  /**
+   * Current data as returned by the GET handler. Hashed like the interceptor
+   * hashes responses (see computeResourceEtag), with the redaction policy of
+   * the current route.
+   */
+  data?: unknown;
+
+  /** Last modification time */
+  lastModified?: Date;
+}
+
+/**
+ * How TransformInterceptor turns a handler result into the `data` field.
+ */
+export interface IRepresentationOptions {
+  /** Unwrap `items` of @Paginated() results */
+  paginated?: boolean;
+
+  /** Redaction policy of the route; undefined leaves the data unredacted */
+  redactionPolicy?: IRedactionPolicy;
+}
@@ -0,0 +1,18 @@
+import { CorrelationIdRejectPolicy } from '../enums/correlation-id-reject-policy.enum';
+
+/**
+ * Resolved settings of CorrelationIdMiddleware.
+ */
+export interface ICorrelationIdOptions {
+  /** Returns true when an inbound ID is acceptable (format, length, charset) */
+  isValid: (id: string) => boolean;
+
+  /** What to do with inbound IDs that fail validation */
+  rejectPolicy: CorrelationIdRejectPolicy;
+
+  /** Returns true when the direct caller may supply its own correlation ID */
+  isTrustedSource: (ip: string | undefined) => boolean;
+
+  /** Generates request IDs */
+  generateRequestId: () => string;
+}
@@ -0,0 +1,20 @@
+/**
+ * Options accepted by every DomainException subclass.
+ * Each subclass provides sensible defaults for `code` and `i18nKey`.
+ */
+export interface IDomainExceptionOptions {
+  /** Stable machine-readable error code (overrides the subclass default) */
+  code?: string;
+
+  /** i18n key of the client-facing message (overrides the subclass default) */
+  i18nKey?: string;
+
+  /** Interpolation arguments for the i18n message */
+  args?: Record<string, unknown>;
+
+  /** Additional structured data exposed to the client in `meta.details` */
+  details?: Record<string, unknown>;
+
+  /** Underlying error, kept for logging only */
+  cause?: unknown;
+}
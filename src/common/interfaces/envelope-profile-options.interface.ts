@@ -0,0 +1,32 @@
+/**
+ * Meta fields that envelope profiles may include or leave out.
+ * Message, pagination and error details (category, code, errors) are always sent.
+ */
+export type EnvelopeMetaField =
+  | 'requestId'
+  | 'correlationId'
+  | 'path'
+  | 'method'
+  | 'lang'
+  | 'ipv4'
+  | 'ipv6'
+  | 'duration'
+  | 'timestamp'
+  | 'cache';
+
+/**
+ * Settings used to select and apply envelope profiles.
+ */
+export interface IEnvelopeProfileOptions {
+  /** Profile used when neither the route nor the client selects one */
+  defaultProfile: string;
+
+  /** Meta fields included by each profile, keyed by profile name */
+  profiles: Record<string, EnvelopeMetaField[]>;
+
+  /** Request header clients may use to select a profile (unset to disable) */
+  header?: string;
+
+  /** Profiles clients may select via the header */
+  headerProfiles: string[];
+}
@@ -1,3 +1,6 @@
+import { CacheStatus } from '../enums/cache-status.enum';
+import { IPaginationMeta } from './pagination.interface';
+
 /**
  * Standard success response interface for all API responses.
  * Provides consistent response structure across the entire application.
@@ -9,37 +12,46 @@ export interface IGenericResponse<T> {
   /** HTTP status code */
   statusCode: number;
 
-  /** Metadata about the request and response context */
+  /**
+   * Metadata about the request and response context.
+   * The active envelope profile decides which optional fields are present.
+   */
   meta: {
     /** Unique identifier for this specific request */
-    requestId: string;
+    requestId?: string;
 
     /** Correlation ID for distributed tracing */
-    correlationId: string;
+    correlationId?: string;
 
     /** Request path/URL */
-    path: string;
+    path?: string;
 
     /** HTTP method (GET, POST, etc.) */
-    method: string;
+    method?: string;
 
     /** Response language */
-    lang: string;
+    lang?: string;
 
-    /** Client IPv4 address */
-    ipv4: string;
+    /** Client IPv4 address (absent when IP_PRIVACY_RESPONSE_MODE is omit) */
+    ipv4?: string;
 
-    /** Client IPv6 address */
-    ipv6: string;
+    /** Client IPv6 address (absent when IP_PRIVACY_RESPONSE_MODE is omit) */
+    ipv6?: string;
 
     /** Request processing duration */
-    duration: string;
+    duration?: string;
 
     /** Success message */
     message: string;
 
     /** ISO timestamp of response */
-    timestamp: string;
+    timestamp?: string;
+
+    /** Response cache outcome of @Cacheable() routes */
+    cache?: CacheStatus;
+
+    /** Pagination details for @Paginated() list endpoints */
+    pagination?: IPaginationMeta;
   };
 
   /** Response payload */
@@ -0,0 +1,46 @@
+import { HealthStatus } from '../enums/health-status.enum';
+
+/**
+ * Outcome of a single health indicator check.
+ */
+export interface IHealthIndicatorResult {
+  /** Whether the checked dependency is healthy */
+  status: HealthStatus;
+
+  /** Indicator-specific measurements (thresholds, usage, error message) */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Pluggable readiness check registered in HealthIndicatorRegistry.
+ *
+ * @example
+ * registry.register({
+ *   name: 'database',
+ *   check: async () => ({ status: (await db.ping()) ? HealthStatus.UP : HealthStatus.DOWN }),
+ * });
+ */
+export interface IHealthIndicator {
+  /** Unique name used as key in the health check result */
+  name: string;
+
+  /** Runs the check; thrown errors and timeouts are reported as DOWN */
+  check(): Promise<IHealthIndicatorResult>;
+}
+
+/**
+ * Aggregated health check returned by the probe endpoints.
+ */
+export interface IHealthCheckResult {
+  /** DOWN as soon as one indicator is DOWN */
+  status: HealthStatus;
+
+  /** Process uptime in seconds */
+  uptime: number;
+
+  /** ISO 8601 timestamp of the check */
+  timestamp: string;
+
+  /** Results keyed by indicator name (readiness only) */
+  checks?: Record<string, IHealthIndicatorResult & { duration: string }>;
+}
@@ -0,0 +1,80 @@
+/**
+ * Defaults of HttpClientService; each can be overridden per request.
+ */
+export interface IHttpClientOptions {
+  /** Timeout per attempt, in milliseconds */
+  timeoutMs: number;
+
+  /** Retries of idempotent requests (GET, HEAD, OPTIONS, PUT, DELETE) */
+  retries: number;
+
+  /** Base delay of the exponential backoff, in milliseconds */
+  retryBaseDelayMs: number;
+
+  /** Upper bound of a single backoff delay, in milliseconds */
+  retryMaxDelayMs: number;
+
+  /** Consecutive failures opening the circuit of a service */
+  circuitFailureThreshold: number;
+
+  /** How long an open circuit fails fast before a trial call, in milliseconds */
+  circuitResetMs: number;
+
+  /** Log (masked) request and error response bodies */
+  logBodies: boolean;
+}
+
+/**
+ * A single outbound request.
+ */
+export interface IHttpRequestOptions {
+  /** HTTP method (default GET) */
+  method?: string;
+
+  /** Absolute URL */
+  url: string;
+
+  /** Query parameters appended to the URL */
+  query?: Record<string, string | number | boolean | undefined>;
+
+  /** Request headers */
+  headers?: Record<string, string>;
+
+  /** Body; plain objects and arrays are sent as JSON */
+  body?: unknown;
+
+  /** Logical service name for logs and the circuit breaker (default: URL host) */
+  service?: string;
+
+  /** Overrides IHttpClientOptions.timeoutMs */
+  timeoutMs?: number;
+
+  /** Overrides IHttpClientOptions.retries; non-idempotent methods default to 0 */
+  retries?: number;
+
+  /** Accepted statuses (default: below 400); others throw UpstreamServiceDomainException */
+  validateStatus?: (status: number) => boolean;
+
+  /** Aborts the request (no retry, the abort error is rethrown) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Response of HttpClientService.
+ */
+export interface IHttpResponse<T = unknown> {
+  /** HTTP status */
+  status: number;
+
+  /** Response headers */
+  headers: Headers;
+
+  /** Parsed body: JSON when the content type says so, otherwise text */
+  data: T;
+
+  /** Total time including retries, in milliseconds */
+  latencyMs: number;
+
+  /** Number of attempts made */
+  attempts: number;
+}
@@ -0,0 +1,19 @@
+/**
+ * Settings of IdempotencyInterceptor.
+ */
+export interface IIdempotencyOptions {
+  /** Master switch */
+  enabled: boolean;
+
+  /** Request header carrying the key (lower-case) */
+  header: string;
+
+  /** Maximum accepted key length */
+  maxKeyLength: number;
+
+  /** How long completed responses are replayed, in milliseconds */
+  ttlMs: number;
+
+  /** How long an in-flight record blocks duplicates if the process dies mid-request */
+  inFlightTtlMs: number;
+}
@@ -0,0 +1,29 @@
+import { IdempotencyStatus } from '../enums/idempotency-status.enum';
+
+/**
+ * Response captured for replay.
+ */
+export interface IIdempotentResponse {
+  /** HTTP status code of the first response */
+  statusCode: number;
+
+  /** Headers set by the handler (request-specific headers excluded) */
+  headers: Record<string, string | string[]>;
+
+  /** Serialized body (the success envelope) */
+  body: unknown;
+}
+
+/**
+ * State stored per idempotency key.
+ */
+export interface IIdempotencyRecord {
+  /** Whether the first request is still running */
+  status: IdempotencyStatus;
+
+  /** Hash of the first request's body; retries must match it */
+  fingerprint: string;
+
+  /** Stored response, once completed */
+  response?: IIdempotentResponse;
+}
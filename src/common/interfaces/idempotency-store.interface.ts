@@ -0,0 +1,32 @@
+import {
+  IIdempotencyRecord,
+  IIdempotentResponse,
+} from './idempotency-record.interface';
+
+/** Injection token of the idempotency store */
+export const IDEMPOTENCY_STORE = Symbol('IDEMPOTENCY_STORE');
+
+/**
+ * Keeps idempotency records with a time to live.
+ */
+export interface IIdempotencyStore {
+  /**
+   * Atomically creates an in-flight record unless the key exists.
+   * @returns The existing record, or undefined when the caller acquired the key
+   */
+  acquire(
+    key: string,
+    fingerprint: string,
+    ttlMs: number,
+  ): Promise<IIdempotencyRecord | undefined>;
+
+  /** Stores the response of an acquired key for replay */
+  complete(
+    key: string,
+    response: IIdempotentResponse,
+    ttlMs: number,
+  ): Promise<void>;
+
+  /** Removes a key so the request can be retried (e.g. after an error) */
+  release(key: string): Promise<void>;
+}
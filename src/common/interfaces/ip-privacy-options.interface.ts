@@ -0,0 +1,24 @@
+import { IpPrivacyMode } from '../enums/ip-privacy-mode.enum';
+
+/**
+ * Settings of the IP privacy policy.
+ */
+export interface IIpPrivacyOptions {
+  /** Mode applied to `meta.ipv4` / `meta.ipv6` of responses */
+  responseMode: IpPrivacyMode;
+
+  /** Mode applied to logs and anonymizeIpForLog */
+  logMode: IpPrivacyMode;
+
+  /** Prefix length kept when truncating IPv4 addresses */
+  ipv4PrefixLength: number;
+
+  /** Prefix length kept when truncating IPv6 addresses */
+  ipv6PrefixLength: number;
+
+  /** Secret the rotating hash salts are derived from */
+  hashSecret: string;
+
+  /** Lifetime of a hash salt in milliseconds */
+  saltRotationMs: number;
+}
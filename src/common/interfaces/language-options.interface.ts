@@ -0,0 +1,27 @@
+import { LanguageSource } from '../enums/language-source.enum';
+
+/**
+ * Language resolution settings, built from LANGUAGE_* variables.
+ */
+export interface ILanguageOptions {
+  /** Used when no source yields a supported language (FALLBACK_LANGUAGE) */
+  fallbackLanguage: string;
+
+  /** Whitelist of response languages; always contains the fallback language */
+  supportedLanguages: string[];
+
+  /** Sources in priority order */
+  sources: LanguageSource[];
+
+  /** Query parameter of LanguageSource.QUERY */
+  queryParam: string;
+
+  /** Header of LanguageSource.HEADER (lowercase) */
+  header: string;
+
+  /** Cookie of LanguageSource.COOKIE */
+  cookie: string;
+
+  /** Property of `request.user` holding the preferred language */
+  userProperty: string;
+}
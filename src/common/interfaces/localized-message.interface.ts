@@ -0,0 +1,11 @@
+/**
+ * A success message translated by TransformInterceptor in the request language.
+ * Set via @SuccessMessage() or returned by handlers as `message`.
+ */
+export interface ILocalizedMessage {
+  /** Translation key, e.g. `common.SUCCESS.CREATED` */
+  i18nKey: string;
+
+  /** Interpolation arguments of the translation */
+  args?: Record<string, unknown>;
+}
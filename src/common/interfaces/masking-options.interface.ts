@@ -0,0 +1,47 @@
+import { MaskStrategy } from '../enums/mask-strategy.enum';
+
+/**
+ * Rule matching object keys.
+ * String patterns are globs (`*password*`, `x-api-*`), matched case-insensitively.
+ */
+export interface IMaskingKeyRule {
+  /** Glob string or regular expression tested against the key */
+  pattern: string | RegExp;
+
+  /** Strategy applied to the value of a matching key */
+  strategy: MaskStrategy;
+}
+
+/**
+ * Detector matching sensitive data inside string values, regardless of key.
+ */
+export interface IMaskingValueDetector {
+  /** Detector name used in configuration (e.g. `jwt`, `credit-card`) */
+  name: string;
+
+  /** Global regular expression locating candidates inside a string */
+  pattern: RegExp;
+
+  /** Optional check to discard false positives (e.g. Luhn for card numbers) */
+  validate?: (match: string) => boolean;
+
+  /** Strategy applied to each confirmed match */
+  strategy: MaskStrategy;
+}
+
+/**
+ * Configuration of the masking engine.
+ */
+export interface IMaskingOptions {
+  /** Key rules, evaluated in order; the first match wins */
+  keyRules: IMaskingKeyRule[];
+
+  /** Value detectors applied to every string that is not matched by a key rule */
+  detectors: IMaskingValueDetector[];
+
+  /** Maximum traversal depth; deeper values are replaced with a marker */
+  maxDepth: number;
+
+  /** Salt for the HASH strategy */
+  hashSalt: string;
+}
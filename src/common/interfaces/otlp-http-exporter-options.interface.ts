@@ -0,0 +1,16 @@
+/**
+ * Options of the OTLP/HTTP exporter.
+ */
+export interface IOtlpHttpExporterOptions {
+  /** Collector base URL, e.g. `http://otel-collector:4318` */
+  endpoint: string;
+
+  /** Value of the `service.name` resource attribute */
+  serviceName: string;
+
+  /** Additional request headers (e.g. authentication) */
+  headers?: Record<string, string>;
+
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
@@ -0,0 +1,46 @@
+/**
+ * Result returned by list endpoints decorated with @Paginated().
+ * Offset pagination sets `page` (and usually `total`); cursor pagination sets `nextCursor`.
+ */
+export interface IPaginatedResult<T> {
+  /** Items of the current page */
+  items: T[];
+
+  /** Page size used for this page */
+  limit: number;
+
+  /** Total number of items (offset pagination) */
+  total?: number;
+
+  /** Current 1-based page number (offset pagination) */
+  page?: number;
+
+  /** Opaque cursor of the next page, null on the last page (cursor pagination) */
+  nextCursor?: string | null;
+}
+
+/**
+ * Pagination metadata exposed in `meta.pagination`.
+ */
+export interface IPaginationMeta {
+  /** Page size used for this page */
+  limit: number;
+
+  /** Whether another page exists */
+  hasNext: boolean;
+
+  /** Total number of items (offset pagination) */
+  total?: number;
+
+  /** Current 1-based page number (offset pagination) */
+  page?: number;
+
+  /** Total number of pages (offset pagination with known total) */
+  totalPages?: number;
+
+  /** Whether a previous page exists (offset pagination) */
+  hasPrevious?: boolean;
+
+  /** Opaque cursor of the next page (cursor pagination) */
+  nextCursor?: string | null;
+}
@@ -0,0 +1,46 @@
+import { ErrorCategory } from '../enums/error-category.enum';
+import { IValidationErrorDetail } from './validation-error-detail.interface';
+
+/**
+ * RFC 9457 Problem Details object.
+ * Standard members are followed by extension members that carry
+ * the same tracing and categorization data as `IErrorResponse`
+ * (subject to the active envelope profile).
+ */
+export interface IProblemDetails {
+  /** URI reference identifying the problem type */
+  type: string;
+
+  /** Short, human-readable summary of the problem type */
+  title: string;
+
+  /** HTTP status code */
+  status: number;
+
+  /** Human-readable explanation specific to this occurrence */
+  detail: string;
+
+  /** URI reference identifying this specific occurrence (request path) */
+  instance?: string;
+
+  /** Unique identifier for this specific request */
+  requestId?: string;
+
+  /** Correlation ID for distributed tracing */
+  correlationId?: string;
+
+  /** Categorized error type for analytics */
+  errorCategory: ErrorCategory;
+
+  /** Stable machine-readable error code (never translated) */
+  code: string;
+
+  /** Additional structured data supplied by domain exceptions */
+  details?: Record<string, unknown>;
+
+  /** ISO timestamp of when error occurred */
+  timestamp?: string;
+
+  /** Structured validation errors keyed by property path (e.g. `items[2].qty`) */
+  errors?: Record<string, IValidationErrorDetail[]>;
+}
@@ -0,0 +1,27 @@
+import { RateLimitAlgorithm } from '../enums/rate-limit-algorithm.enum';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+import { IRateLimitRule } from './rate-limit-rule.interface';
+
+/**
+ * Settings of RateLimitService (RateLimitGuard and RateLimitInterceptor).
+ */
+export interface IRateLimitOptions {
+  /** Master switch; when false no request is limited */
+  enabled: boolean;
+
+  /** Defaults for rules that only specify `limit` */
+  defaults: {
+    algorithm: RateLimitAlgorithm;
+    keyBy: RateLimitKey;
+    windowMs: number;
+  };
+
+  /** Rule applied to every route without @RateLimit()/@SkipRateLimit() */
+  globalRule?: IRateLimitRule;
+
+  /** Header carrying the API key for RateLimitKey.API_KEY */
+  apiKeyHeader: string;
+
+  /** Whether RateLimit-* headers are sent */
+  headersEnabled: boolean;
+}
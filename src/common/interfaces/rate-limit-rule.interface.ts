@@ -0,0 +1,42 @@
+import { RateLimitAlgorithm } from '../enums/rate-limit-algorithm.enum';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+
+/**
+ * A rate limit applied to a route, a controller or globally.
+ */
+export interface IRateLimitRule {
+  /** Maximum number of requests per window (bucket capacity for token buckets) */
+  limit: number;
+
+  /** Window length in milliseconds (time to refill the whole bucket for token buckets) */
+  windowMs: number;
+
+  /** Counting algorithm */
+  algorithm: RateLimitAlgorithm;
+
+  /** What requests are counted against */
+  keyBy: RateLimitKey;
+
+  /** Namespace of the counters; routes sharing a name share their limits */
+  name: string;
+}
+
+/**
+ * Outcome of consuming one request from a rate limit.
+ */
+export interface IRateLimitResult {
+  /** Whether the request may proceed */
+  allowed: boolean;
+
+  /** Configured limit */
+  limit: number;
+
+  /** Requests left in the current window */
+  remaining: number;
+
+  /** Milliseconds until the limit is fully reset */
+  resetMs: number;
+
+  /** Milliseconds until the next request would be allowed (0 when allowed) */
+  retryAfterMs: number;
+}
@@ -0,0 +1,17 @@
+import { IRateLimitResult, IRateLimitRule } from './rate-limit-rule.interface';
+
+/** Injection token of the rate limit store */
+export const RATE_LIMIT_STORE = Symbol('RATE_LIMIT_STORE');
+
+/**
+ * Keeps rate limit counters.
+ * Implementations must apply `consume` atomically per key; shared stores
+ * (e.g. Redis) can reuse the algorithms of rate-limit.util inside a transaction or script.
+ */
+export interface IRateLimitStore {
+  /** Count one request against `key` and report whether it is allowed */
+  consume(key: string, rule: IRateLimitRule): Promise<IRateLimitResult>;
+
+  /** Forget the counters of a key */
+  reset(key: string): Promise<void>;
+}
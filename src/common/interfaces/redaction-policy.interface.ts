@@ -0,0 +1,14 @@
+/**
+ * Redaction policy applied to response data and logged payloads.
+ * Resolved per request from the global configuration and route decorators.
+ */
+export interface IRedactionPolicy {
+  /** Whether sensitive fields are redacted at all */
+  enabled: boolean;
+
+  /** Additional field names to redact on top of the masking engine's rules */
+  fields: string[];
+
+  /** class-transformer groups to expose; undefined exposes everything */
+  groups?: string[];
+}
@@ -0,0 +1,24 @@
+import { ITraceContext } from './trace-context.interface';
+
+/**
+ * Per-request state available anywhere in the call chain through RequestContextService.
+ */
+export interface IRequestContext {
+  /** Unique identifier of the request */
+  requestId: string;
+
+  /** Correlation ID for distributed tracing */
+  correlationId: string;
+
+  /** Request start timestamp in milliseconds (Date.now()) */
+  startTime: number;
+
+  /** Resolved request language, known once the route handler is reached */
+  lang?: string;
+
+  /** Authenticated user (`request.user`), known once guards have run */
+  user?: unknown;
+
+  /** Trace context of the request's server span */
+  traceContext?: ITraceContext;
+}
@@ -0,0 +1,16 @@
+/**
+ * Completed HTTP request as recorded by MetricsService.
+ */
+export interface IRequestMetric {
+  /** HTTP method */
+  method: string;
+
+  /** Route template (never the raw URL, see getRouteTemplate) */
+  route: string;
+
+  /** Response status code */
+  statusCode: number;
+
+  /** Request duration in milliseconds */
+  durationMs: number;
+}
@@ -1,4 +1,9 @@
+import { ExecutionContext } from '@nestjs/common';
 import { Request } from 'express';
+import { IRedactionPolicy } from './redaction-policy.interface';
+import { ITraceContext } from './trace-context.interface';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { CacheStatus } from '../enums/cache-status.enum';
 
 /**
  * Extended Request interface with tracking and tracing properties.
@@ -6,6 +11,11 @@ import { Request } from 'express';
  * @property requestId - Unique identifier for this specific request (generated per request)
  * @property correlationId - Trace ID for distributed tracing (may be received from upstream)
  * @property startTime - Unix timestamp when request was received (for duration calculation)
+ * @property routeMetadataTargets - Handler and controller of the matched route
+ * @property redactionPolicy - Redaction policy resolved from route metadata
+ * @property traceContext - W3C trace context of the request's server span
+ * @property errorCategory - Category of the error response, if any
+ * @property cacheStatus - Response cache outcome of a @Cacheable() route
  */
 export interface IRequestWithRequestId extends Request {
   /** Unique identifier generated for each incoming request */
@@ -20,4 +30,39 @@ export interface IRequestWithRequestId extends Request {
 
   /** Request start timestamp in milliseconds (Date.now()) */
   startTime?: number;
+
+  /**
+   * Handler and controller of the matched route (route metadata targets).
+   * Recorded by RouteMetadataGuard before any other guard runs, so
+   * AllExceptionsFilter can read route decorators (error format, envelope profile)
+   * for every error after routing.
+   */
+  routeMetadataTargets?: [
+    ReturnType<ExecutionContext['getHandler']>,
+    ReturnType<ExecutionContext['getClass']>,
+  ];
+
+  /**
+   * Redaction policy of the matched route.
+   * Resolved by TransformInterceptor so AllExceptionsFilter masks logged bodies consistently.
+   */
+  redactionPolicy?: IRedactionPolicy;
+
+  /**
+   * Trace context of the server span created by CorrelationIdMiddleware.
+   * Continues the caller's trace when a valid `traceparent` was received.
+   */
+  traceContext?: ITraceContext;
+
+  /**
+   * Error category of a failed request.
+   * Set by AllExceptionsFilter so the server span can record it.
+   */
+  errorCategory?: ErrorCategory;
+
+  /**
+   * Whether the data of a @Cacheable() route came from the response cache.
+   * Set by ResponseCacheInterceptor; reported in `meta.cache` and the request log.
+   */
+  cacheStatus?: CacheStatus;
 }
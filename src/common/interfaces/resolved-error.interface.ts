@@ -0,0 +1,18 @@
+import { ErrorCategory } from '../enums/error-category.enum';
+import { IValidationErrorDetail } from './validation-error-detail.interface';
+
+/**
+ * Status, translated message, category and code of a caught exception.
+ * Shared by AllExceptionsFilter and errors raised inside streamed responses.
+ */
+export interface IResolvedError {
+  status: number;
+  message: string | string[];
+  /** Message joined into a single line for logs */
+  messageStr: string;
+  errorName: string;
+  errorCategory: ErrorCategory;
+  code: string;
+  details?: Record<string, unknown>;
+  validationErrors?: Record<string, IValidationErrorDetail[]>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Settings of ResponseCacheInterceptor and the in-memory LRU store.
+ */
+export interface IResponseCacheOptions {
+  /** Master switch */
+  enabled: boolean;
+
+  /** Time to live of entries without a route-level `ttl`, in milliseconds */
+  defaultTtlMs: number;
+
+  /** Maximum number of entries kept in memory */
+  maxEntries: number;
+
+  /** Maximum total size of the in-memory entries (serialized), in bytes */
+  maxSizeBytes: number;
+}
@@ -0,0 +1,33 @@
+/** Injection token of the response cache store */
+export const RESPONSE_CACHE_STORE = Symbol('RESPONSE_CACHE_STORE');
+
+/**
+ * A cached handler result (the `data` before the envelope is applied).
+ */
+export interface ICachedResponse {
+  /** Handler result */
+  data: unknown;
+
+  /** Tags used for invalidation via @CacheEvict() */
+  tags: string[];
+
+  /** Unix timestamp (ms) when the entry was stored */
+  createdAt: number;
+}
+
+/**
+ * Keeps cached responses with a time to live and a tag index.
+ */
+export interface IResponseCacheStore {
+  /** Returns the entry unless it is missing or expired */
+  get(key: string): Promise<ICachedResponse | undefined>;
+
+  /** Stores an entry, replacing any entry under the same key */
+  set(key: string, response: ICachedResponse, ttlMs: number): Promise<void>;
+
+  /**
+   * Removes all entries carrying one of the tags.
+   * @returns Number of removed entries
+   */
+  invalidateTags(tags: string[]): Promise<number>;
+}
@@ -0,0 +1,15 @@
+import { ISpan } from './span.interface';
+
+/** Injection token of the configured span exporter */
+export const SPAN_EXPORTER = Symbol('SPAN_EXPORTER');
+
+/**
+ * Sends finished spans to a tracing backend.
+ */
+export interface ISpanExporter {
+  /** Export a batch of finished, sampled spans */
+  export(spans: ISpan[]): Promise<void>;
+
+  /** Release resources on application shutdown */
+  shutdown?(): Promise<void>;
+}
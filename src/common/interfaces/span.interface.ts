@@ -0,0 +1,32 @@
+import { SpanKind } from '../enums/span-kind.enum';
+import { SpanStatusCode } from '../enums/span-status-code.enum';
+import { ITraceContext } from './trace-context.interface';
+
+/** Attribute values supported by the OTLP exporter */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * A timed operation within a trace.
+ */
+export interface ISpan {
+  /** Span name, e.g. `GET /api/v1/users/:id` */
+  name: string;
+
+  /** Span kind */
+  kind: SpanKind;
+
+  /** Trace context of this span */
+  context: ITraceContext;
+
+  /** Start time in milliseconds since epoch (sub-millisecond precision) */
+  startTime: number;
+
+  /** End time in milliseconds since epoch, set when the span ends */
+  endTime?: number;
+
+  /** Attributes following OpenTelemetry semantic conventions */
+  attributes: Record<string, SpanAttributeValue>;
+
+  /** Outcome of the operation */
+  status: { code: SpanStatusCode; message?: string };
+}
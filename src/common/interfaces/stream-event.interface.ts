@@ -0,0 +1,20 @@
+/**
+ * Lightweight meta sent with every event of a streamed response.
+ * Request-level fields (path, lang, IP...) are left out; they do not change per event.
+ */
+export interface IStreamEventMeta {
+  requestId: string;
+  correlationId: string;
+  /** 1-based position of the event in the stream (also the SSE event id) */
+  sequence: number;
+  /** ISO timestamp of when the event was emitted */
+  timestamp: string;
+}
+
+/**
+ * A single event of an SSE or NDJSON stream.
+ */
+export interface IStreamEvent<T = unknown> {
+  data: T;
+  meta: IStreamEventMeta;
+}
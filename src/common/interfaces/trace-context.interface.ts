@@ -0,0 +1,19 @@
+/**
+ * W3C Trace Context of the span currently being processed.
+ */
+export interface ITraceContext {
+  /** 32 lowercase hex characters shared by every span of the trace */
+  traceId: string;
+
+  /** 16 lowercase hex characters identifying the current span */
+  spanId: string;
+
+  /** Span ID of the caller (from the incoming `traceparent`) */
+  parentSpanId?: string;
+
+  /** Trace flags; bit 0 marks the trace as sampled */
+  traceFlags: number;
+
+  /** Vendor-specific `tracestate` propagated unchanged */
+  traceState?: string;
+}
@@ -0,0 +1,65 @@
+import { ErrorCategory } from '../enums/error-category.enum';
+import { IValidationErrorDetail } from './validation-error-detail.interface';
+
+/**
+ * Error payload sent to RPC callers (as the RpcException error) and to
+ * WebSocket clients (as the `exception` event).
+ * `status: 'error'` keeps it compatible with Nest's default payload.
+ */
+export interface ITransportErrorPayload {
+  /** Always 'error' */
+  status: 'error';
+
+  /** Equivalent HTTP status code */
+  statusCode: number;
+
+  /** Error message(s) in the resolved language */
+  message: string | string[];
+
+  /** Categorized error type */
+  errorCategory: ErrorCategory;
+
+  /** Stable machine-readable error code (never translated) */
+  code: string;
+
+  /** Unique identifier of the request or message */
+  requestId?: string;
+
+  /** Correlation ID for distributed tracing */
+  correlationId?: string;
+
+  /** ISO timestamp of when the error occurred */
+  timestamp?: string;
+
+  /** Additional structured data supplied by domain exceptions */
+  details?: Record<string, unknown>;
+
+  /** Structured validation errors keyed by property path */
+  errors?: Record<string, IValidationErrorDetail[]>;
+}
+
+/**
+ * `extensions` of GraphQL errors produced by AllExceptionsFilter.
+ */
+export interface IGraphqlErrorExtensions {
+  /** Stable machine-readable error code (never translated) */
+  code: string;
+
+  /** Categorized error type */
+  errorCategory: ErrorCategory;
+
+  /** Equivalent HTTP status code */
+  statusCode: number;
+
+  /** Unique identifier of the request */
+  requestId?: string;
+
+  /** Correlation ID for distributed tracing */
+  correlationId?: string;
+
+  /** Additional structured data supplied by domain exceptions */
+  details?: Record<string, unknown>;
+
+  /** Structured validation errors keyed by property path */
+  errors?: Record<string, IValidationErrorDetail[]>;
+}
@@ -0,0 +1,19 @@
+import { ForwardedHeader } from '../enums/forwarded-header.enum';
+import { IpMatcher } from '../utils/cidr.util';
+
+/**
+ * Settings used by getClientIpInfo to decide which forwarding headers to believe.
+ */
+export interface ITrustedProxyOptions {
+  /** Returns true for addresses of trusted proxies (CIDR list and presets) */
+  isTrustedProxy: IpMatcher;
+
+  /** Number of nearest hops trusted regardless of their address */
+  hops: number;
+
+  /** Forwarding header set by the trusted proxies; the other one is ignored (default `x-forwarded-for`) */
+  forwardedHeader?: ForwardedHeader;
+
+  /** Header carrying the client IP set by a trusted proxy (e.g. `cf-connecting-ip`) */
+  clientIpHeader?: string;
+}
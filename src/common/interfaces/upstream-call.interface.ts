@@ -0,0 +1,27 @@
+import { UpstreamFailureReason } from '../enums/upstream-failure-reason.enum';
+
+/**
+ * Outcome of an outbound HTTP call, logged with upstream failures.
+ */
+export interface IUpstreamCall {
+  /** Logical service name (circuit breaker key) */
+  service: string;
+
+  /** HTTP method */
+  method: string;
+
+  /** URL without query string */
+  url: string;
+
+  /** Status of the last response, if any */
+  status?: number;
+
+  /** Total time including retries, in milliseconds */
+  latencyMs: number;
+
+  /** Number of attempts made */
+  attempts: number;
+
+  /** Failure reason, for failed calls */
+  reason?: UpstreamFailureReason;
+}
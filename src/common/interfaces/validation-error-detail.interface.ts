@@ -0,0 +1,14 @@
+/**
+ * A single failed constraint for one property path.
+ * Produced from the ValidationError tree emitted by I18nValidationPipe.
+ */
+export interface IValidationErrorDetail {
+  /** class-validator constraint name (e.g. isEmail, minLength) */
+  constraint: string;
+
+  /** Translated error message in the request language */
+  message: string;
+
+  /** Rejected value, masked through maskSensitiveData */
+  value?: unknown;
+}
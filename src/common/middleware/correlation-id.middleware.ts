@@ -1,7 +1,19 @@
-import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Response, NextFunction } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 import { IRequestWithRequestId } from '../interfaces/request.interface';
+import { TracingService } from '../services/tracing.service';
+import { SpanKind } from '../enums/span-kind.enum';
+import { SpanStatusCode } from '../enums/span-status-code.enum';
+import { ISpan } from '../interfaces/span.interface';
+import { getRouteTemplate } from '../utils/route.util';
+import { extractTraceContext } from '../utils/trace-context.util';
+import { RequestContextService } from '../services/request-context.service';
+import { getCorrelationIdOptions } from '../config/correlation-id.config';
+import { ICorrelationIdOptions } from '../interfaces/correlation-id-options.interface';
+import { CorrelationIdRejectPolicy } from '../enums/correlation-id-reject-policy.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { BadRequestDomainException } from '../exceptions/bad-request-domain.exception';
 
 /**
  * Correlation ID Header name - Standard header for distributed tracing.
@@ -14,10 +26,13 @@ export const REQUEST_ID_HEADER = 'x-request-id';
  * Middleware that handles request correlation/tracing IDs.
  *
  * Features:
- * - Generates a unique requestId for each request
+ * - Generates a unique requestId for each request (UUIDv4, UUIDv7 or ULID)
  * - Accepts incoming X-Correlation-ID header for distributed tracing
+ * - Validates inbound IDs (format, length, charset) and only trusts configured callers
  * - Attaches both IDs to the request object and response headers
  * - Records request start time for duration calculation
+ * - Continues W3C Trace Context (`traceparent`/`tracestate`) and opens a server span
+ * - Runs the rest of the request inside a RequestContextService context
  *
  * Usage in distributed systems:
  * - Frontend sends X-Correlation-ID to trace user sessions
@@ -26,31 +41,131 @@ export const REQUEST_ID_HEADER = 'x-request-id';
  */
 @Injectable()
 export class CorrelationIdMiddleware implements NestMiddleware {
+    private readonly logger = new Logger(CorrelationIdMiddleware.name);
+    private readonly options: ICorrelationIdOptions;
+
+    constructor(
+        private readonly tracingService: TracingService,
+        configService: ConfigService,
+    ) {
+        this.options = getCorrelationIdOptions(configService);
+    }
+
     use(req: IRequestWithRequestId, res: Response, next: NextFunction): void {
         // Generate unique request ID for this specific request
-        const requestId = uuidv4();
+        const requestId = this.options.generateRequestId();
+
+        // Continue the caller's trace (W3C Trace Context) or start a new one
+        const remoteParent = extractTraceContext(req.headers);
+        const span = this.tracingService.startSpan(
+            req.method,
+            SpanKind.SERVER,
+            remoteParent,
+        );
 
         // Check for incoming correlation ID (from upstream services or frontend)
-        const incomingCorrelationId =
-            req.headers[CORRELATION_ID_HEADER] || req.headers[REQUEST_ID_HEADER];
+        const { header, value: incomingCorrelationId } =
+            this.getIncomingCorrelationId(req);
+        const isTrusted = this.options.isTrustedSource(req.socket.remoteAddress);
+        const isRejected =
+            incomingCorrelationId !== undefined &&
+            isTrusted &&
+            !this.options.isValid(incomingCorrelationId);
+
+        if (isRejected) {
+            // Never log the raw value: it is exactly what could inject into logs
+            this.logger.debug(
+                `Rejected inbound ${header} header (length ${incomingCorrelationId.length})`,
+            );
+        }
 
-        // Use incoming correlation ID if present, otherwise use request ID
+        // Use a valid incoming correlation ID from a trusted caller, otherwise the upstream trace ID or request ID
         const correlationId =
-            typeof incomingCorrelationId === 'string'
+            incomingCorrelationId !== undefined && isTrusted && !isRejected
                 ? incomingCorrelationId
-                : Array.isArray(incomingCorrelationId)
-                    ? incomingCorrelationId[0]
-                    : requestId;
+                : (remoteParent?.traceId ?? requestId);
 
         // Attach IDs to request object
         req.requestId = requestId;
         req.correlationId = correlationId;
         req.startTime = Date.now();
+        req.traceContext = span.context;
 
         // Set response headers for client tracking
         res.setHeader(REQUEST_ID_HEADER, requestId);
         res.setHeader(CORRELATION_ID_HEADER, correlationId);
 
-        next();
+        // End the span once the response is finished or aborted
+        res.once('close', () => this.endSpan(span, req, res));
+
+        if (
+            isRejected &&
+            this.options.rejectPolicy === CorrelationIdRejectPolicy.REJECT
+        ) {
+            throw new BadRequestDomainException({
+                code: ErrorCode.INVALID_CORRELATION_ID,
+                i18nKey: 'common.ERROR.INVALID_CORRELATION_ID',
+                args: { header },
+            });
+        }
+
+        // Make IDs available to services and logs without the request object
+        RequestContextService.run(
+            {
+                requestId,
+                correlationId,
+                startTime: req.startTime,
+                traceContext: span.context,
+            },
+            next,
+        );
+    }
+
+    /**
+     * Read the inbound correlation ID, preferring X-Correlation-ID over X-Request-ID.
+     */
+    private getIncomingCorrelationId(req: IRequestWithRequestId): {
+        header: string;
+        value?: string;
+    } {
+        for (const header of [CORRELATION_ID_HEADER, REQUEST_ID_HEADER]) {
+            const raw = req.headers[header];
+            const value = Array.isArray(raw) ? raw[0] : raw;
+            if (value) {
+                return { header, value };
+            }
+        }
+        return { header: CORRELATION_ID_HEADER };
+    }
+
+    /**
+     * End the server span with the fields also written to the request logs.
+     */
+    private endSpan(
+        span: ISpan,
+        req: IRequestWithRequestId,
+        res: Response,
+    ): void {
+        const route = getRouteTemplate(req);
+        const isServerError = res.statusCode >= 500;
+
+        span.name = `${req.method} ${route}`;
+        this.tracingService.endSpan(
+            span,
+            {
+                'http.request.method': req.method,
+                'http.route': route,
+                'http.response.status_code': res.statusCode,
+                'url.path': req.path,
+                'request.id': req.requestId,
+                'correlation.id': req.correlationId,
+                'error.category': req.errorCategory,
+                'http.aborted': res.writableFinished ? undefined : true,
+            },
+            {
+                code: isServerError ? SpanStatusCode.ERROR : SpanStatusCode.UNSET,
+                message: isServerError ? req.errorCategory : undefined,
+            },
+        );
     }
 }
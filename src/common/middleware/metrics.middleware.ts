@@ -0,0 +1,19 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { MetricsService } from '../services/metrics.service';
+
+/**
+ * Middleware maintaining the in-flight request gauge.
+ * Tracking ends when the response is closed, whether it finished or was aborted.
+ */
+@Injectable()
+export class MetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(_req: Request, res: Response, next: NextFunction): void {
+    const endRequest = this.metricsService.startRequest();
+    res.once('close', endRequest);
+
+    next();
+  }
+}
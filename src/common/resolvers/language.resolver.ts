@@ -0,0 +1,45 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { I18nResolver } from 'nestjs-i18n';
+import { getLanguageOptions } from '../config/language.config';
+import { ILanguageOptions } from '../interfaces/language-options.interface';
+import { resolveRequestLanguage } from '../utils/language.util';
+
+/**
+ * nestjs-i18n resolver walking the LANGUAGE_RESOLVERS sources in priority order,
+ * restricted to SUPPORTED_LANGUAGES with region fallback.
+ * Returns undefined (→ FALLBACK_LANGUAGE) when no source yields a supported language.
+ *
+ * Runs in the i18n middleware, before guards: users authenticated by guards are
+ * picked up by TransformInterceptor.
+ */
+@Injectable()
+export class LanguageResolver implements I18nResolver {
+  private readonly options: ILanguageOptions;
+
+  constructor(configService: ConfigService) {
+    this.options = getLanguageOptions(configService);
+  }
+
+  resolve(context: ExecutionContext): string | undefined {
+    switch (context.getType<string>()) {
+      case 'http':
+        return resolveRequestLanguage(
+          context.switchToHttp().getRequest<Request>(),
+          this.options,
+        );
+      case 'graphql': {
+        // GraphQL over HTTP: the resolver context carries the request
+        const gqlContext = context.getArgByIndex<{ req?: Request } | undefined>(
+          2,
+        );
+        return gqlContext?.req
+          ? resolveRequestLanguage(gqlContext.req, this.options)
+          : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+}
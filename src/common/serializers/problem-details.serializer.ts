@@ -0,0 +1,53 @@
+import { STATUS_CODES } from 'http';
+import type { IErrorResponse } from '../interfaces/IErrorResponse.interface';
+import type { IProblemDetails } from '../interfaces/problem-details.interface';
+
+/** Media type defined by RFC 9457 for Problem Details documents */
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+/** Default problem type when no type base URL is configured (RFC 9457 §4.2.1) */
+const DEFAULT_PROBLEM_TYPE = 'about:blank';
+
+/**
+ * Options for Problem Details serialization.
+ * @property typeBaseUrl - Base URL used to build category-specific `type` URIs
+ */
+export interface IProblemDetailsOptions {
+  typeBaseUrl?: string;
+}
+
+/**
+ * Converts the standard error envelope into an RFC 9457 Problem Details object.
+ * Example: { statusCode: 404, meta: { errorCategory: 'NOT_FOUND', ... } }
+ * -> { type: 'https://errors.example.com/not-found', title: 'Not Found', status: 404, ... }
+ * @param errorResponse - The envelope built by AllExceptionsFilter
+ * @param options - Serialization options
+ * @returns The Problem Details representation
+ */
+export function toProblemDetails(
+  errorResponse: IErrorResponse,
+  options: IProblemDetailsOptions = {},
+): IProblemDetails {
+  const { statusCode, meta } = errorResponse;
+
+  const type = options.typeBaseUrl
+    ? `${options.typeBaseUrl.replace(/\/+$/, '')}/${meta.errorCategory.toLowerCase().replace(/_/g, '-')}`
+    : DEFAULT_PROBLEM_TYPE;
+
+  return {
+    type,
+    title: STATUS_CODES[statusCode] ?? 'Unknown Error',
+    status: statusCode,
+    detail: Array.isArray(meta.message)
+      ? meta.message.join(', ')
+      : meta.message,
+    instance: meta.path,
+    requestId: meta.requestId,
+    correlationId: meta.correlationId,
+    errorCategory: meta.errorCategory,
+    code: meta.code,
+    timestamp: meta.timestamp,
+    ...(meta.details ? { details: meta.details } : {}),
+    ...(meta.errors ? { errors: meta.errors } : {}),
+  };
+}
@@ -0,0 +1,74 @@
+import { ErrorCategory } from '../enums/error-category.enum';
+import type { IErrorResponse } from '../interfaces/IErrorResponse.interface';
+import {
+  toGraphqlError,
+  toTransportErrorPayload,
+} from './transport-error.serializer';
+
+const errorResponse: IErrorResponse = {
+  success: false,
+  statusCode: 400,
+  meta: {
+    requestId: 'req-1',
+    correlationId: 'corr-1',
+    lang: 'en',
+    message: ['name is required', 'email is invalid'],
+    timestamp: '2026-01-01T00:00:00.000Z',
+    errorCategory: ErrorCategory.VALIDATION,
+    code: 'VALIDATION_FAILED',
+    errors: {
+      name: [{ constraint: 'isNotEmpty', message: 'name is required' }],
+    },
+  },
+};
+
+describe('toTransportErrorPayload', () => {
+  it('should flatten the envelope into the RPC / WebSocket payload', () => {
+    expect(toTransportErrorPayload(errorResponse)).toEqual({
+      status: 'error',
+      statusCode: 400,
+      message: ['name is required', 'email is invalid'],
+      errorCategory: ErrorCategory.VALIDATION,
+      code: 'VALIDATION_FAILED',
+      requestId: 'req-1',
+      correlationId: 'corr-1',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      errors: {
+        name: [{ constraint: 'isNotEmpty', message: 'name is required' }],
+      },
+    });
+  });
+
+  it('should omit details and errors when absent', () => {
+    const payload = toTransportErrorPayload({
+      ...errorResponse,
+      meta: { ...errorResponse.meta, errors: undefined },
+    });
+
+    expect(payload).not.toHaveProperty('details');
+    expect(payload).not.toHaveProperty('errors');
+  });
+});
+
+describe('toGraphqlError', () => {
+  it('should join messages and expose the envelope as extensions', () => {
+    const error = toGraphqlError({
+      ...errorResponse,
+      meta: { ...errorResponse.meta, details: { field: 'name' } },
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('name is required, email is invalid');
+    expect(error.extensions).toEqual({
+      code: 'VALIDATION_FAILED',
+      errorCategory: ErrorCategory.VALIDATION,
+      statusCode: 400,
+      requestId: 'req-1',
+      correlationId: 'corr-1',
+      details: { field: 'name' },
+      errors: {
+        name: [{ constraint: 'isNotEmpty', message: 'name is required' }],
+      },
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import type { IErrorResponse } from '../interfaces/IErrorResponse.interface';
+import type {
+  IGraphqlErrorExtensions,
+  ITransportErrorPayload,
+} from '../interfaces/transport-error.interface';
+
+/**
+ * Converts the standard error envelope into the RPC / WebSocket error payload.
+ * Example: { statusCode: 404, meta: { code: 'NOT_FOUND', ... } }
+ * -> { status: 'error', statusCode: 404, code: 'NOT_FOUND', ... }
+ * @param errorResponse - The envelope built by AllExceptionsFilter
+ */
+export function toTransportErrorPayload(
+  errorResponse: IErrorResponse,
+): ITransportErrorPayload {
+  const { statusCode, meta } = errorResponse;
+
+  return {
+    status: 'error',
+    statusCode,
+    message: meta.message,
+    errorCategory: meta.errorCategory,
+    code: meta.code,
+    requestId: meta.requestId,
+    correlationId: meta.correlationId,
+    timestamp: meta.timestamp,
+    ...(meta.details ? { details: meta.details } : {}),
+    ...(meta.errors ? { errors: meta.errors } : {}),
+  };
+}
+
+/**
+ * Converts the standard error envelope into an error for GraphQL resolvers.
+ * graphql-js copies `extensions` of the original error into the response:
+ * { message, path, extensions: { code, errorCategory, statusCode, requestId, ... } }
+ * @param errorResponse - The envelope built by AllExceptionsFilter
+ */
+export function toGraphqlError(
+  errorResponse: IErrorResponse,
+): Error & { extensions: IGraphqlErrorExtensions } {
+  const { statusCode, meta } = errorResponse;
+  const message = Array.isArray(meta.message)
+    ? meta.message.join(', ')
+    : meta.message;
+
+  return Object.assign(new Error(message), {
+    extensions: {
+      code: meta.code,
+      errorCategory: meta.errorCategory,
+      statusCode,
+      requestId: meta.requestId,
+      correlationId: meta.correlationId,
+      ...(meta.details ? { details: meta.details } : {}),
+      ...(meta.errors ? { errors: meta.errors } : {}),
+    },
+  });
+}
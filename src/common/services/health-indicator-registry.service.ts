@@ -0,0 +1,108 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HealthStatus } from '../enums/health-status.enum';
+import {
+  IHealthCheckResult,
+  IHealthIndicator,
+  IHealthIndicatorResult,
+} from '../interfaces/health-indicator.interface';
+
+/**
+ * Registry of readiness indicators.
+ * Built-in indicators are registered by HealthInfrastructureModule;
+ * feature modules inject the registry to add their own checks.
+ */
+@Injectable()
+export class HealthIndicatorRegistry {
+  private readonly logger = new Logger(HealthIndicatorRegistry.name);
+  private readonly indicators = new Map<string, IHealthIndicator>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Register an indicator. An indicator with the same name is replaced.
+   */
+  register(indicator: IHealthIndicator): void {
+    this.indicators.set(indicator.name, indicator);
+  }
+
+  /**
+   * Remove a previously registered indicator.
+   */
+  unregister(name: string): void {
+    this.indicators.delete(name);
+  }
+
+  /**
+   * Liveness: the process is running and its event loop answers.
+   */
+  live(): IHealthCheckResult {
+    return {
+      status: HealthStatus.UP,
+      uptime: Math.round(process.uptime()),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Readiness: run every indicator in parallel and aggregate their status.
+   */
+  async ready(): Promise<IHealthCheckResult> {
+    const entries = await Promise.all(
+      [...this.indicators.values()].map(
+        async (indicator) =>
+          [indicator.name, await this.runIndicator(indicator)] as const,
+      ),
+    );
+    const checks = Object.fromEntries(entries);
+    const isUp = entries.every(
+      ([, result]) => result.status === HealthStatus.UP,
+    );
+
+    return {
+      ...this.live(),
+      status: isUp ? HealthStatus.UP : HealthStatus.DOWN,
+      checks,
+    };
+  }
+
+  /**
+   * Run a single indicator with a timeout; failures are reported as DOWN.
+   */
+  private async runIndicator(
+    indicator: IHealthIndicator,
+  ): Promise<IHealthIndicatorResult & { duration: string }> {
+    const timeoutMs = this.configService.get<number>(
+      'HEALTH_CHECK_TIMEOUT_MS',
+      3000,
+    );
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const result = await Promise.race([
+        indicator.check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+            timeoutMs,
+          );
+        }),
+      ]);
+      return { ...result, duration: `${Date.now() - startTime}ms` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Health indicator "${indicator.name}" failed: ${message}`,
+      );
+
+      return {
+        status: HealthStatus.DOWN,
+        details: { error: message },
+        duration: `${Date.now() - startTime}ms`,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,456 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getHttpClientOptions } from '../config/http-client.config';
+import { CircuitState } from '../enums/circuit-state.enum';
+import { SpanKind } from '../enums/span-kind.enum';
+import { SpanStatusCode } from '../enums/span-status-code.enum';
+import { UpstreamFailureReason } from '../enums/upstream-failure-reason.enum';
+import { UpstreamServiceDomainException } from '../exceptions/upstream-service-domain.exception';
+import {
+  IHttpClientOptions,
+  IHttpRequestOptions,
+  IHttpResponse,
+} from '../interfaces/http-client-options.interface';
+import { IUpstreamCall } from '../interfaces/upstream-call.interface';
+import {
+  CORRELATION_ID_HEADER,
+  REQUEST_ID_HEADER,
+} from '../middleware/correlation-id.middleware';
+import {
+  acquireCircuit,
+  createCircuitBreakerState,
+  ICircuitBreakerRule,
+  ICircuitBreakerState,
+  recordCircuitResult,
+} from '../utils/circuit-breaker.util';
+import { maskSensitiveData } from '../utils/mask.util';
+import {
+  computeRetryDelay,
+  IDEMPOTENT_METHODS,
+  isRetryableStatus,
+  parseRetryAfter,
+} from '../utils/retry.util';
+import {
+  formatTraceparent,
+  getActiveTraceContext,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+} from '../utils/trace-context.util';
+import { RequestContextService } from './request-context.service';
+import { TracingService } from './tracing.service';
+
+/** Header names masked in logs besides the global sensitive fields */
+const SENSITIVE_HEADERS = [
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'proxy-authorization',
+];
+
+/** Result of a single attempt */
+type AttemptResult =
+  | { status: number; headers: Headers; data: unknown }
+  | { reason: UpstreamFailureReason; error: unknown };
+
+/**
+ * Outbound HTTP client built on fetch.
+ *
+ * - Forwards x-correlation-id / x-request-id of the current request
+ * - Creates a CLIENT span per attempt and sends its `traceparent`
+ * - Times out each attempt, retries idempotent requests with jittered backoff
+ *   (honouring Retry-After) and fails fast through a circuit breaker per service
+ * - Logs calls with masked headers and bodies
+ * - Throws UpstreamServiceDomainException (EXTERNAL_SERVICE) on failure
+ *
+ * @example
+ * const { data } = await this.http.get<Rate[]>('https://rates.example.com/v1/rates', {
+ *   service: 'rates',
+ *   query: { base: 'EUR' },
+ * });
+ */
+@Injectable()
+export class HttpClientService {
+  private readonly logger = new Logger('HttpClient');
+  private readonly options: IHttpClientOptions;
+  private readonly circuitRule: ICircuitBreakerRule;
+  private readonly circuits = new Map<string, ICircuitBreakerState>();
+
+  constructor(
+    private readonly tracingService: TracingService,
+    configService: ConfigService,
+  ) {
+    this.options = getHttpClientOptions(configService);
+    this.circuitRule = {
+      failureThreshold: this.options.circuitFailureThreshold,
+      resetMs: this.options.circuitResetMs,
+    };
+  }
+
+  get<T = unknown>(
+    url: string,
+    options: Omit<IHttpRequestOptions, 'url' | 'method'> = {},
+  ): Promise<IHttpResponse<T>> {
+    return this.request<T>({ ...options, url, method: 'GET' });
+  }
+
+  post<T = unknown>(
+    url: string,
+    body?: unknown,
+    options: Omit<IHttpRequestOptions, 'url' | 'method' | 'body'> = {},
+  ): Promise<IHttpResponse<T>> {
+    return this.request<T>({ ...options, url, method: 'POST', body });
+  }
+
+  put<T = unknown>(
+    url: string,
+    body?: unknown,
+    options: Omit<IHttpRequestOptions, 'url' | 'method' | 'body'> = {},
+  ): Promise<IHttpResponse<T>> {
+    return this.request<T>({ ...options, url, method: 'PUT', body });
+  }
+
+  patch<T = unknown>(
+    url: string,
+    body?: unknown,
+    options: Omit<IHttpRequestOptions, 'url' | 'method' | 'body'> = {},
+  ): Promise<IHttpResponse<T>> {
+    return this.request<T>({ ...options, url, method: 'PATCH', body });
+  }
+
+  delete<T = unknown>(
+    url: string,
+    options: Omit<IHttpRequestOptions, 'url' | 'method'> = {},
+  ): Promise<IHttpResponse<T>> {
+    return this.request<T>({ ...options, url, method: 'DELETE' });
+  }
+
+  /**
+   * Send a request with retries and circuit breaking.
+   * @throws UpstreamServiceDomainException when the call fails or returns an unaccepted status
+   */
+  async request<T = unknown>(
+    options: IHttpRequestOptions,
+  ): Promise<IHttpResponse<T>> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    const url = new URL(options.url);
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.append(name, String(value));
+      }
+    }
+
+    const service = options.service ?? url.host;
+    const retries =
+      options.retries ??
+      (IDEMPOTENT_METHODS.includes(method) ? this.options.retries : 0);
+    const validateStatus =
+      options.validateStatus ?? ((status: number) => status < 400);
+    const startTime = Date.now();
+    const call: IUpstreamCall = {
+      service,
+      method,
+      url: `${url.origin}${url.pathname}`,
+      latencyMs: 0,
+      attempts: 0,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      if (!this.acquireCircuit(service)) {
+        throw this.fail(call, url, startTime, options, {
+          reason: UpstreamFailureReason.CIRCUIT_OPEN,
+          error: undefined,
+        });
+      }
+
+      call.attempts = attempt + 1;
+      const result = await this.attempt(method, url, call, options, attempt);
+
+      const isFailure = 'reason' in result || result.status >= 500;
+      this.recordCircuit(service, !isFailure);
+
+      if ('status' in result && validateStatus(result.status)) {
+        call.status = result.status;
+        call.latencyMs = Date.now() - startTime;
+        this.logger.log(
+          `🌐 ${method} ${call.url} → ${result.status} (${call.latencyMs}ms)`,
+          this.buildLogContext(call, url, options),
+        );
+        return {
+          status: result.status,
+          headers: result.headers,
+          data: result.data as T,
+          latencyMs: call.latencyMs,
+          attempts: call.attempts,
+        };
+      }
+
+      const retryable = 'reason' in result || isRetryableStatus(result.status);
+      // Stop early when this failure opened the circuit
+      const circuitOpen =
+        this.circuits.get(service)?.state === CircuitState.OPEN;
+      if (!retryable || attempt >= retries || circuitOpen) {
+        throw this.fail(call, url, startTime, options, result);
+      }
+
+      const delay =
+        ('status' in result
+          ? parseRetryAfter(result.headers.get('retry-after'))
+          : undefined) ??
+        computeRetryDelay(
+          attempt,
+          this.options.retryBaseDelayMs,
+          this.options.retryMaxDelayMs,
+        );
+      const waitMs = Math.min(delay, this.options.retryMaxDelayMs);
+      this.logger.warn(
+        `🔁 Retrying ${method} ${call.url} (${'status' in result ? result.status : result.reason}) in ${waitMs}ms, attempt ${attempt + 2}/${retries + 1}`,
+        { service, attempt: attempt + 1 },
+      );
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Run one attempt inside a CLIENT span. Caller aborts are rethrown as-is.
+   */
+  private async attempt(
+    method: string,
+    url: URL,
+    call: IUpstreamCall,
+    options: IHttpRequestOptions,
+    attempt: number,
+  ): Promise<AttemptResult> {
+    const span = this.tracingService.startSpan(
+      method,
+      SpanKind.CLIENT,
+      getActiveTraceContext(),
+    );
+    const timeoutSignal = AbortSignal.timeout(
+      options.timeoutMs ?? this.options.timeoutMs,
+    );
+    const { body, contentType } = this.serializeBody(options.body);
+
+    let result: AttemptResult;
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          ...this.buildPropagationHeaders(span.context),
+          ...(contentType ? { 'content-type': contentType } : {}),
+          ...options.headers,
+        },
+        body,
+        signal: options.signal
+          ? AbortSignal.any([timeoutSignal, options.signal])
+          : timeoutSignal,
+      });
+      result = {
+        status: response.status,
+        headers: response.headers,
+        data: await this.parseBody(method, response),
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        this.tracingService.endSpan(span, {}, { code: SpanStatusCode.ERROR });
+        this.releaseCircuitTrial(call.service);
+        throw error;
+      }
+      result = {
+        reason: timeoutSignal.aborted
+          ? UpstreamFailureReason.TIMEOUT
+          : UpstreamFailureReason.NETWORK,
+        error,
+      };
+    }
+
+    const failed = 'reason' in result || result.status >= 400;
+    this.tracingService.endSpan(
+      span,
+      {
+        'http.request.method': method,
+        'url.full': call.url,
+        'server.address': url.hostname,
+        'server.port': url.port ? Number(url.port) : undefined,
+        'peer.service': call.service,
+        'http.response.status_code':
+          'status' in result ? result.status : undefined,
+        'http.request.resend_count': attempt > 0 ? attempt : undefined,
+        'error.type':
+          'reason' in result
+            ? result.reason
+            : failed
+              ? String(result.status)
+              : undefined,
+      },
+      { code: failed ? SpanStatusCode.ERROR : SpanStatusCode.UNSET },
+    );
+    return result;
+  }
+
+  /**
+   * Correlation and trace headers of the current request.
+   */
+  private buildPropagationHeaders(
+    spanContext: Parameters<typeof formatTraceparent>[0],
+  ): Record<string, string> {
+    const context = RequestContextService.current();
+    return {
+      ...(context
+        ? {
+            [CORRELATION_ID_HEADER]: context.correlationId,
+            [REQUEST_ID_HEADER]: context.requestId,
+          }
+        : {}),
+      [TRACEPARENT_HEADER]: formatTraceparent(spanContext),
+      ...(spanContext.traceState
+        ? { [TRACESTATE_HEADER]: spanContext.traceState }
+        : {}),
+    };
+  }
+
+  /**
+   * Plain objects and arrays are sent as JSON; other bodies are passed through.
+   */
+  private serializeBody(body: unknown): {
+    body?: RequestInit['body'];
+    contentType?: string;
+  } {
+    if (body === undefined || body === null) {
+      return {};
+    }
+    if (
+      typeof body === 'string' ||
+      body instanceof URLSearchParams ||
+      body instanceof FormData ||
+      body instanceof Blob ||
+      body instanceof ArrayBuffer ||
+      ArrayBuffer.isView(body)
+    ) {
+      return { body: body as RequestInit['body'] };
+    }
+    return { body: JSON.stringify(body), contentType: 'application/json' };
+  }
+
+  /**
+   * JSON bodies are parsed (falling back to text when malformed), others read as text.
+   */
+  private async parseBody(
+    method: string,
+    response: Response,
+  ): Promise<unknown> {
+    if (method === 'HEAD' || [204, 304].includes(response.status)) {
+      await response.body?.cancel();
+      return undefined;
+    }
+
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+    if (!response.headers.get('content-type')?.includes('json')) {
+      return text;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return text;
+    }
+  }
+
+  /**
+   * Build the exception for a failed call and log it.
+   */
+  private fail(
+    call: IUpstreamCall,
+    url: URL,
+    startTime: number,
+    options: IHttpRequestOptions,
+    result: AttemptResult,
+  ): UpstreamServiceDomainException {
+    const isStatus = 'status' in result;
+    const failure = {
+      ...call,
+      status: isStatus ? result.status : undefined,
+      latencyMs: Date.now() - startTime,
+      reason: isStatus ? UpstreamFailureReason.HTTP_STATUS : result.reason,
+    };
+
+    this.logger.warn(
+      `🌐 ${call.method} ${call.url} failed: ${failure.status ?? failure.reason} (${failure.latencyMs}ms, ${call.attempts} attempt(s))`,
+      {
+        ...this.buildLogContext(failure, url, options),
+        ...(isStatus && this.options.logBodies && result.data !== undefined
+          ? { responseBody: maskSensitiveData(result.data) }
+          : {}),
+        ...(!isStatus && result.error instanceof Error
+          ? { error: result.error.message }
+          : {}),
+      },
+    );
+
+    return new UpstreamServiceDomainException(failure, {
+      cause: isStatus ? undefined : result.error,
+    });
+  }
+
+  private buildLogContext(
+    call: IUpstreamCall,
+    url: URL,
+    options: IHttpRequestOptions,
+  ): Record<string, unknown> {
+    const query = Object.fromEntries(url.searchParams);
+    return {
+      upstream: call,
+      ...(Object.keys(query).length > 0
+        ? { query: maskSensitiveData(query) }
+        : {}),
+      ...(options.headers
+        ? {
+            requestHeaders: maskSensitiveData(
+              options.headers,
+              SENSITIVE_HEADERS,
+            ),
+          }
+        : {}),
+      ...(this.options.logBodies &&
+      options.body !== undefined &&
+      typeof options.body === 'object'
+        ? { requestBody: maskSensitiveData(options.body) }
+        : {}),
+    };
+  }
+
+  private acquireCircuit(service: string): boolean {
+    const step = acquireCircuit(
+      this.circuits.get(service) ?? createCircuitBreakerState(),
+      this.circuitRule,
+      Date.now(),
+    );
+    this.circuits.set(service, step.state);
+    return step.allowed;
+  }
+
+  private recordCircuit(service: string, success: boolean): void {
+    const state = this.circuits.get(service) ?? createCircuitBreakerState();
+    const next = recordCircuitResult(
+      state,
+      success,
+      this.circuitRule,
+      Date.now(),
+    );
+    if (next.state !== state.state) {
+      this.logger.warn(
+        `⚡ Circuit of ${service}: ${state.state} → ${next.state}`,
+      );
+    }
+    this.circuits.set(service, next);
+  }
+
+  /** A caller abort decides nothing; let the next call be the trial */
+  private releaseCircuitTrial(service: string): void {
+    const state = this.circuits.get(service);
+    if (state?.trialInFlight) {
+      this.circuits.set(service, { ...state, trialInFlight: false });
+    }
+  }
+}
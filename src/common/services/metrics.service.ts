@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import { ErrorCategory } from '../enums/error-category.enum';
+import { IRequestMetric } from '../interfaces/request-metric.interface';
+
+/**
+ * Prometheus metrics fed by TransformInterceptor, AllExceptionsFilter
+ * and MetricsMiddleware. Exposed in text format by MetricsController.
+ */
+@Injectable()
+export class MetricsService {
+  readonly enabled: boolean;
+  private readonly registry = new Registry();
+
+  private readonly requestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request duration in seconds',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  private readonly errors = new Counter({
+    name: 'http_errors_total',
+    help: 'HTTP error responses by error category',
+    labelNames: ['method', 'route', 'status_code', 'category'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly slowRequests = new Counter({
+    name: 'http_slow_requests_total',
+    help: 'Requests exceeding the slow request threshold',
+    labelNames: ['method', 'route'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly inFlight = new Gauge({
+    name: 'http_requests_in_flight',
+    help: 'HTTP requests currently being processed',
+    registers: [this.registry],
+  });
+
+  constructor(configService: ConfigService) {
+    this.enabled = configService.get<boolean>('METRICS_ENABLED', true);
+
+    if (this.enabled) {
+      collectDefaultMetrics({ register: this.registry });
+    }
+  }
+
+  /** Content type of the exposition format */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Render all metrics in Prometheus text format.
+   */
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /**
+   * Track a request as in flight; the returned callback ends tracking.
+   */
+  startRequest(): () => void {
+    if (!this.enabled) {
+      return () => undefined;
+    }
+
+    this.inFlight.inc();
+    return () => this.inFlight.dec();
+  }
+
+  /**
+   * Record duration (and slowness) of a completed request.
+   */
+  observeRequest(metric: IRequestMetric, isSlow: boolean): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const { method, route, statusCode, durationMs } = metric;
+    this.requestDuration.observe(
+      { method, route, status_code: statusCode },
+      durationMs / 1000,
+    );
+
+    if (isSlow) {
+      this.slowRequests.inc({ method, route });
+    }
+  }
+
+  /**
+   * Record a failed request with its error category.
+   */
+  observeError(
+    metric: IRequestMetric,
+    category: ErrorCategory,
+    isSlow: boolean,
+  ): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.observeRequest(metric, isSlow);
+    this.errors.inc({
+      method: metric.method,
+      route: metric.route,
+      status_code: metric.statusCode,
+      category,
+    });
+  }
+}
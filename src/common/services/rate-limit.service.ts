@@ -0,0 +1,165 @@
+import { ExecutionContext, Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { Response } from 'express';
+import { getRateLimitOptions } from '../config/rate-limit.config';
+import {
+  RATE_LIMIT_KEY,
+  RateLimitDecoratorOptions,
+} from '../decorators/rate-limit.decorator';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+import { TooManyRequestsDomainException } from '../exceptions/too-many-requests-domain.exception';
+import { IRateLimitOptions } from '../interfaces/rate-limit-options.interface';
+import {
+  IRateLimitResult,
+  IRateLimitRule,
+} from '../interfaces/rate-limit-rule.interface';
+import { RATE_LIMIT_STORE } from '../interfaces/rate-limit-store.interface';
+import type { IRateLimitStore } from '../interfaces/rate-limit-store.interface';
+import { IRequestWithRequestId } from '../interfaces/request.interface';
+import { getClientIpInfo } from '../utils/ip.util';
+
+/**
+ * Resolves and enforces @RateLimit() rules and the optional global limit.
+ *
+ * Shared by RateLimitGuard (IP, API key and route limits, checked before any
+ * other guard) and RateLimitInterceptor (user limits, checked once authentication
+ * guards have set `request.user`).
+ *
+ * Features:
+ * - Fixed-window, sliding-window and token-bucket algorithms
+ * - IETF RateLimit-Limit/Remaining/Reset/Policy and Retry-After headers
+ * - Localized 429 errors (TooManyRequestsDomainException) via AllExceptionsFilter
+ * - Fails open when the store is unavailable
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly options: IRateLimitOptions;
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(RATE_LIMIT_STORE) private readonly store: IRateLimitStore,
+    configService: ConfigService,
+  ) {
+    this.options = getRateLimitOptions(configService);
+  }
+
+  /**
+   * Route/controller rule completed with the defaults, else the global rule.
+   * Counters of decorated routes are namespaced per handler unless named.
+   * @returns undefined when limiting is disabled, skipped or not HTTP
+   */
+  resolveRule(context: ExecutionContext): IRateLimitRule | undefined {
+    if (!this.options.enabled || context.getType() !== 'http') {
+      return undefined;
+    }
+
+    const metadata = this.reflector.getAllAndOverride<
+      RateLimitDecoratorOptions | false | undefined
+    >(RATE_LIMIT_KEY, [context.getHandler(), context.getClass()]);
+
+    if (metadata === false) {
+      return undefined;
+    }
+    if (!metadata) {
+      return this.options.globalRule;
+    }
+
+    return {
+      ...this.options.defaults,
+      name: `${context.getClass().name}.${context.getHandler().name}`,
+      ...metadata,
+    };
+  }
+
+  /**
+   * Counts the request against the rule and sets the RateLimit-* headers.
+   * @throws TooManyRequestsDomainException when the limit is exceeded
+   */
+  async enforce(
+    context: ExecutionContext,
+    rule: IRateLimitRule,
+  ): Promise<void> {
+    const request = context.switchToHttp().getRequest<IRequestWithRequestId>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = `${rule.name}:${this.resolveIdentity(request, rule)}`;
+
+    let result: IRateLimitResult;
+    try {
+      result = await this.store.consume(key, rule);
+    } catch (error) {
+      this.logger.warn(
+        `Rate limit store unavailable, request allowed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return;
+    }
+
+    // RateLimitInterceptor runs after @Sse() routes have written their headers
+    const canSetHeaders = !response.headersSent;
+    if (this.options.headersEnabled && canSetHeaders) {
+      this.setHeaders(response, rule, result);
+    }
+
+    if (!result.allowed) {
+      const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+      if (canSetHeaders) {
+        response.setHeader('Retry-After', retryAfter);
+      }
+
+      throw new TooManyRequestsDomainException({
+        args: { retryAfter },
+        details: { limit: rule.limit, retryAfter },
+      });
+    }
+  }
+
+  /**
+   * Identity the rule counts against. User and API key limits fall back
+   * to the client IP for anonymous requests.
+   */
+  private resolveIdentity(
+    request: IRequestWithRequestId,
+    rule: IRateLimitRule,
+  ): string {
+    if (rule.keyBy === RateLimitKey.ROUTE) {
+      return 'route';
+    }
+
+    if (rule.keyBy === RateLimitKey.USER) {
+      const user = (request as { user?: { id?: unknown; sub?: unknown } }).user;
+      const userId = user?.id ?? user?.sub;
+      if (typeof userId === 'string' || typeof userId === 'number') {
+        return `user:${userId}`;
+      }
+    }
+
+    if (rule.keyBy === RateLimitKey.API_KEY) {
+      const apiKey = request.headers[this.options.apiKeyHeader];
+      if (typeof apiKey === 'string' && apiKey) {
+        // Never keep raw secrets in store keys
+        return `key:${createHash('sha256').update(apiKey).digest('hex').substring(0, 32)}`;
+      }
+    }
+
+    return `ip:${getClientIpInfo(request).address || 'unknown'}`;
+  }
+
+  /**
+   * Set RateLimit-* headers (draft-ietf-httpapi-ratelimit-headers).
+   */
+  private setHeaders(
+    response: Response,
+    rule: IRateLimitRule,
+    result: IRateLimitResult,
+  ): void {
+    response.setHeader('RateLimit-Limit', result.limit);
+    response.setHeader('RateLimit-Remaining', result.remaining);
+    response.setHeader('RateLimit-Reset', Math.ceil(result.resetMs / 1000));
+    response.setHeader(
+      'RateLimit-Policy',
+      `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`,
+    );
+  }
+}
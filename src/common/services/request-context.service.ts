@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { IRequestContext } from '../interfaces/request-context.interface';
+import { ITraceContext } from '../interfaces/trace-context.interface';
+
+const requestContextStorage = new AsyncLocalStorage<IRequestContext>();
+
+/**
+ * Access to the current request's context (IDs, language, user, trace) from any
+ * service, repository or callback without threading the request object through.
+ * The context is populated by CorrelationIdMiddleware and enriched by
+ * TransformInterceptor/AllExceptionsFilter.
+ *
+ * Static accessors are available for code outside the DI container (e.g. winston formats).
+ *
+ * @example
+ * constructor(private readonly requestContext: RequestContextService) {}
+ * this.logger.log(`Order created for ${this.requestContext.correlationId}`);
+ */
+@Injectable()
+export class RequestContextService {
+  /**
+   * Run a callback inside the given context.
+   */
+  static run<R>(context: IRequestContext, callback: () => R): R {
+    return requestContextStorage.run(context, callback);
+  }
+
+  /**
+   * Context of the current async execution, undefined outside a request.
+   */
+  static current(): IRequestContext | undefined {
+    return requestContextStorage.getStore();
+  }
+
+  /**
+   * Merge values into the current context. No-op outside a request.
+   */
+  static update(values: Partial<IRequestContext>): void {
+    const context = requestContextStorage.getStore();
+    if (context) {
+      Object.assign(context, values);
+    }
+  }
+
+  /**
+   * Bind a callback to the current context so it keeps it when invoked later,
+   * e.g. from an event emitter or a queue that loses the async chain.
+   */
+  static bind<A extends unknown[], R>(
+    callback: (...args: A) => R,
+  ): (...args: A) => R {
+    return AsyncLocalStorage.bind(callback);
+  }
+
+  /** Context of the current request, undefined outside a request */
+  get context(): IRequestContext | undefined {
+    return RequestContextService.current();
+  }
+
+  get requestId(): string | undefined {
+    return this.context?.requestId;
+  }
+
+  get correlationId(): string | undefined {
+    return this.context?.correlationId;
+  }
+
+  get lang(): string | undefined {
+    return this.context?.lang;
+  }
+
+  get user(): unknown {
+    return this.context?.user;
+  }
+
+  get startTime(): number | undefined {
+    return this.context?.startTime;
+  }
+
+  get traceContext(): ITraceContext | undefined {
+    return this.context?.traceContext;
+  }
+
+  /**
+   * Set the authenticated user, e.g. from a custom guard or strategy.
+   */
+  setUser(user: unknown): void {
+    RequestContextService.update({ user });
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { performance } from 'perf_hooks';
+import { SpanKind } from '../enums/span-kind.enum';
+import { SpanStatusCode } from '../enums/span-status-code.enum';
+import { ISpan, SpanAttributeValue } from '../interfaces/span.interface';
+import {
+  ISpanExporter,
+  SPAN_EXPORTER,
+} from '../interfaces/span-exporter.interface';
+import { ITraceContext } from '../interfaces/trace-context.interface';
+import {
+  generateSpanId,
+  generateTraceId,
+  isSampled,
+  SAMPLED_FLAG,
+} from '../utils/trace-context.util';
+
+/** Spans buffered before an export is triggered */
+const MAX_EXPORT_BATCH_SIZE = 64;
+
+/** Interval in milliseconds at which buffered spans are exported */
+const EXPORT_INTERVAL_MS = 5000;
+
+/**
+ * Creates spans and hands sampled, finished spans to the configured exporter in batches.
+ * Spans are created even without an exporter so trace IDs can still be logged and propagated.
+ */
+@Injectable()
+export class TracingService implements OnApplicationShutdown {
+  private readonly logger = new Logger(TracingService.name);
+  private readonly sampleRatio: number;
+  private buffer: ISpan[] = [];
+  private readonly timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    configService: ConfigService,
+    @Optional()
+    @Inject(SPAN_EXPORTER)
+    private readonly exporter?: ISpanExporter | null,
+  ) {
+    this.sampleRatio = configService.get<number>('TRACING_SAMPLE_RATIO', 1);
+
+    if (this.exporter) {
+      this.timer = setInterval(() => void this.flush(), EXPORT_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Start a span as child of `parent`, or as root of a new trace when there is none.
+   * Parent sampling decisions are respected; new traces use TRACING_SAMPLE_RATIO.
+   * @param name - Span name
+   * @param kind - Span kind
+   * @param parent - Remote parent (from `traceparent`) or a local parent span context
+   */
+  startSpan(name: string, kind: SpanKind, parent?: ITraceContext): ISpan {
+    const context: ITraceContext = parent
+      ? {
+          traceId: parent.traceId,
+          spanId: generateSpanId(),
+          parentSpanId: parent.spanId,
+          traceFlags: parent.traceFlags,
+          traceState: parent.traceState,
+        }
+      : {
+          traceId: generateTraceId(),
+          spanId: generateSpanId(),
+          traceFlags: Math.random() < this.sampleRatio ? SAMPLED_FLAG : 0,
+        };
+
+    return {
+      name,
+      kind,
+      context,
+      startTime: now(),
+      attributes: {},
+      status: { code: SpanStatusCode.UNSET },
+    };
+  }
+
+  /**
+   * End a span and queue it for export when sampled.
+   * @param span - Span to end
+   * @param attributes - Attributes known only at the end (route, status, ...)
+   * @param status - Outcome of the operation
+   */
+  endSpan(
+    span: ISpan,
+    attributes: Record<string, SpanAttributeValue | undefined> = {},
+    status: ISpan['status'] = { code: SpanStatusCode.UNSET },
+  ): void {
+    if (span.endTime !== undefined) {
+      return;
+    }
+
+    span.endTime = now();
+    span.status = status;
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        span.attributes[key] = value;
+      }
+    }
+
+    if (!this.exporter || !isSampled(span.context)) {
+      return;
+    }
+
+    this.buffer.push(span);
+    if (this.buffer.length >= MAX_EXPORT_BATCH_SIZE) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Export buffered spans. Export failures are logged, never thrown.
+   */
+  async flush(): Promise<void> {
+    if (!this.exporter || this.buffer.length === 0) {
+      return;
+    }
+
+    const spans = this.buffer;
+    this.buffer = [];
+
+    try {
+      await this.exporter.export(spans);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to export ${spans.length} span(s): ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+    await this.exporter?.shutdown?.();
+  }
+}
+
+/**
+ * Current time in milliseconds since epoch with sub-millisecond precision.
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
@@ -0,0 +1,83 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import { IdempotencyStatus } from '../enums/idempotency-status.enum';
+import {
+  IIdempotencyRecord,
+  IIdempotentResponse,
+} from '../interfaces/idempotency-record.interface';
+import { IIdempotencyStore } from '../interfaces/idempotency-store.interface';
+
+/** Interval of the sweep removing expired keys */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Process-local idempotency store (default).
+ * Records are not shared between instances; register a shared store under
+ * IDEMPOTENCY_STORE when running more than one instance.
+ */
+export class InMemoryIdempotencyStore
+  implements IIdempotencyStore, OnModuleDestroy
+{
+  private readonly records = new Map<
+    string,
+    { record: IIdempotencyRecord; expiresAt: number }
+  >();
+  private readonly sweepTimer = setInterval(
+    () => this.sweep(),
+    SWEEP_INTERVAL_MS,
+  ).unref();
+
+  acquire(
+    key: string,
+    fingerprint: string,
+    ttlMs: number,
+  ): Promise<IIdempotencyRecord | undefined> {
+    const entry = this.records.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return Promise.resolve(entry.record);
+    }
+
+    this.records.set(key, {
+      record: { status: IdempotencyStatus.IN_FLIGHT, fingerprint },
+      expiresAt: Date.now() + ttlMs,
+    });
+    return Promise.resolve(undefined);
+  }
+
+  complete(
+    key: string,
+    response: IIdempotentResponse,
+    ttlMs: number,
+  ): Promise<void> {
+    const entry = this.records.get(key);
+    if (entry) {
+      this.records.set(key, {
+        record: {
+          ...entry.record,
+          status: IdempotencyStatus.COMPLETED,
+          response,
+        },
+        expiresAt: Date.now() + ttlMs,
+      });
+    }
+    return Promise.resolve();
+  }
+
+  release(key: string): Promise<void> {
+    this.records.delete(key);
+    return Promise.resolve();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  /** Drop keys whose record expired */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.records) {
+      if (entry.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
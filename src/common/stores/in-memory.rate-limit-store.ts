@@ -0,0 +1,65 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import {
+  IRateLimitResult,
+  IRateLimitRule,
+} from '../interfaces/rate-limit-rule.interface';
+import { IRateLimitStore } from '../interfaces/rate-limit-store.interface';
+import {
+  consumeRateLimit,
+  getRateLimitStateTtl,
+  RateLimitState,
+} from '../utils/rate-limit.util';
+
+/** Interval of the sweep removing expired keys */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Process-local rate limit store (default).
+ * Counters are not shared between instances; register a shared store under
+ * RATE_LIMIT_STORE when running more than one instance.
+ */
+export class InMemoryRateLimitStore
+  implements IRateLimitStore, OnModuleDestroy
+{
+  private readonly entries = new Map<
+    string,
+    { state: RateLimitState; expiresAt: number }
+  >();
+  private readonly sweepTimer = setInterval(
+    () => this.sweep(),
+    SWEEP_INTERVAL_MS,
+  ).unref();
+
+  consume(key: string, rule: IRateLimitRule): Promise<IRateLimitResult> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > now ? entry.state : undefined;
+
+    const { state, result } = consumeRateLimit(current, rule, now);
+    this.entries.set(key, {
+      state,
+      expiresAt: now + getRateLimitStateTtl(rule),
+    });
+
+    return Promise.resolve(result);
+  }
+
+  reset(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  /** Drop keys whose state expired */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
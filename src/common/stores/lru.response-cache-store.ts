@@ -0,0 +1,116 @@
+import {
+  ICachedResponse,
+  IResponseCacheStore,
+} from '../interfaces/response-cache-store.interface';
+import { IResponseCacheOptions } from '../interfaces/response-cache-options.interface';
+
+interface LruEntry {
+  response: ICachedResponse;
+  expiresAt: number;
+  size: number;
+}
+
+/**
+ * Process-local LRU response cache (default).
+ * Bounded by entry count and serialized size; the least recently read entries
+ * are dropped first. Entries are not shared between instances; register a
+ * shared store under RESPONSE_CACHE_STORE when running more than one instance.
+ */
+export class LruResponseCacheStore implements IResponseCacheStore {
+  /** Map iteration order is insertion order: oldest (least recent) first */
+  private readonly entries = new Map<string, LruEntry>();
+  private readonly keysByTag = new Map<string, Set<string>>();
+  private totalSize = 0;
+
+  constructor(
+    private readonly limits: Pick<
+      IResponseCacheOptions,
+      'maxEntries' | 'maxSizeBytes'
+    >,
+  ) {}
+
+  get(key: string): Promise<ICachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(undefined);
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return Promise.resolve(undefined);
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.response);
+  }
+
+  set(key: string, response: ICachedResponse, ttlMs: number): Promise<void> {
+    this.delete(key);
+
+    const size = this.measure(response.data);
+    // Unserializable or oversized payloads are not cached
+    if (size === undefined || size > this.limits.maxSizeBytes) {
+      return Promise.resolve();
+    }
+
+    this.entries.set(key, { response, expiresAt: Date.now() + ttlMs, size });
+    this.totalSize += size;
+    for (const tag of response.tags) {
+      const keys = this.keysByTag.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.keysByTag.set(tag, keys);
+    }
+
+    for (const oldestKey of this.entries.keys()) {
+      if (
+        this.entries.size <= this.limits.maxEntries &&
+        this.totalSize <= this.limits.maxSizeBytes
+      ) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+    return Promise.resolve();
+  }
+
+  invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) ?? []) {
+        if (this.delete(key)) {
+          removed++;
+        }
+      }
+    }
+    return Promise.resolve(removed);
+  }
+
+  /** Remove an entry and its tag references */
+  private delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.totalSize -= entry.size;
+    for (const tag of entry.response.tags) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.keysByTag.delete(tag);
+      }
+    }
+    return true;
+  }
+
+  /** Approximate memory footprint: UTF-8 length of the JSON payload */
+  private measure(data: unknown): number | undefined {
+    try {
+      return Buffer.byteLength(JSON.stringify(data ?? null));
+    } catch {
+      return undefined;
+    }
+  }
+}
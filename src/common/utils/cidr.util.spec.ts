@@ -0,0 +1,40 @@
+import { createIpMatcher, parseCidrList } from './cidr.util';
+
+describe('createIpMatcher', () => {
+  const matches = createIpMatcher(['10.0.0.0/8', '192.168.1.7', 'fd00::/8']);
+
+  it('should match IPv4 ranges and single addresses', () => {
+    expect(matches('10.20.30.40')).toBe(true);
+    expect(matches('192.168.1.7')).toBe(true);
+    expect(matches('192.168.1.8')).toBe(false);
+  });
+
+  it('should match IPv4-mapped IPv6 addresses against IPv4 ranges', () => {
+    expect(matches('::ffff:10.0.0.1')).toBe(true);
+  });
+
+  it('should match IPv6 ranges', () => {
+    expect(matches('fd12:3456::1')).toBe(true);
+    expect(matches('2001:db8::1')).toBe(false);
+  });
+
+  it('should never match missing or invalid addresses', () => {
+    expect(matches(undefined)).toBe(false);
+    expect(matches('not-an-ip')).toBe(false);
+  });
+
+  it('should reject invalid ranges', () => {
+    expect(() => createIpMatcher(['10.0.0.0/33'])).toThrow();
+    expect(() => createIpMatcher(['example.com'])).toThrow();
+  });
+});
+
+describe('parseCidrList', () => {
+  it('should split and trim comma separated ranges', () => {
+    expect(parseCidrList(' 10.0.0.0/8, ,fd00::/8 ')).toEqual([
+      '10.0.0.0/8',
+      'fd00::/8',
+    ]);
+    expect(parseCidrList(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { BlockList, isIP } from 'net';
+
+/**
+ * Checks an IP address against a set of CIDR ranges.
+ */
+export type IpMatcher = (ip: string | undefined) => boolean;
+
+/**
+ * Creates a matcher for the given CIDR ranges.
+ * IPv4 and IPv6 are supported; IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`)
+ * match IPv4 ranges.
+ * @param cidrs - Ranges such as `10.0.0.0/8`, `fd00::/8` or single addresses
+ * @throws Error when an entry is not a valid address or prefix length
+ */
+export function createIpMatcher(cidrs: string[]): IpMatcher {
+  const blockList = new BlockList();
+
+  for (const entry of cidrs) {
+    const [address, prefix] = entry.trim().split('/');
+    const version = isIP(address);
+    const maxPrefix = version === 6 ? 128 : 32;
+    const prefixLength = prefix === undefined ? maxPrefix : Number(prefix);
+
+    if (
+      version === 0 ||
+      !Number.isInteger(prefixLength) ||
+      prefixLength < 0 ||
+      prefixLength > maxPrefix
+    ) {
+      throw new Error(`Invalid CIDR range "${entry}"`);
+    }
+
+    blockList.addSubnet(address, prefixLength, version === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  return (ip) => {
+    const version = ip ? isIP(ip) : 0;
+    if (!ip || version === 0) {
+      return false;
+    }
+    return blockList.check(ip, version === 6 ? 'ipv6' : 'ipv4');
+  };
+}
+
+/**
+ * Parses a comma separated list of CIDR ranges.
+ * @param value - e.g. `10.0.0.0/8, 192.168.0.0/16`
+ */
+export function parseCidrList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
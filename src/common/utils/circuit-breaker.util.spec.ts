@@ -0,0 +1,60 @@
+import { CircuitState } from '../enums/circuit-state.enum';
+import {
+  acquireCircuit,
+  createCircuitBreakerState,
+  ICircuitBreakerState,
+  recordCircuitResult,
+} from './circuit-breaker.util';
+
+const rule = { failureThreshold: 3, resetMs: 1000 };
+
+/** Records `count` failures at time `now` */
+const fail = (state: ICircuitBreakerState, count: number, now = 0) => {
+  for (let i = 0; i < count; i++) {
+    state = recordCircuitResult(state, false, rule, now);
+  }
+  return state;
+};
+
+describe('circuit breaker', () => {
+  it('should open after consecutive failures', () => {
+    const state = fail(createCircuitBreakerState(), 3, 100);
+
+    expect(state.state).toBe(CircuitState.OPEN);
+    expect(acquireCircuit(state, rule, 500).allowed).toBe(false);
+  });
+
+  it('should reset the failure count on success', () => {
+    let state = fail(createCircuitBreakerState(), 2);
+    state = recordCircuitResult(state, true, rule, 0);
+    state = fail(state, 2);
+
+    expect(state.state).toBe(CircuitState.CLOSED);
+  });
+
+  it('should allow a single trial call after the reset timeout', () => {
+    const open = fail(createCircuitBreakerState(), 3, 0);
+
+    const trial = acquireCircuit(open, rule, 1000);
+    expect(trial.allowed).toBe(true);
+    expect(trial.state.state).toBe(CircuitState.HALF_OPEN);
+    expect(acquireCircuit(trial.state, rule, 1001).allowed).toBe(false);
+  });
+
+  it('should close after a successful trial and reopen after a failed one', () => {
+    const { state: halfOpen } = acquireCircuit(
+      fail(createCircuitBreakerState(), 3, 0),
+      rule,
+      1000,
+    );
+
+    expect(recordCircuitResult(halfOpen, true, rule, 1100).state).toBe(
+      CircuitState.CLOSED,
+    );
+
+    const reopened = recordCircuitResult(halfOpen, false, rule, 1100);
+    expect(reopened.state).toBe(CircuitState.OPEN);
+    expect(acquireCircuit(reopened, rule, 1500).allowed).toBe(false);
+    expect(acquireCircuit(reopened, rule, 2100).allowed).toBe(true);
+  });
+});
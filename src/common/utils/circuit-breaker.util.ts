@@ -0,0 +1,99 @@
+import { CircuitState } from '../enums/circuit-state.enum';
+
+/** Circuit state kept per service */
+export interface ICircuitBreakerState {
+  state: CircuitState;
+
+  /** Consecutive failures while closed */
+  failures: number;
+
+  /** When the circuit opened (ms) */
+  openedAt: number;
+
+  /** Whether the half-open trial call is running */
+  trialInFlight: boolean;
+}
+
+/** Thresholds of a circuit breaker */
+export interface ICircuitBreakerRule {
+  /** Consecutive failures opening the circuit */
+  failureThreshold: number;
+
+  /** Time an open circuit rejects calls before allowing a trial */
+  resetMs: number;
+}
+
+/** New state and verdict of a circuit check */
+export interface ICircuitBreakerStep {
+  state: ICircuitBreakerState;
+  allowed: boolean;
+}
+
+/**
+ * Initial (closed) circuit.
+ */
+export function createCircuitBreakerState(): ICircuitBreakerState {
+  return {
+    state: CircuitState.CLOSED,
+    failures: 0,
+    openedAt: 0,
+    trialInFlight: false,
+  };
+}
+
+/**
+ * Decides whether a call may pass. An open circuit lets a single trial call
+ * through once `resetMs` has elapsed (half-open).
+ */
+export function acquireCircuit(
+  state: ICircuitBreakerState,
+  rule: ICircuitBreakerRule,
+  now: number,
+): ICircuitBreakerStep {
+  if (state.state === CircuitState.CLOSED) {
+    return { state, allowed: true };
+  }
+
+  const canTry =
+    state.state === CircuitState.OPEN
+      ? now - state.openedAt >= rule.resetMs
+      : !state.trialInFlight;
+  if (!canTry) {
+    return { state, allowed: false };
+  }
+
+  return {
+    state: { ...state, state: CircuitState.HALF_OPEN, trialInFlight: true },
+    allowed: true,
+  };
+}
+
+/**
+ * Records the outcome of a call. Successes close the circuit; failures open it
+ * once the threshold is reached, and immediately when the trial call fails.
+ */
+export function recordCircuitResult(
+  state: ICircuitBreakerState,
+  success: boolean,
+  rule: ICircuitBreakerRule,
+  now: number,
+): ICircuitBreakerState {
+  if (success) {
+    return createCircuitBreakerState();
+  }
+
+  const failures = state.failures + 1;
+  if (
+    state.state === CircuitState.HALF_OPEN ||
+    failures >= rule.failureThreshold
+  ) {
+    return {
+      state: CircuitState.OPEN,
+      failures,
+      openedAt: now,
+      trialInFlight: false,
+    };
+  }
+
+  return { ...state, failures };
+}
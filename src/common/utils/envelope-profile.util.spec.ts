@@ -0,0 +1,92 @@
+import { Request } from 'express';
+import { EnvelopeProfile } from '../enums/envelope-profile.enum';
+import {
+  applyEnvelopeProfile,
+  configureEnvelopeProfiles,
+  createDefaultEnvelopeProfileOptions,
+  resolveEnvelopeProfile,
+} from './envelope-profile.util';
+
+const mockRequest = (headers: Record<string, string> = {}): Request =>
+  ({ headers }) as unknown as Request;
+
+const meta = {
+  requestId: 'req-1',
+  correlationId: 'corr-1',
+  path: '/api/v1/items',
+  method: 'GET',
+  lang: 'en',
+  ipv4: '127.0.0.1',
+  ipv6: '::1',
+  duration: '5ms',
+  message: 'Request successful',
+  timestamp: '2024-02-06T12:00:00.000Z',
+};
+
+describe('resolveEnvelopeProfile', () => {
+  afterEach(() =>
+    configureEnvelopeProfiles(createDefaultEnvelopeProfileOptions()),
+  );
+
+  it('should prefer an allowed client header over route metadata', () => {
+    const request = mockRequest({ 'x-envelope-profile': 'Minimal' });
+
+    expect(resolveEnvelopeProfile(request, EnvelopeProfile.PUBLIC)).toBe(
+      EnvelopeProfile.MINIMAL,
+    );
+  });
+
+  it('should ignore profiles clients may not select', () => {
+    const request = mockRequest({ 'x-envelope-profile': 'full' });
+
+    expect(resolveEnvelopeProfile(request, EnvelopeProfile.PUBLIC)).toBe(
+      EnvelopeProfile.PUBLIC,
+    );
+  });
+
+  it('should fall back to the default profile', () => {
+    configureEnvelopeProfiles({
+      ...createDefaultEnvelopeProfileOptions(),
+      defaultProfile: EnvelopeProfile.PUBLIC,
+      header: undefined,
+    });
+    const request = mockRequest({ 'x-envelope-profile': 'minimal' });
+
+    expect(resolveEnvelopeProfile(request)).toBe(EnvelopeProfile.PUBLIC);
+  });
+});
+
+describe('applyEnvelopeProfile', () => {
+  it('should keep every field for the full profile', () => {
+    expect(applyEnvelopeProfile(meta, EnvelopeProfile.FULL)).toEqual(meta);
+  });
+
+  it('should keep only profile fields and always the message', () => {
+    expect(applyEnvelopeProfile(meta, EnvelopeProfile.MINIMAL)).toEqual({
+      requestId: 'req-1',
+      message: 'Request successful',
+    });
+    expect(
+      Object.keys(applyEnvelopeProfile(meta, EnvelopeProfile.PUBLIC)),
+    ).toEqual(['requestId', 'correlationId', 'lang', 'message', 'timestamp']);
+  });
+
+  it('should not touch fields outside the profile contract', () => {
+    const errorMeta = {
+      ...meta,
+      code: 'NOT_FOUND',
+      errorCategory: 'NOT_FOUND',
+    };
+
+    expect(applyEnvelopeProfile(errorMeta, EnvelopeProfile.MINIMAL)).toEqual({
+      requestId: 'req-1',
+      message: 'Request successful',
+      code: 'NOT_FOUND',
+      errorCategory: 'NOT_FOUND',
+    });
+  });
+
+  it('should fall back to the default profile for unknown names', () => {
+    expect(applyEnvelopeProfile(meta, 'unknown')).toEqual(meta);
+  });
+});
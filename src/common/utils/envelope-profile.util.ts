@@ -0,0 +1,116 @@
+import { Request } from 'express';
+import { EnvelopeProfile } from '../enums/envelope-profile.enum';
+import {
+  EnvelopeMetaField,
+  IEnvelopeProfileOptions,
+} from '../interfaces/envelope-profile-options.interface';
+
+/** Meta fields controlled by envelope profiles, in envelope order */
+export const ENVELOPE_META_FIELDS: EnvelopeMetaField[] = [
+  'requestId',
+  'correlationId',
+  'path',
+  'method',
+  'lang',
+  'ipv4',
+  'ipv6',
+  'duration',
+  'timestamp',
+  'cache',
+];
+
+/** Fields of the built-in profiles */
+export const BUILT_IN_ENVELOPE_PROFILES: Record<
+  EnvelopeProfile,
+  EnvelopeMetaField[]
+> = {
+  [EnvelopeProfile.FULL]: ENVELOPE_META_FIELDS,
+  [EnvelopeProfile.MINIMAL]: ['requestId'],
+  [EnvelopeProfile.PUBLIC]: ['requestId', 'correlationId', 'lang', 'timestamp'],
+};
+
+/** Default request header for client-selected profiles */
+export const DEFAULT_ENVELOPE_PROFILE_HEADER = 'x-envelope-profile';
+
+/**
+ * Builds the default settings: the full profile, clients may downgrade
+ * to `minimal` or `public` via X-Envelope-Profile.
+ */
+export function createDefaultEnvelopeProfileOptions(): IEnvelopeProfileOptions {
+  return {
+    defaultProfile: EnvelopeProfile.FULL,
+    profiles: { ...BUILT_IN_ENVELOPE_PROFILES },
+    header: DEFAULT_ENVELOPE_PROFILE_HEADER,
+    headerProfiles: [EnvelopeProfile.MINIMAL, EnvelopeProfile.PUBLIC],
+  };
+}
+
+/** Settings used by the helpers below; replaced by configureEnvelopeProfiles() */
+let envelopeProfileOptions = createDefaultEnvelopeProfileOptions();
+
+/**
+ * Configure envelope profiles.
+ * Called once at bootstrap by EnvelopeInfrastructureModule.
+ */
+export function configureEnvelopeProfiles(
+  options: IEnvelopeProfileOptions,
+): void {
+  envelopeProfileOptions = options;
+}
+
+/**
+ * Returns the header clients may use to select a profile, if enabled.
+ */
+export function getEnvelopeProfileHeader(): string | undefined {
+  return envelopeProfileOptions.header;
+}
+
+/**
+ * Resolve the envelope profile of a request.
+ * Priority: client header (allowed profiles only) > route/controller metadata > default.
+ * @param request - Incoming request
+ * @param routeProfile - Profile declared via @UseEnvelopeProfile()
+ */
+export function resolveEnvelopeProfile(
+  request: Request,
+  routeProfile?: string,
+): string {
+  const { header, headerProfiles, defaultProfile } = envelopeProfileOptions;
+
+  const requested = header ? request.headers[header] : undefined;
+  const clientProfile =
+    typeof requested === 'string' ? requested.trim().toLowerCase() : undefined;
+  if (clientProfile && headerProfiles.includes(clientProfile)) {
+    return clientProfile;
+  }
+
+  return routeProfile ?? defaultProfile;
+}
+
+/**
+ * Removes the meta fields a profile does not include.
+ * Unknown profiles fall back to the default profile.
+ * @param meta - Complete envelope meta
+ * @param profile - Profile name
+ * @returns A copy of meta restricted to the profile's fields
+ */
+export function applyEnvelopeProfile<M extends object>(
+  meta: M,
+  profile: string,
+): M {
+  const { profiles, defaultProfile } = envelopeProfileOptions;
+  const included = profiles[profile] ?? profiles[defaultProfile];
+
+  const excluded = ENVELOPE_META_FIELDS.filter(
+    (field) => !included.includes(field),
+  );
+  if (excluded.length === 0) {
+    return meta;
+  }
+
+  const result = { ...meta } as Record<string, unknown>;
+  for (const field of excluded) {
+    delete result[field];
+  }
+  return result as M;
+}
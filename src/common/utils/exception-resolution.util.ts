@@ -0,0 +1,128 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { I18nService, I18nValidationException } from 'nestjs-i18n';
+import { getErrorCategory } from '../enums/error-category.enum';
+import { getDefaultErrorCode } from '../enums/error-code.enum';
+import { DomainException } from '../exceptions/domain.exception';
+import { IResolvedError } from '../interfaces/resolved-error.interface';
+import { IValidationErrorDetail } from '../interfaces/validation-error-detail.interface';
+import {
+  collectValidationMessages,
+  flattenValidationErrors,
+  translateValidationErrors,
+} from './validation-errors.util';
+
+/** Exceptions of @nestjs/microservices and @nestjs/websockets, matched without importing them */
+const TRANSPORT_EXCEPTION_NAMES = ['RpcException', 'WsException'];
+
+function isTransportException(
+  exception: unknown,
+): exception is Error & { getError(): unknown } {
+  if (
+    !(exception instanceof Error) ||
+    typeof (exception as { getError?: unknown }).getError !== 'function'
+  ) {
+    return false;
+  }
+
+  // Subclasses (e.g. `class OrderRpcException extends RpcException`) match too
+  for (
+    let proto: unknown = Object.getPrototypeOf(exception);
+    proto && proto !== Error.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    if (
+      TRANSPORT_EXCEPTION_NAMES.includes(
+        (proto as { constructor: { name: string } }).constructor.name,
+      )
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Resolves status, translated message, category and code of an exception.
+ * @param exception - Anything thrown by a handler
+ * @param i18n - Translator for domain exception keys and validation messages
+ * @param lang - Response language
+ */
+export async function resolveException(
+  exception: unknown,
+  i18n: I18nService,
+  lang: string,
+): Promise<IResolvedError> {
+  let status: number = HttpStatus.INTERNAL_SERVER_ERROR;
+  let message: string | string[] = await i18n.translate(
+    'common.INTERNAL_SERVER_ERROR',
+    { lang },
+  );
+  let errorName = 'InternalServerError';
+  let errorCode: string | undefined;
+  let details: Record<string, unknown> | undefined;
+  let validationErrors: Record<string, IValidationErrorDetail[]> | undefined;
+
+  if (exception instanceof DomainException) {
+    // Domain exceptions carry an i18n key instead of a ready-made message
+    status = exception.getStatus();
+    errorName = exception.name;
+    errorCode = exception.code;
+    details = exception.details;
+    message = await i18n.translate(exception.i18nKey, {
+      lang,
+      args: exception.i18nArgs,
+    });
+  } else if (exception instanceof I18nValidationException) {
+    // Translate the ValidationError tree and key it by full property path
+    status = exception.getStatus();
+    errorName = exception.name;
+    validationErrors = flattenValidationErrors(
+      translateValidationErrors(exception.errors, i18n, lang),
+    );
+    message = collectValidationMessages(validationErrors);
+  } else if (exception instanceof HttpException) {
+    status = exception.getStatus();
+    errorName = exception.name;
+    const res = exception.getResponse();
+
+    if (typeof res === 'object' && res !== null) {
+      const resBody = res as { message?: string | string[]; error?: string };
+      message = resBody.message ?? resBody.error ?? 'Error';
+    } else if (typeof res === 'string') {
+      message = res;
+    }
+  } else if (isTransportException(exception)) {
+    // RpcException / WsException are thrown on purpose by handlers
+    status = HttpStatus.BAD_REQUEST;
+    errorName = exception.constructor.name;
+    const error = exception.getError();
+    message =
+      typeof error === 'string'
+        ? error
+        : ((error as { message?: string } | null)?.message ?? 'Error');
+  } else if (exception instanceof Error) {
+    errorName = exception.name;
+    // In production, raw Error messages can be a security risk
+    // but acceptable during development
+    message = exception.message;
+  }
+
+  // Domain exceptions declare category and code; others are derived from the status
+  const messageStr = Array.isArray(message) ? message.join(', ') : message;
+  const errorCategory =
+    exception instanceof DomainException
+      ? exception.category
+      : getErrorCategory(status, messageStr);
+  const code = errorCode ?? getDefaultErrorCode(status);
+
+  return {
+    status,
+    message,
+    messageStr,
+    errorName,
+    errorCategory,
+    code,
+    details,
+    validationErrors,
+  };
+}
@@ -0,0 +1,178 @@
+import { Request } from 'express';
+import { PreconditionFailedDomainException } from '../exceptions/precondition-failed-domain.exception';
+import { IRequestWithRequestId } from '../interfaces/request.interface';
+import {
+  assertPreconditions,
+  computeEtag,
+  computeResourceEtag,
+  formatCacheControl,
+  isNotModified,
+  matchesEtag,
+  toRepresentationData,
+} from './http-cache.util';
+import { MASK_STRING } from './mask.util';
+
+const mockRequest = (headers: Record<string, string> = {}): Request =>
+  ({ headers }) as unknown as Request;
+
+describe('computeEtag', () => {
+  it('should return a stable quoted strong ETag', () => {
+    const etag = computeEtag({ id: 1, name: 'a' });
+
+    expect(etag).toMatch(/^"[\w-]{27}"$/);
+    expect(computeEtag({ id: 1, name: 'a' })).toBe(etag);
+    expect(computeEtag({ id: 1, name: 'b' })).not.toBe(etag);
+  });
+
+  it('should handle empty payloads', () => {
+    expect(computeEtag(undefined)).toBe(computeEtag(null));
+  });
+});
+
+describe('computeResourceEtag', () => {
+  const redactionPolicy = { enabled: true, fields: [] };
+
+  it('should hash the data as served', () => {
+    const result = { message: 'Found', id: 1, password: 'p' };
+
+    expect(toRepresentationData(result, { redactionPolicy })).toEqual({
+      id: 1,
+      password: MASK_STRING,
+    });
+    expect(computeResourceEtag(result, { redactionPolicy })).toBe(
+      computeEtag({ id: 1, password: MASK_STRING }),
+    );
+  });
+
+  it('should unwrap paginated results to their items', () => {
+    const page = { items: [{ id: 1 }], limit: 20, total: 1, page: 1 };
+
+    expect(computeResourceEtag(page, { paginated: true })).toBe(
+      computeEtag([{ id: 1 }]),
+    );
+    expect(computeResourceEtag(page, {})).toBe(computeEtag(page));
+  });
+});
+
+describe('matchesEtag', () => {
+  it('should match lists and wildcards', () => {
+    expect(matchesEtag('"a", "b"', '"b"', false)).toBe(true);
+    expect(matchesEtag('*', '"b"', false)).toBe(true);
+    expect(matchesEtag('"a"', '"b"', true)).toBe(false);
+  });
+
+  it('should only ignore weak tags in weak comparison', () => {
+    expect(matchesEtag('W/"a"', '"a"', true)).toBe(true);
+    expect(matchesEtag('W/"a"', '"a"', false)).toBe(false);
+  });
+});
+
+describe('isNotModified', () => {
+  it('should compare If-None-Match with the current ETag', () => {
+    const etag = computeEtag([1, 2]);
+
+    expect(isNotModified(mockRequest({ 'if-none-match': etag }), etag)).toBe(
+      true,
+    );
+    expect(isNotModified(mockRequest({ 'if-none-match': '"x"' }), etag)).toBe(
+      false,
+    );
+    expect(isNotModified(mockRequest(), etag)).toBe(false);
+  });
+});
+
+describe('assertPreconditions', () => {
+  const data = { id: 1, version: 2 };
+  const etag = computeEtag(data);
+
+  it('should pass without conditional headers', () => {
+    expect(() => assertPreconditions(mockRequest(), { data })).not.toThrow();
+  });
+
+  it('should enforce If-Match against the data ETag', () => {
+    expect(() =>
+      assertPreconditions(mockRequest({ 'if-match': etag }), { data }),
+    ).not.toThrow();
+    expect(() =>
+      assertPreconditions(mockRequest({ 'if-match': '"stale"' }), { data }),
+    ).toThrow(PreconditionFailedDomainException);
+    expect(() =>
+      assertPreconditions(mockRequest({ 'if-match': `W/${etag}` }), { data }),
+    ).toThrow(PreconditionFailedDomainException);
+  });
+
+  it('should redact data with the route policy like GET responses', () => {
+    const settings = { id: 1, password: 'p' };
+    const servedEtag = computeEtag({ id: 1, password: MASK_STRING });
+    const request = Object.assign(mockRequest({ 'if-match': servedEtag }), {
+      redactionPolicy: { enabled: true, fields: [] },
+    }) as IRequestWithRequestId;
+
+    expect(() =>
+      assertPreconditions(request, { data: settings }),
+    ).not.toThrow();
+  });
+
+  it('should fail If-Match: * when the resource does not exist', () => {
+    expect(() =>
+      assertPreconditions(mockRequest({ 'if-match': '*' }), undefined),
+    ).toThrow(PreconditionFailedDomainException);
+    expect(() =>
+      assertPreconditions(mockRequest({ 'if-match': '*' }), { etag: '"v1"' }),
+    ).not.toThrow();
+  });
+
+  it('should compare If-Unmodified-Since with second precision', () => {
+    const lastModified = new Date('2026-01-01T10:00:00.500Z');
+    const request = (date: string) =>
+      mockRequest({ 'if-unmodified-since': date });
+
+    expect(() =>
+      assertPreconditions(request('Thu, 01 Jan 2026 10:00:00 GMT'), {
+        lastModified,
+      }),
+    ).not.toThrow();
+    expect(() =>
+      assertPreconditions(request('Thu, 01 Jan 2026 09:59:59 GMT'), {
+        lastModified,
+      }),
+    ).toThrow(PreconditionFailedDomainException);
+    expect(() =>
+      assertPreconditions(request('not a date'), { lastModified }),
+    ).not.toThrow();
+  });
+
+  it('should ignore If-Unmodified-Since when If-Match is present', () => {
+    const request = mockRequest({
+      'if-match': etag,
+      'if-unmodified-since': 'Thu, 01 Jan 1970 00:00:00 GMT',
+    });
+
+    expect(() =>
+      assertPreconditions(request, { data, lastModified: new Date() }),
+    ).not.toThrow();
+  });
+
+  it('should fail If-None-Match: * when the resource exists', () => {
+    const request = mockRequest({ 'if-none-match': '*' });
+
+    expect(() => assertPreconditions(request, { data })).toThrow(
+      PreconditionFailedDomainException,
+    );
+    expect(() => assertPreconditions(request, undefined)).not.toThrow();
+  });
+});
+
+describe('formatCacheControl', () => {
+  it('should format directives in a stable order', () => {
+    expect(
+      formatCacheControl({
+        maxAge: 60,
+        public: true,
+        staleWhileRevalidate: 30,
+      }),
+    ).toBe('public, max-age=60, stale-while-revalidate=30');
+    expect(formatCacheControl({ noStore: true })).toBe('no-store');
+    expect(formatCacheControl({})).toBe('');
+  });
+});
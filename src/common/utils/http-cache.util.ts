@@ -0,0 +1,197 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { PreconditionFailedDomainException } from '../exceptions/precondition-failed-domain.exception';
+import {
+  ICacheControlOptions,
+  IRepresentationOptions,
+  IResourceValidators,
+} from '../interfaces/cache-control-options.interface';
+import { IRequestWithRequestId } from '../interfaces/request.interface';
+import { isPaginatedResult } from './pagination.util';
+import { redactResponseData } from './redaction.util';
+
+/**
+ * Computes a strong ETag over a response payload.
+ * Only the data is hashed, so envelope fields that change on every request
+ * (requestId, timestamp, duration) do not defeat caching.
+ * @param data - Payload as sent in the `data` field
+ * @returns Quoted ETag, e.g. `"q1Kv..."`
+ */
+export function computeEtag(data: unknown): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify(data ?? null))
+    .digest('base64url')
+    .substring(0, 27);
+  return `"${hash}"`;
+}
+
+/**
+ * Turns a handler result into the payload sent in the `data` field:
+ * the `message` field is removed, @Paginated() results are unwrapped to
+ * their items and sensitive fields are redacted.
+ * @param data - Handler result
+ * @param options - Route settings the interceptor applies
+ * @returns The payload as served
+ */
+export function toRepresentationData(
+  data: unknown,
+  options: IRepresentationOptions,
+): unknown {
+  let representation = data;
+  if (data !== null && typeof data === 'object' && 'message' in data) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { message: _, ...rest } = data as Record<string, unknown>;
+    representation = rest;
+  }
+
+  if (options.paginated && isPaginatedResult(representation)) {
+    representation = representation.items;
+  }
+
+  return options.redactionPolicy
+    ? redactResponseData(representation, options.redactionPolicy)
+    : representation;
+}
+
+/**
+ * Computes the ETag TransformInterceptor sends for a handler result.
+ * @param data - Handler result, e.g. the resource loaded by a write handler
+ * @param options - Route settings the interceptor applies
+ * @returns Quoted ETag, equal to the one of the GET response
+ */
+export function computeResourceEtag(
+  data: unknown,
+  options: IRepresentationOptions,
+): string {
+  return computeEtag(toRepresentationData(data, options));
+}
+
+/**
+ * Splits an If-Match / If-None-Match header into entity tags.
+ */
+function parseEtagList(header: string): string[] {
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Checks whether a condition header lists the ETag.
+ * @param header - Raw If-Match / If-None-Match value
+ * @param etag - Current ETag
+ * @param weak - Weak comparison (If-None-Match) ignores `W/` prefixes; strong
+ *   comparison (If-Match) never matches weak tags
+ */
+export function matchesEtag(
+  header: string,
+  etag: string,
+  weak: boolean,
+): boolean {
+  const stripWeak = (tag: string) => tag.replace(/^W\//, '');
+
+  return parseEtagList(header).some((tag) => {
+    if (tag === '*') {
+      return true;
+    }
+    if (weak) {
+      return stripWeak(tag) === stripWeak(etag);
+    }
+    return !tag.startsWith('W/') && !etag.startsWith('W/') && tag === etag;
+  });
+}
+
+/**
+ * Whether a GET/HEAD request can be answered with 304 Not Modified.
+ * @param request - Incoming request
+ * @param etag - ETag of the current representation
+ */
+export function isNotModified(request: Request, etag: string): boolean {
+  const ifNoneMatch = request.headers['if-none-match'];
+  return !!ifNoneMatch && matchesEtag(ifNoneMatch, etag, true);
+}
+
+/**
+ * Evaluates write preconditions (RFC 9110 §13.2.2) against the current resource.
+ * Call it in PUT/PATCH/DELETE handlers after loading the resource, before changing it.
+ * `data` is what the GET handler returns; it is redacted with the current route's
+ * policy before hashing. Pass `etag: computeResourceEtag(...)` when the GET route
+ * is paginated or redacts other fields (see AppController).
+ * @param request - Incoming request
+ * @param current - Validators of the current resource (undefined if it does not exist)
+ * @throws PreconditionFailedDomainException (412) when a precondition fails
+ *
+ * @example
+ * const order = await this.orders.findOne(id);
+ * assertPreconditions(request, { data: order, lastModified: order?.updatedAt });
+ */
+export function assertPreconditions(
+  request: Request,
+  current: IResourceValidators | undefined,
+): void {
+  const etag =
+    current?.etag ??
+    (current && 'data' in current
+      ? computeResourceEtag(current.data, {
+          redactionPolicy: (request as IRequestWithRequestId).redactionPolicy,
+        })
+      : undefined);
+  const ifMatch = request.headers['if-match'];
+  const ifUnmodifiedSince = request.headers['if-unmodified-since'];
+  const ifNoneMatch = request.headers['if-none-match'];
+
+  let failed = false;
+
+  if (ifMatch) {
+    // `*` requires an existing resource; tags require a strong match
+    failed =
+      !current ||
+      !(ifMatch.trim() === '*' || (etag && matchesEtag(ifMatch, etag, false)));
+  } else if (ifUnmodifiedSince && current?.lastModified) {
+    const since = Date.parse(ifUnmodifiedSince);
+    // HTTP dates have second precision
+    failed =
+      !Number.isNaN(since) &&
+      Math.floor(current.lastModified.getTime() / 1000) * 1000 > since;
+  }
+
+  if (!failed && ifNoneMatch && current) {
+    failed =
+      ifNoneMatch.trim() === '*' ||
+      (!!etag && matchesEtag(ifNoneMatch, etag, true));
+  }
+
+  if (failed) {
+    throw new PreconditionFailedDomainException({
+      details: etag ? { etag } : undefined,
+    });
+  }
+}
+
+/**
+ * Formats Cache-Control directives.
+ * Example: { public: true, maxAge: 60 } -> 'public, max-age=60'
+ */
+export function formatCacheControl(options: ICacheControlOptions): string {
+  const directives: string[] = [];
+  const flag = (enabled: boolean | undefined, directive: string) => {
+    if (enabled) directives.push(directive);
+  };
+  const seconds = (value: number | undefined, directive: string) => {
+    if (value !== undefined) directives.push(`${directive}=${value}`);
+  };
+
+  flag(options.public, 'public');
+  flag(options.private, 'private');
+  flag(options.noCache, 'no-cache');
+  flag(options.noStore, 'no-store');
+  seconds(options.maxAge, 'max-age');
+  seconds(options.sMaxAge, 's-maxage');
+  flag(options.mustRevalidate, 'must-revalidate');
+  flag(options.proxyRevalidate, 'proxy-revalidate');
+  flag(options.immutable, 'immutable');
+  seconds(options.staleWhileRevalidate, 'stale-while-revalidate');
+  seconds(options.staleIfError, 'stale-if-error');
+
+  return directives.join(', ');
+}
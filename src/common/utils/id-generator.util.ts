@@ -0,0 +1,38 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4, v7 as uuidv7 } from 'uuid';
+import { IdGenerator } from '../enums/id-generator.enum';
+
+/** Crockford base32 alphabet used by ULIDs */
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Generates a ULID: 48-bit millisecond timestamp followed by 80 random bits,
+ * encoded as 26 Crockford base32 characters.
+ * @param time - Timestamp in milliseconds (defaults to now)
+ */
+export function generateUlid(time: number = Date.now()): string {
+  let timePart = '';
+  let remaining = time;
+  for (let i = 0; i < 10; i++) {
+    timePart = ULID_ALPHABET[remaining % 32] + timePart;
+    remaining = Math.floor(remaining / 32);
+  }
+
+  // 16 random bytes, 5 bits used per character
+  const random = randomBytes(16);
+  let randomPart = '';
+  for (let i = 0; i < 16; i++) {
+    randomPart += ULID_ALPHABET[random[i] % 32];
+  }
+
+  return timePart + randomPart;
+}
+
+/**
+ * ID generator functions by algorithm.
+ */
+export const ID_GENERATORS: Record<IdGenerator, () => string> = {
+  [IdGenerator.UUID_V4]: () => uuidv4(),
+  [IdGenerator.UUID_V7]: () => uuidv7(),
+  [IdGenerator.ULID]: () => generateUlid(),
+};
@@ -0,0 +1,109 @@
+import { IpPrivacyMode } from '../enums/ip-privacy-mode.enum';
+import { IpScope } from '../enums/ip-scope.enum';
+import {
+  anonymizeIp,
+  anonymizeIpForLog,
+  anonymizeIpInfo,
+  configureIpPrivacy,
+  hashIp,
+  truncateIp,
+} from './ip-privacy.util';
+import { MASK_STRING, maskIpAddress } from './mask.util';
+
+describe('truncateIp', () => {
+  it('should zero the host part of IPv4 addresses', () => {
+    expect(truncateIp('192.168.1.100')).toBe('192.168.1.0');
+    expect(truncateIp('10.20.30.40', 16)).toBe('10.20.0.0');
+    expect(truncateIp('10.20.30.40', 20)).toBe('10.20.16.0');
+  });
+
+  it('should zero the host part of IPv6 addresses', () => {
+    expect(truncateIp('2001:db8:abcd:12::1')).toBe('2001:db8:abcd::');
+    expect(truncateIp('2001:0db8:abcd:ffff:1:2:3:4', 24, 56)).toBe(
+      '2001:db8:abcd:ff00::',
+    );
+  });
+
+  it('should return undefined for invalid addresses', () => {
+    expect(truncateIp('unknown')).toBeUndefined();
+  });
+});
+
+describe('hashIp', () => {
+  const hour = 60 * 60 * 1000;
+
+  beforeEach(() => {
+    configureIpPrivacy({
+      hashSecret: 'a-very-secret-value',
+      saltRotationMs: 24 * hour,
+    });
+  });
+
+  it('should be stable within a rotation period', () => {
+    expect(hashIp('1.2.3.4', 1 * hour)).toBe(hashIp('1.2.3.4', 2 * hour));
+    expect(hashIp('1.2.3.4', 1 * hour)).toMatch(/^sha256:[0-9a-f]{16}$/);
+  });
+
+  it('should change when the salt rotates', () => {
+    expect(hashIp('1.2.3.4', 1 * hour)).not.toBe(hashIp('1.2.3.4', 25 * hour));
+  });
+});
+
+describe('anonymizeIp', () => {
+  it('should apply each mode', () => {
+    expect(anonymizeIp('8.8.8.8', IpPrivacyMode.KEEP)).toBe('8.8.8.8');
+    expect(anonymizeIp('8.8.8.8', IpPrivacyMode.TRUNCATE)).toBe('8.8.8.0');
+    expect(anonymizeIp('8.8.8.8', IpPrivacyMode.OMIT)).toBeUndefined();
+    expect(anonymizeIp('8.8.8.8', IpPrivacyMode.HASH)).toMatch(/^sha256:/);
+  });
+
+  it('should pass empty values through', () => {
+    expect(anonymizeIp('', IpPrivacyMode.HASH)).toBe('');
+  });
+});
+
+describe('anonymizeIpInfo', () => {
+  afterEach(() => configureIpPrivacy({}));
+
+  it('should apply the mode configured for the target', () => {
+    configureIpPrivacy({
+      responseMode: IpPrivacyMode.OMIT,
+      logMode: IpPrivacyMode.TRUNCATE,
+    });
+    const ipInfo = {
+      ipv4: '8.8.8.8',
+      ipv6: '',
+      display: 'IPv4: 8.8.8.8',
+      address: '8.8.8.8',
+      scope: IpScope.PUBLIC,
+      proxyChain: ['8.8.8.8', 'unknown', '10.0.0.1'],
+    };
+
+    expect(anonymizeIpInfo(ipInfo, 'response')).toEqual({
+      ipv4: undefined,
+      ipv6: '',
+      proxyChain: [],
+    });
+    expect(anonymizeIpInfo(ipInfo, 'log')).toEqual({
+      ipv4: '8.8.8.0',
+      ipv6: '',
+      proxyChain: ['8.8.8.0', '10.0.0.0'],
+    });
+  });
+
+  it('should drive anonymizeIpForLog with the log mode', () => {
+    configureIpPrivacy({ logMode: IpPrivacyMode.TRUNCATE });
+    expect(anonymizeIpForLog('192.168.1.100')).toBe('192.168.1.0');
+
+    configureIpPrivacy({ logMode: IpPrivacyMode.OMIT });
+    expect(anonymizeIpForLog('192.168.1.100')).toBeUndefined();
+  });
+
+  it('should keep maskIpAddress masking in keep mode', () => {
+    configureIpPrivacy({ logMode: IpPrivacyMode.KEEP });
+
+    expect(maskIpAddress('192.168.1.100')).toBe('192.***.***');
+    expect(maskIpAddress('2001:db8::1')).toBe('2001:****:****');
+    expect(maskIpAddress('')).toBe(MASK_STRING);
+  });
+});
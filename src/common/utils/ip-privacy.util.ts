@@ -0,0 +1,233 @@
+import { createHmac, randomBytes } from 'crypto';
+import { IpPrivacyMode } from '../enums/ip-privacy-mode.enum';
+import { IIpPrivacyOptions } from '../interfaces/ip-privacy-options.interface';
+import { IpInfo, parseIp } from './ip.util';
+
+/** Where an anonymized address ends up */
+export type IpPrivacyTarget = 'response' | 'log';
+
+/** Client IP fields after the privacy policy was applied */
+export interface IAnonymizedIpInfo {
+  ipv4?: string;
+  ipv6?: string;
+  proxyChain: string[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Builds the default policy: full addresses and a random per-process secret.
+ */
+export function createDefaultIpPrivacyOptions(): IIpPrivacyOptions {
+  return {
+    responseMode: IpPrivacyMode.KEEP,
+    logMode: IpPrivacyMode.KEEP,
+    ipv4PrefixLength: 24,
+    ipv6PrefixLength: 48,
+    hashSecret: randomBytes(16).toString('hex'),
+    saltRotationMs: 24 * HOUR_MS,
+  };
+}
+
+/** Policy used by anonymizeIp; replaced by configureIpPrivacy() */
+let ipPrivacyOptions = createDefaultIpPrivacyOptions();
+
+/** Salt of the current rotation period, derived lazily */
+let currentSalt: { period: number; salt: string } | undefined;
+
+/**
+ * Configure the IP privacy policy.
+ * Called once at bootstrap by IpPrivacyInfrastructureModule.
+ */
+export function configureIpPrivacy(options: Partial<IIpPrivacyOptions>): void {
+  ipPrivacyOptions = { ...createDefaultIpPrivacyOptions(), ...options };
+  currentSalt = undefined;
+}
+
+/**
+ * Returns the privacy mode configured for a target.
+ */
+export function getIpPrivacyMode(target: IpPrivacyTarget): IpPrivacyMode {
+  return target === 'response'
+    ? ipPrivacyOptions.responseMode
+    : ipPrivacyOptions.logMode;
+}
+
+/**
+ * Expands an IPv6 address into its eight 16-bit groups.
+ */
+function expandIpv6(ip: string): number[] {
+  const [head, tail] = ip.includes('::') ? ip.split('::') : [ip, undefined];
+  const toGroups = (part: string | undefined): number[] =>
+    part
+      ? part.split(':').flatMap((group) => {
+          // Embedded IPv4 (::ffff:1.2.3.4 style) occupies two groups
+          if (group.includes('.')) {
+            const [a, b, c, d] = group.split('.').map(Number);
+            return [(a << 8) | b, (c << 8) | d];
+          }
+          return [parseInt(group, 16)];
+        })
+      : [];
+
+  const headGroups = toGroups(head);
+  const tailGroups = toGroups(tail);
+  const zeros = new Array<number>(
+    8 - headGroups.length - tailGroups.length,
+  ).fill(0);
+
+  return [...headGroups, ...zeros, ...tailGroups];
+}
+
+/**
+ * Formats IPv6 groups in compressed notation (RFC 5952).
+ */
+function compressIpv6(groups: number[]): string {
+  // Longest run of at least two zero groups
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let start = 0; start < groups.length; start++) {
+    let length = 0;
+    while (groups[start + length] === 0) length++;
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Keeps the first `prefixLength` bits of each group and zeroes the rest.
+ */
+function applyPrefix(
+  groups: number[],
+  bitsPerGroup: number,
+  prefixLength: number,
+): number[] {
+  return groups.map((group, index) => {
+    const keptBits = Math.min(
+      Math.max(prefixLength - index * bitsPerGroup, 0),
+      bitsPerGroup,
+    );
+    const mask = ((1 << keptBits) - 1) << (bitsPerGroup - keptBits);
+    return group & mask;
+  });
+}
+
+/**
+ * Zeroes the host part of an address.
+ * Example: 192.168.1.100 -> 192.168.1.0, 2001:db8:abcd:12::1 -> 2001:db8:abcd::
+ * @param ip - IP address
+ * @returns The truncated address or undefined when the input is not an IP
+ */
+export function truncateIp(
+  ip: string,
+  ipv4PrefixLength = ipPrivacyOptions.ipv4PrefixLength,
+  ipv6PrefixLength = ipPrivacyOptions.ipv6PrefixLength,
+): string | undefined {
+  const parsed = parseIp(ip);
+  if (!parsed) {
+    return undefined;
+  }
+
+  if (parsed.version === 4) {
+    const octets = parsed.address.split('.').map(Number);
+    return applyPrefix(octets, 8, ipv4PrefixLength).join('.');
+  }
+
+  return compressIpv6(
+    applyPrefix(expandIpv6(parsed.address), 16, ipv6PrefixLength),
+  );
+}
+
+/**
+ * Replaces an address with a keyed SHA-256 digest.
+ * Digests are stable within a rotation period, so requests of one client can
+ * be correlated for a day (by default) but not across periods.
+ * @param ip - IP address
+ * @param now - Current time, selects the rotation period
+ */
+export function hashIp(ip: string, now = Date.now()): string {
+  const period = Math.floor(now / ipPrivacyOptions.saltRotationMs);
+  if (currentSalt?.period !== period) {
+    currentSalt = {
+      period,
+      salt: createHmac('sha256', ipPrivacyOptions.hashSecret)
+        .update(String(period))
+        .digest('hex'),
+    };
+  }
+
+  const address = parseIp(ip)?.address ?? ip;
+  return `sha256:${createHmac('sha256', currentSalt.salt)
+    .update(address)
+    .digest('hex')
+    .substring(0, 16)}`;
+}
+
+/**
+ * Applies a privacy mode to a single address.
+ * Empty values are passed through so "no address" stays distinguishable.
+ * @param ip - IP address
+ * @param mode - Privacy mode
+ * @returns The exposed value, or undefined when the address must be left out
+ */
+export function anonymizeIp(
+  ip: string,
+  mode: IpPrivacyMode,
+): string | undefined {
+  if (!ip) {
+    return ip;
+  }
+
+  switch (mode) {
+    case IpPrivacyMode.OMIT:
+      return undefined;
+    case IpPrivacyMode.TRUNCATE:
+      return truncateIp(ip);
+    case IpPrivacyMode.HASH:
+      return hashIp(ip);
+    case IpPrivacyMode.KEEP:
+    default:
+      return ip;
+  }
+}
+
+/**
+ * Applies the log mode (IP_PRIVACY_LOG_MODE) to an address, so ad-hoc values
+ * match the request logs. Unlike maskIpAddress(), `keep` returns the address as is.
+ * @param ip - IP address
+ * @returns The logged value, or undefined when the policy omits addresses
+ */
+export function anonymizeIpForLog(ip: string): string | undefined {
+  return anonymizeIp(ip, getIpPrivacyMode('log'));
+}
+
+/**
+ * Applies the policy configured for a target to the client IP fields.
+ * @param ipInfo - Resolved client IP information
+ * @param target - Whether the fields are sent to the client or logged
+ */
+export function anonymizeIpInfo(
+  ipInfo: IpInfo,
+  target: IpPrivacyTarget,
+): IAnonymizedIpInfo {
+  const mode = getIpPrivacyMode(target);
+
+  return {
+    ipv4: anonymizeIp(ipInfo.ipv4, mode),
+    ipv6: anonymizeIp(ipInfo.ipv6, mode),
+    proxyChain: ipInfo.proxyChain
+      .map((ip) => anonymizeIp(ip, mode))
+      .filter((ip): ip is string => !!ip),
+  };
+}
@@ -0,0 +1,173 @@
+import { Request } from 'express';
+import { ForwardedHeader } from '../enums/forwarded-header.enum';
+import { IpScope } from '../enums/ip-scope.enum';
+import { createIpMatcher } from './cidr.util';
+import {
+  classifyIp,
+  configureTrustedProxies,
+  getClientIpInfo,
+  parseForwardedHeader,
+  parseIp,
+} from './ip.util';
+
+const mockRequest = (
+  remoteAddress: string,
+  headers: Record<string, string> = {},
+): Request =>
+  ({
+    socket: { remoteAddress },
+    headers,
+  }) as unknown as Request;
+
+describe('parseIp', () => {
+  it('should strip ports, brackets and zone IDs', () => {
+    expect(parseIp('203.0.113.5:8080')?.address).toBe('203.0.113.5');
+    expect(parseIp('[2001:DB8::1]:443')?.address).toBe('2001:db8::1');
+    expect(parseIp('fe80::1%eth0')?.address).toBe('fe80::1');
+  });
+
+  it('should convert IPv4-mapped IPv6 addresses', () => {
+    expect(parseIp('::ffff:10.0.0.1')).toEqual({
+      address: '10.0.0.1',
+      version: 4,
+    });
+  });
+
+  it('should reject invalid values', () => {
+    expect(parseIp(undefined)).toBeUndefined();
+    expect(parseIp('unknown')).toBeUndefined();
+    expect(parseIp('999.1.1.1')).toBeUndefined();
+  });
+});
+
+describe('classifyIp', () => {
+  it('should classify address ranges', () => {
+    expect(classifyIp('8.8.8.8')).toBe(IpScope.PUBLIC);
+    expect(classifyIp('10.1.2.3')).toBe(IpScope.PRIVATE);
+    expect(classifyIp('::1')).toBe(IpScope.LOOPBACK);
+    expect(classifyIp('169.254.1.1')).toBe(IpScope.LINK_LOCAL);
+    expect(classifyIp('203.0.113.9')).toBe(IpScope.RESERVED);
+    expect(classifyIp('garbage')).toBe(IpScope.UNKNOWN);
+  });
+});
+
+describe('parseForwardedHeader', () => {
+  it('should extract for= addresses in order', () => {
+    expect(
+      parseForwardedHeader(
+        'for=192.0.2.43;proto=https, for="[2001:db8::17]:4711", by=10.0.0.1',
+      ),
+    ).toEqual(['192.0.2.43', '[2001:db8::17]:4711']);
+  });
+});
+
+describe('getClientIpInfo', () => {
+  afterEach(() => {
+    configureTrustedProxies({ isTrustedProxy: () => false, hops: 0 });
+  });
+
+  it('should ignore forwarding headers without trusted proxies', () => {
+    const info = getClientIpInfo(
+      mockRequest('8.8.4.4', { 'x-forwarded-for': '1.1.1.1' }),
+    );
+
+    expect(info.address).toBe('8.8.4.4');
+    expect(info.proxyChain).toEqual(['1.1.1.1', '8.8.4.4']);
+  });
+
+  it('should stop at the first untrusted hop', () => {
+    configureTrustedProxies({
+      isTrustedProxy: createIpMatcher(['10.0.0.0/8']),
+      hops: 0,
+    });
+
+    const info = getClientIpInfo(
+      mockRequest('10.0.0.2', {
+        'x-forwarded-for': '1.1.1.1, 8.8.8.8, 10.0.0.1',
+      }),
+    );
+
+    expect(info.address).toBe('8.8.8.8');
+    expect(info.scope).toBe(IpScope.PUBLIC);
+  });
+
+  it('should trust a fixed number of hops', () => {
+    configureTrustedProxies({ isTrustedProxy: () => false, hops: 1 });
+
+    const info = getClientIpInfo(
+      mockRequest('10.0.0.2', { 'x-forwarded-for': '1.1.1.1, 9.9.9.9' }),
+    );
+
+    expect(info.address).toBe('9.9.9.9');
+  });
+
+  it('should read the Forwarded header when configured', () => {
+    configureTrustedProxies({
+      isTrustedProxy: () => true,
+      hops: 0,
+      forwardedHeader: ForwardedHeader.FORWARDED,
+    });
+
+    const info = getClientIpInfo(
+      mockRequest('10.0.0.2', {
+        forwarded: 'for="[2001:db8::17]:4711"',
+        'x-forwarded-for': '1.1.1.1',
+      }),
+    );
+
+    expect(info.ipv6).toBe('2001:db8::17');
+    expect(info.ipv4).toBe('');
+  });
+
+  it('should ignore a spoofed Forwarded header when X-Forwarded-For is trusted', () => {
+    configureTrustedProxies({
+      isTrustedProxy: createIpMatcher(['10.0.0.0/8']),
+      hops: 0,
+      forwardedHeader: ForwardedHeader.X_FORWARDED_FOR,
+    });
+
+    // The proxy appended the real client to X-Forwarded-For; Forwarded came from the client
+    const info = getClientIpInfo(
+      mockRequest('10.0.0.2', {
+        forwarded: 'for=1.1.1.1',
+        'x-forwarded-for': '8.8.8.8',
+      }),
+    );
+
+    expect(info.address).toBe('8.8.8.8');
+    expect(info.proxyChain).toEqual(['8.8.8.8', '10.0.0.2']);
+  });
+
+  it('should ignore a spoofed X-Forwarded-For header when Forwarded is trusted', () => {
+    configureTrustedProxies({
+      isTrustedProxy: createIpMatcher(['10.0.0.0/8']),
+      hops: 0,
+      forwardedHeader: ForwardedHeader.FORWARDED,
+    });
+
+    const info = getClientIpInfo(
+      mockRequest('10.0.0.2', {
+        forwarded: 'for=8.8.8.8',
+        'x-forwarded-for': '1.1.1.1',
+      }),
+    );
+
+    expect(info.address).toBe('8.8.8.8');
+  });
+
+  it('should read the client IP header only from trusted peers', () => {
+    configureTrustedProxies({
+      isTrustedProxy: createIpMatcher(['173.245.48.0/20']),
+      hops: 0,
+      clientIpHeader: 'cf-connecting-ip',
+    });
+    const headers = { 'cf-connecting-ip': '1.1.1.1' };
+
+    expect(getClientIpInfo(mockRequest('173.245.48.1', headers)).address).toBe(
+      '1.1.1.1',
+    );
+    expect(getClientIpInfo(mockRequest('8.8.8.8', headers)).address).toBe(
+      '8.8.8.8',
+    );
+  });
+});
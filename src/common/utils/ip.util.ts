@@ -1,65 +1,228 @@
 import { Request } from 'express';
+import { isIP } from 'net';
+import { ForwardedHeader } from '../enums/forwarded-header.enum';
+import { IpScope } from '../enums/ip-scope.enum';
+import { ITrustedProxyOptions } from '../interfaces/trusted-proxy-options.interface';
+import { createIpMatcher } from './cidr.util';
 
 export interface IpInfo {
     ipv4: string;
     ipv6: string;
     display: string;
+    /** Resolved client address ('' when unknown) */
+    address: string;
+    /** Address range classification of the client address */
+    scope: IpScope;
+    /** Forwarding chain from the (claimed) client to the direct peer, for audit logs */
+    proxyChain: string[];
 }
 
-export function getClientIpInfo(request: Request): IpInfo {
-    const ips = new Set<string>();
-
-    // Check common proxy headers
-    const headers = [
-        'x-forwarded-for',
-        'x-real-ip',
-        'cf-connecting-ip',
-        'true-client-ip',
-        'x-client-ip',
-    ];
-
-    for (const header of headers) {
-        const value = request.headers[header];
-        if (value) {
-            if (typeof value === 'string') {
-                value.split(',').forEach((ip) => ips.add(ip.trim()));
-            } else if (Array.isArray(value)) {
-                value.forEach((ip) => ips.add(ip.trim()));
-            }
-        }
+/**
+ * A validated IP address.
+ */
+export interface ParsedIp {
+    address: string;
+    version: 4 | 6;
+}
+
+/**
+ * Ranges per scope, checked in order (loopback before private, etc.).
+ */
+const SCOPE_MATCHERS: [IpScope, (ip: string) => boolean][] = [
+    [IpScope.LOOPBACK, createIpMatcher(['127.0.0.0/8', '::1/128'])],
+    [
+        IpScope.PRIVATE,
+        createIpMatcher([
+            '10.0.0.0/8',
+            '172.16.0.0/12',
+            '192.168.0.0/16',
+            '100.64.0.0/10',
+            'fc00::/7',
+        ]),
+    ],
+    [IpScope.LINK_LOCAL, createIpMatcher(['169.254.0.0/16', 'fe80::/10'])],
+    [
+        IpScope.RESERVED,
+        createIpMatcher([
+            '0.0.0.0/8',
+            '192.0.0.0/24',
+            '192.0.2.0/24',
+            '198.18.0.0/15',
+            '198.51.100.0/24',
+            '203.0.113.0/24',
+            '224.0.0.0/4',
+            '240.0.0.0/4',
+            '::/128',
+            '100::/64',
+            '2001:db8::/32',
+            'ff00::/8',
+        ]),
+    ],
+];
+
+/** Trusts nothing: forwarding headers are ignored until proxies are configured */
+let trustedProxyOptions: ITrustedProxyOptions = {
+    isTrustedProxy: () => false,
+    hops: 0,
+};
+
+/**
+ * Configure which proxies may set forwarding headers.
+ * Called once at bootstrap by TrustedProxyInfrastructureModule.
+ */
+export function configureTrustedProxies(options: ITrustedProxyOptions): void {
+    trustedProxyOptions = options;
+}
+
+/**
+ * Parses and validates an IP address as found in forwarding headers.
+ * Accepts ports (`1.2.3.4:80`, `[::1]:443`), brackets and IPv6 zone IDs;
+ * IPv4-mapped IPv6 addresses are converted to IPv4.
+ * @param raw - Raw address
+ * @returns The normalized address or undefined when invalid
+ */
+export function parseIp(raw: string | undefined): ParsedIp | undefined {
+    let value = raw?.trim().replace(/^"|"$/g, '');
+    if (!value) {
+        return undefined;
     }
 
-    // Add standard express IP
-    if (request.ip) {
-        ips.add(request.ip);
+    // [IPv6]:port or [IPv6]
+    const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(value);
+    if (bracketed) {
+        value = bracketed[1];
+    } else if (/^[\d.]+:\d+$/.test(value)) {
+        // IPv4:port
+        value = value.substring(0, value.lastIndexOf(':'));
     }
 
-    // Add socket remote address if available
-    if (request.socket?.remoteAddress) {
-        ips.add(request.socket.remoteAddress);
+    // Drop IPv6 zone ID (fe80::1%eth0)
+    value = value.split('%')[0];
+
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(value);
+    if (mapped) {
+        value = mapped[1];
     }
 
-    let ipv4 = '';
-    let ipv6 = '';
+    const version = isIP(value);
+    if (version === 0) {
+        return undefined;
+    }
 
-    ips.forEach((rawIp) => {
-        const cleanIp = rawIp;
+    return {
+        address: version === 6 ? value.toLowerCase() : value,
+        version: version as 4 | 6,
+    };
+}
 
-        // Handle IPv4-mapped IPv6 addresses (e.g. ::ffff:127.0.0.1)
-        if (cleanIp.startsWith('::ffff:')) {
-            const mappedIpv4 = cleanIp.substring(7);
-            if (!ipv4) ipv4 = mappedIpv4;
-            return;
-        }
+/**
+ * Classifies an address as public, private, loopback, link-local or reserved.
+ * @param ip - IP address
+ */
+export function classifyIp(ip: string | undefined): IpScope {
+    const parsed = parseIp(ip);
+    if (!parsed) {
+        return IpScope.UNKNOWN;
+    }
 
-        if (cleanIp.includes(':')) {
-            // It's an IPv6 address
-            if (!ipv6) ipv6 = cleanIp;
-        } else if (cleanIp.includes('.')) {
-            // It's an IPv4 address
-            if (!ipv4) ipv4 = cleanIp;
-        }
+    const match = SCOPE_MATCHERS.find(([, matches]) => matches(parsed.address));
+    return match ? match[0] : IpScope.PUBLIC;
+}
+
+/**
+ * Extracts the `for=` addresses of an RFC 7239 `Forwarded` header, client first.
+ * Obfuscated identifiers (`unknown`, `_hidden`) are kept so the chain stays aligned.
+ * @param value - Raw header value
+ */
+export function parseForwardedHeader(value: string): string[] {
+    return value.split(',').flatMap((element) => {
+        const forPair = element
+            .split(';')
+            .map((pair) => pair.trim())
+            .find((pair) => pair.toLowerCase().startsWith('for='));
+        return forPair ? [forPair.substring(4).replace(/^"|"$/g, '')] : [];
     });
+}
+
+/**
+ * Reads the forwarding chain (client first) from the configured forwarding header.
+ * The other header is ignored: trusted proxies only sanitize the one they set,
+ * so a client could otherwise supply a spoofed chain through it.
+ */
+function getForwardedChain(
+    request: Request,
+    forwardedHeader: ForwardedHeader,
+): string[] {
+    if (forwardedHeader === ForwardedHeader.FORWARDED) {
+        const forwarded = request.headers['forwarded'];
+        return forwarded ? parseForwardedHeader(forwarded) : [];
+    }
+
+    const forwardedFor = request.headers['x-forwarded-for'];
+    const values = Array.isArray(forwardedFor)
+        ? forwardedFor
+        : forwardedFor
+          ? [forwardedFor]
+          : [];
+
+    return values.flatMap((value) =>
+        value
+            .split(',')
+            .map((ip) => ip.trim())
+            .filter(Boolean),
+    );
+}
+
+/**
+ * Resolves the client IP address.
+ *
+ * Forwarding headers are only believed when they were added by trusted proxies:
+ * the chain is walked from the direct peer towards the client and stops at the
+ * first hop that is neither within TRUSTED_PROXY_HOPS nor in a trusted range.
+ * Without trusted proxies the socket address is used.
+ */
+export function getClientIpInfo(request: Request): IpInfo {
+    const {
+        isTrustedProxy,
+        hops,
+        clientIpHeader,
+        forwardedHeader = ForwardedHeader.X_FORWARDED_FOR,
+    } = trustedProxyOptions;
+    const peer = request.socket?.remoteAddress ?? '';
+    const chain = [...getForwardedChain(request, forwardedHeader), peer];
+
+    const isTrustedHop = (raw: string, hop: number): boolean => {
+        const parsed = parseIp(raw);
+        return !!parsed && (hop < hops || isTrustedProxy(parsed.address));
+    };
+
+    let client: ParsedIp | undefined = parseIp(peer);
+    const peerTrusted = isTrustedHop(peer, 0);
+
+    // A trusted proxy may hand over the client IP in a dedicated header
+    const headerValue = clientIpHeader ? request.headers[clientIpHeader] : undefined;
+    const headerIp = parseIp(
+        Array.isArray(headerValue) ? headerValue[0] : headerValue,
+    );
+
+    if (peerTrusted && headerIp) {
+        client = headerIp;
+    } else {
+        for (let index = chain.length - 1; index > 0; index--) {
+            if (!isTrustedHop(chain[index], chain.length - 1 - index)) {
+                break;
+            }
+            // Unparsable hops (e.g. `unknown`) end the walk at the last valid address
+            const next = parseIp(chain[index - 1]);
+            if (!next) {
+                break;
+            }
+            client = next;
+        }
+    }
+
+    let ipv4 = client?.version === 4 ? client.address : '';
+    let ipv6 = client?.version === 6 ? client.address : '';
 
     // Special case for localhost if only one is found
     if (ipv6 === '::1' && !ipv4) ipv4 = '127.0.0.1';
@@ -73,5 +236,8 @@ export function getClientIpInfo(request: Request): IpInfo {
         ipv4,
         ipv6,
         display: displayParts.length > 0 ? displayParts.join('\n ') : 'unknown',
+        address: client?.address ?? '',
+        scope: classifyIp(client?.address),
+        proxyChain: chain.filter(Boolean),
     };
 }
@@ -0,0 +1,159 @@
+import { Request } from 'express';
+import { LanguageSource } from '../enums/language-source.enum';
+import { ILanguageOptions } from '../interfaces/language-options.interface';
+import {
+  getCookieValue,
+  getLanguageVaryHeaders,
+  matchSupportedLanguage,
+  parseAcceptLanguage,
+  resolveRequestLanguage,
+} from './language.util';
+
+const options: ILanguageOptions = {
+  fallbackLanguage: 'en',
+  supportedLanguages: ['tr', 'en', 'pt-BR'],
+  sources: [
+    LanguageSource.QUERY,
+    LanguageSource.HEADER,
+    LanguageSource.COOKIE,
+    LanguageSource.USER,
+    LanguageSource.ACCEPT_LANGUAGE,
+  ],
+  queryParam: 'lang',
+  header: 'x-lang',
+  cookie: 'lang',
+  userProperty: 'language',
+};
+
+function createRequest(
+  overrides: {
+    query?: Record<string, unknown>;
+    headers?: Record<string, string>;
+    user?: Record<string, unknown>;
+  } = {},
+): Request {
+  return {
+    query: overrides.query ?? {},
+    headers: overrides.headers ?? {},
+    user: overrides.user,
+  } as unknown as Request;
+}
+
+describe('matchSupportedLanguage', () => {
+  it('should match case-insensitively and return the configured spelling', () => {
+    expect(matchSupportedLanguage('TR', options.supportedLanguages)).toBe('tr');
+    expect(matchSupportedLanguage('pt_br', options.supportedLanguages)).toBe(
+      'pt-BR',
+    );
+  });
+
+  it('should fall back from regional tags to the base language', () => {
+    expect(matchSupportedLanguage('en-GB', options.supportedLanguages)).toBe(
+      'en',
+    );
+    expect(
+      matchSupportedLanguage('tr-Latn-TR', options.supportedLanguages),
+    ).toBe('tr');
+  });
+
+  it('should reject unsupported languages', () => {
+    expect(matchSupportedLanguage('de-DE', options.supportedLanguages)).toBe(
+      undefined,
+    );
+    expect(matchSupportedLanguage('', options.supportedLanguages)).toBe(
+      undefined,
+    );
+    expect(matchSupportedLanguage(undefined, options.supportedLanguages)).toBe(
+      undefined,
+    );
+  });
+});
+
+describe('parseAcceptLanguage', () => {
+  it('should order tags by q-value and keep header order for ties', () => {
+    expect(parseAcceptLanguage('de;q=0.5, en-GB, tr;q=0.8, fr')).toEqual([
+      'en-GB',
+      'fr',
+      'tr',
+      'de',
+    ]);
+  });
+
+  it('should drop wildcards and q=0 entries', () => {
+    expect(parseAcceptLanguage('*, tr;q=0, en;q=0.1')).toEqual(['en']);
+    expect(parseAcceptLanguage(undefined)).toEqual([]);
+  });
+});
+
+describe('getCookieValue', () => {
+  it('should read and decode a cookie', () => {
+    expect(getCookieValue('session=abc; lang=tr', 'lang')).toBe('tr');
+    expect(getCookieValue('lang=pt%2DBR', 'lang')).toBe('pt-BR');
+  });
+
+  it('should not match cookies by prefix', () => {
+    expect(getCookieValue('xlang=tr', 'lang')).toBe(undefined);
+    expect(getCookieValue(undefined, 'lang')).toBe(undefined);
+  });
+});
+
+describe('resolveRequestLanguage', () => {
+  it('should honour the source priority', () => {
+    const request = createRequest({
+      query: { lang: 'tr' },
+      headers: { 'x-lang': 'en', 'accept-language': 'en' },
+    });
+    expect(resolveRequestLanguage(request, options)).toBe('tr');
+    expect(
+      resolveRequestLanguage(request, {
+        ...options,
+        sources: [LanguageSource.HEADER, LanguageSource.QUERY],
+      }),
+    ).toBe('en');
+  });
+
+  it('should skip unsupported values and continue with the next source', () => {
+    const request = createRequest({
+      query: { lang: 'de' },
+      headers: { cookie: 'lang=tr' },
+    });
+    expect(resolveRequestLanguage(request, options)).toBe('tr');
+  });
+
+  it('should use the authenticated user preference', () => {
+    const request = createRequest({
+      user: { language: 'tr' },
+      headers: { 'accept-language': 'en' },
+    });
+    expect(resolveRequestLanguage(request, options)).toBe('tr');
+  });
+
+  it('should try every Accept-Language preference', () => {
+    const request = createRequest({
+      headers: { 'accept-language': 'de-DE, en-GB;q=0.9' },
+    });
+    expect(resolveRequestLanguage(request, options)).toBe('en');
+  });
+
+  it('should ignore sources that are not configured', () => {
+    const request = createRequest({ query: { lang: 'tr' } });
+    expect(
+      resolveRequestLanguage(request, {
+        ...options,
+        sources: [LanguageSource.ACCEPT_LANGUAGE],
+      }),
+    ).toBe(undefined);
+  });
+});
+
+describe('getLanguageVaryHeaders', () => {
+  it('should list the header-based sources', () => {
+    expect(getLanguageVaryHeaders(options)).toEqual([
+      'Accept-Language',
+      'x-lang',
+    ]);
+    expect(
+      getLanguageVaryHeaders({ ...options, sources: [LanguageSource.QUERY] }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import { LanguageSource } from '../enums/language-source.enum';
+import { ILanguageOptions } from '../interfaces/language-options.interface';
+
+/**
+ * Matches a language tag against the supported languages, case-insensitively.
+ * Unsupported regional tags fall back to their base language
+ * (`en-GB` → `en`, `zh-Hant-TW` → `zh-Hant` → `zh`); `_` is read as `-`.
+ * @param tag - Requested language tag
+ * @param supportedLanguages - Whitelist of languages
+ * @returns The supported language as configured, or undefined
+ */
+export function matchSupportedLanguage(
+  tag: string | undefined,
+  supportedLanguages: string[],
+): string | undefined {
+  const subtags = (tag ?? '').trim().replace(/_/g, '-').split('-');
+
+  while (subtags.length > 0 && subtags[0]) {
+    const candidate = subtags.join('-').toLowerCase();
+    const match = supportedLanguages.find(
+      (language) => language.toLowerCase() === candidate,
+    );
+    if (match) {
+      return match;
+    }
+    subtags.pop();
+  }
+  return undefined;
+}
+
+/**
+ * Parses an `Accept-Language` header into tags ordered by preference.
+ * Wildcards and `q=0` entries are dropped; equal q-values keep header order.
+ * @param header - Raw header value
+ */
+export function parseAcceptLanguage(header: string | undefined): string[] {
+  return (header ?? '')
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...params] = entry.split(';').map((part) => part.trim());
+      const qParam = params.find((param) => param.startsWith('q='));
+      const quality = qParam ? Number(qParam.substring(2)) : 1;
+      return { tag, quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Reads a cookie from a raw `Cookie` header (no cookie-parser needed).
+ * @param header - Raw header value
+ * @param name - Cookie name
+ */
+export function getCookieValue(
+  header: string | undefined,
+  name: string,
+): string | undefined {
+  for (const pair of (header ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.substring(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(pair.substring(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * First value of a header or query parameter that may be repeated.
+ */
+function firstString(value: unknown): string | undefined {
+  const first: unknown = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' ? first : undefined;
+}
+
+/**
+ * Language tags offered by a source, most preferred first.
+ */
+function getCandidates(
+  request: Request,
+  source: LanguageSource,
+  options: ILanguageOptions,
+): string[] {
+  let value: string | undefined;
+  switch (source) {
+    case LanguageSource.QUERY:
+      value = firstString(
+        (request.query as Record<string, unknown> | undefined)?.[
+          options.queryParam
+        ],
+      );
+      break;
+    case LanguageSource.HEADER:
+      value = firstString(request.headers[options.header]);
+      break;
+    case LanguageSource.COOKIE:
+      value = getCookieValue(request.headers.cookie, options.cookie);
+      break;
+    case LanguageSource.USER:
+      value = firstString(
+        (request as { user?: Record<string, unknown> }).user?.[
+          options.userProperty
+        ],
+      );
+      break;
+    case LanguageSource.ACCEPT_LANGUAGE:
+      return parseAcceptLanguage(request.headers['accept-language']);
+  }
+  return value ? [value] : [];
+}
+
+/**
+ * Resolves the response language from the configured sources in priority order.
+ * Unsupported values are skipped, so the next source gets its turn.
+ * @param request - Incoming request
+ * @param options - Language resolution settings
+ * @returns A supported language, or undefined when no source yields one
+ */
+export function resolveRequestLanguage(
+  request: Request,
+  options: ILanguageOptions,
+): string | undefined {
+  for (const source of options.sources) {
+    for (const candidate of getCandidates(request, source, options)) {
+      const language = matchSupportedLanguage(
+        candidate,
+        options.supportedLanguages,
+      );
+      if (language) {
+        return language;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Request headers the response language depends on, for the `Vary` header.
+ * Query parameters are part of the URL already; cookie and user preferences
+ * are per client and not listed.
+ * @param options - Language resolution settings
+ */
+export function getLanguageVaryHeaders(options: ILanguageOptions): string[] {
+  const headers: string[] = [];
+  if (options.sources.includes(LanguageSource.ACCEPT_LANGUAGE)) {
+    headers.push('Accept-Language');
+  }
+  if (options.sources.includes(LanguageSource.HEADER)) {
+    headers.push(options.header);
+  }
+  return headers;
+}
+
+/**
+ * Sets `Content-Language` and the `Vary` headers of the language sources.
+ * @param response - Outgoing response
+ * @param lang - Response language
+ * @param varyHeaders - Result of getLanguageVaryHeaders()
+ */
+export function setLanguageHeaders(
+  response: Response,
+  lang: string,
+  varyHeaders: string[],
+): void {
+  response.setHeader('Content-Language', lang);
+  for (const header of varyHeaders) {
+    response.vary(header);
+  }
+}
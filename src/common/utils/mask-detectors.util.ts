@@ -0,0 +1,95 @@
+import { MaskStrategy } from '../enums/mask-strategy.enum';
+import { IMaskingValueDetector } from '../interfaces/masking-options.interface';
+
+/**
+ * Validates a number with the Luhn (mod 10) algorithm.
+ * @param value - Digits, optionally separated by spaces or dashes
+ * @returns True if the checksum is valid
+ */
+export function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d{13,19}$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Validates an IBAN with the ISO 13616 mod-97 check.
+ * @param value - IBAN, optionally grouped with spaces
+ * @returns True if the checksum is valid
+ */
+export function isIbanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  // Move the country code and check digits to the end, then letters -> numbers
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * Built-in value detectors, keyed by their configuration name.
+ * Bearer tokens are listed before JWTs so the whole header value is masked.
+ */
+export const BUILT_IN_DETECTORS: Record<string, IMaskingValueDetector> = {
+  'bearer-token': {
+    name: 'bearer-token',
+    pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+    strategy: MaskStrategy.FULL,
+  },
+  jwt: {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    strategy: MaskStrategy.FULL,
+  },
+  'credit-card': {
+    name: 'credit-card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isLuhnValid,
+    strategy: MaskStrategy.PARTIAL,
+  },
+  iban: {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: isIbanValid,
+    strategy: MaskStrategy.PARTIAL,
+  },
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    strategy: MaskStrategy.EMAIL,
+  },
+};
+
+/**
+ * Detectors enabled when no explicit configuration is given.
+ * Email detection is opt-in because it would also mask e-mails in response data.
+ */
+export const DEFAULT_DETECTOR_NAMES = [
+  'bearer-token',
+  'jwt',
+  'credit-card',
+  'iban',
+];
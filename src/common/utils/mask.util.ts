@@ -1,85 +1,319 @@
 /**
- * Utility functions for masking sensitive data in logs.
- * Prevents sensitive information from being exposed in log files.
+ * Utility functions for masking sensitive data in logs and responses.
+ * Prevents sensitive information from being exposed in log files or API output.
+ *
+ * Masking is performed by a configurable engine:
+ * - Key rules (exact names, globs or regular expressions) with per-rule strategies
+ * - Value detectors (JWTs, card numbers, IBANs, e-mails, bearer tokens) for free text
+ * - Cycle-safe traversal with a depth limit
  */
 
+import { createHmac, randomBytes } from 'crypto';
+import { MaskStrategy } from '../enums/mask-strategy.enum';
+import {
+  IMaskingKeyRule,
+  IMaskingOptions,
+  IMaskingValueDetector,
+} from '../interfaces/masking-options.interface';
+import {
+  BUILT_IN_DETECTORS,
+  DEFAULT_DETECTOR_NAMES,
+} from './mask-detectors.util';
+
 /** Default list of sensitive field names that should be masked */
-const DEFAULT_SENSITIVE_FIELDS = [
-    'password',
-    'passwordConfirm',
-    'currentPassword',
-    'newPassword',
-    'token',
-    'accessToken',
-    'refreshToken',
-    'secret',
-    'apiKey',
-    'api_key',
-    'authorization',
-    'creditCard',
-    'credit_card',
-    'cardNumber',
-    'card_number',
-    'cvv',
-    'ssn',
-    'socialSecurityNumber',
-    'pin',
-    'otp',
-    'verificationCode',
-    'privateKey',
-    'private_key',
+export const DEFAULT_SENSITIVE_FIELDS = [
+  'password',
+  'passwordConfirm',
+  'currentPassword',
+  'newPassword',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'secret',
+  'apiKey',
+  'api_key',
+  'authorization',
+  'creditCard',
+  'credit_card',
+  'cardNumber',
+  'card_number',
+  'cvv',
+  'ssn',
+  'socialSecurityNumber',
+  'pin',
+  'otp',
+  'verificationCode',
+  'privateKey',
+  'private_key',
 ];
 
 /** The mask string to replace sensitive values with */
-const MASK_STRING = '***MASKED***';
+export const MASK_STRING = '***MASKED***';
+
+/** Marker replacing references that point back to an ancestor */
+const CIRCULAR_MARKER = '[Circular]';
+
+/** Marker replacing values nested deeper than the configured limit */
+const MAX_DEPTH_MARKER = '[MaxDepth]';
+
+/** Default maximum traversal depth */
+export const DEFAULT_MASK_MAX_DEPTH = 10;
 
 /**
- * Recursively masks sensitive fields in an object.
- * @param data - The object to mask
- * @param sensitiveFields - Array of field names to mask (case-insensitive)
- * @returns A new object with sensitive fields masked
+ * Key patterns masked in addition to DEFAULT_SENSITIVE_FIELDS.
+ * Catches variants such as `userPassword`, `x-api-key` or `client_secret`.
  */
-export function maskSensitiveData<T extends Record<string, unknown>>(
-    data: T,
-    sensitiveFields: string[] = DEFAULT_SENSITIVE_FIELDS,
-): T {
-    if (data === null || data === undefined) {
-        return data;
+const DEFAULT_SENSITIVE_KEY_PATTERNS: RegExp[] = [
+  /pass(word|wd|phrase)/i,
+  /secret/i,
+  /token/i,
+  /api[-_]?key/i,
+  /authorization/i,
+  /^(set-)?cookie$/i,
+  /private[-_]?key/i,
+  /(credit|debit)[-_]?card|card[-_]?number/i,
+];
+
+/** Sentinel returned for values removed by the DROP strategy */
+const DROPPED = Symbol('dropped');
+
+/** Compiled key rule */
+interface ICompiledKeyRule {
+  matcher: RegExp;
+  strategy: MaskStrategy;
+}
+
+/**
+ * Converts a glob (`*` and `?` wildcards) into an anchored, case-insensitive RegExp.
+ * Regular expressions are recompiled without the global flag so `test` is stateless.
+ */
+function compileKeyPattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    return new RegExp(pattern.source, pattern.flags.replace('g', ''));
+  }
+
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Builds the default engine configuration.
+ * @returns Options masking the default sensitive fields and patterns with the default detectors
+ */
+export function createDefaultMaskingOptions(): IMaskingOptions {
+  return {
+    keyRules: [
+      ...DEFAULT_SENSITIVE_FIELDS,
+      ...DEFAULT_SENSITIVE_KEY_PATTERNS,
+    ].map((pattern) => ({ pattern, strategy: MaskStrategy.FULL })),
+    detectors: DEFAULT_DETECTOR_NAMES.map((name) => BUILT_IN_DETECTORS[name]),
+    maxDepth: DEFAULT_MASK_MAX_DEPTH,
+    hashSalt: randomBytes(16).toString('hex'),
+  };
+}
+
+/**
+ * Whether a value defines its own JSON representation.
+ */
+function hasToJSON(value: object): value is { toJSON: () => unknown } {
+  return typeof (value as { toJSON?: unknown }).toJSON === 'function';
+}
+
+/**
+ * Masking engine applying key rules and value detectors to arbitrary data.
+ * Input is never mutated; a masked copy is returned.
+ */
+export class MaskingEngine {
+  private readonly keyRules: ICompiledKeyRule[];
+  private readonly detectors: IMaskingValueDetector[];
+  private readonly maxDepth: number;
+  private readonly hashSalt: string;
+
+  constructor(options: IMaskingOptions = createDefaultMaskingOptions()) {
+    this.keyRules = options.keyRules.map((rule: IMaskingKeyRule) => ({
+      matcher: compileKeyPattern(rule.pattern),
+      strategy: rule.strategy,
+    }));
+    this.detectors = options.detectors;
+    this.maxDepth = options.maxDepth;
+    this.hashSalt = options.hashSalt;
+  }
+
+  /**
+   * Masks a value recursively.
+   * @param data - Any value (object, array, string, primitive)
+   * @param extraFields - Additional exact field names to mask fully
+   * @returns A masked copy of the value
+   */
+  mask<T>(data: T, extraFields: string[] = []): T {
+    const rules = extraFields.length
+      ? [
+          ...this.keyRules,
+          ...extraFields.map((field) => ({
+            matcher: compileKeyPattern(field),
+            strategy: MaskStrategy.FULL,
+          })),
+        ]
+      : this.keyRules;
+
+    const masked = this.maskValue(data, rules, 0, new WeakSet<object>());
+    return (masked === DROPPED ? undefined : masked) as T;
+  }
+
+  /**
+   * Applies value detectors to a string.
+   * @param value - The string to scan
+   * @returns The string with every detected secret masked, or DROPPED
+   */
+  private maskString(value: string): string | typeof DROPPED {
+    let result = value;
+
+    for (const detector of this.detectors) {
+      let dropped = false;
+      result = result.replace(detector.pattern, (match) => {
+        if (detector.validate && !detector.validate(match)) {
+          return match;
+        }
+        if (detector.strategy === MaskStrategy.DROP) {
+          dropped = true;
+          return match;
+        }
+        return this.applyStrategy(match, detector.strategy) as string;
+      });
+
+      if (dropped) {
+        return DROPPED;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Recursively masks a value, tracking ancestors to detect cycles.
+   */
+  private maskValue(
+    value: unknown,
+    rules: ICompiledKeyRule[],
+    depth: number,
+    ancestors: WeakSet<object>,
+  ): unknown {
+    if (typeof value === 'string') {
+      return this.maskString(value);
+    }
+
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    // Keep values without meaningful own keys intact
+    if (value instanceof Date || Buffer.isBuffer(value)) {
+      return value;
+    }
+
+    // Mask what JSON.stringify would serialize, e.g. value objects hiding their internals
+    if (hasToJSON(value)) {
+      const serialized: unknown = value.toJSON();
+      if (serialized !== value) {
+        return this.maskValue(serialized, rules, depth, ancestors);
+      }
     }
 
-    if (typeof data !== 'object') {
-        return data;
+    if (ancestors.has(value)) {
+      return CIRCULAR_MARKER;
     }
 
-    if (Array.isArray(data)) {
-        return data.map((item) =>
-            typeof item === 'object' && item !== null
-                ? maskSensitiveData(item as Record<string, unknown>, sensitiveFields)
-                : item,
-        ) as unknown as T;
+    if (depth >= this.maxDepth) {
+      return MAX_DEPTH_MARKER;
     }
 
-    const maskedData: Record<string, unknown> = {};
-    const lowerSensitiveFields = sensitiveFields.map((f) => f.toLowerCase());
-
-    for (const [key, value] of Object.entries(data)) {
-        const lowerKey = key.toLowerCase();
-
-        if (lowerSensitiveFields.includes(lowerKey)) {
-            // Mask the sensitive field
-            maskedData[key] = MASK_STRING;
-        } else if (typeof value === 'object' && value !== null) {
-            // Recursively mask nested objects
-            maskedData[key] = maskSensitiveData(
-                value as Record<string, unknown>,
-                sensitiveFields,
-            );
-        } else {
-            maskedData[key] = value;
+    ancestors.add(value);
+    try {
+      if (Array.isArray(value)) {
+        return value
+          .map((item) => this.maskValue(item, rules, depth + 1, ancestors))
+          .filter((item) => item !== DROPPED);
+      }
+
+      const maskedData: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        const rule = rules.find(({ matcher }) => matcher.test(key));
+        const masked = rule
+          ? this.applyStrategy(entry, rule.strategy)
+          : this.maskValue(entry, rules, depth + 1, ancestors);
+
+        if (masked !== DROPPED) {
+          maskedData[key] = masked;
         }
+      }
+
+      return maskedData;
+    } finally {
+      // Only ancestors count as cycles; shared siblings are masked again
+      ancestors.delete(value);
+    }
+  }
+
+  /**
+   * Applies a masking strategy to a single value.
+   */
+  private applyStrategy(value: unknown, strategy: MaskStrategy): unknown {
+    if (value === null || value === undefined) {
+      return value;
     }
 
-    return maskedData as T;
+    const stringValue =
+      typeof value === 'string' ? value : JSON.stringify(value);
+
+    switch (strategy) {
+      case MaskStrategy.DROP:
+        return DROPPED;
+      case MaskStrategy.PARTIAL:
+        return partialMask(stringValue);
+      case MaskStrategy.EMAIL:
+        return maskEmail(stringValue);
+      case MaskStrategy.HASH:
+        return `sha256:${createHmac('sha256', this.hashSalt)
+          .update(stringValue)
+          .digest('hex')
+          .substring(0, 16)}`;
+      case MaskStrategy.FULL:
+      default:
+        return MASK_STRING;
+    }
+  }
+}
+
+/** Engine used by maskSensitiveData; replaced by configureMasking() */
+let activeEngine = new MaskingEngine();
+
+/**
+ * Replaces the engine used by maskSensitiveData.
+ * Called once at bootstrap by MaskingInfrastructureModule.
+ * @param options - Options overriding the defaults
+ */
+export function configureMasking(options: Partial<IMaskingOptions>): void {
+  activeEngine = new MaskingEngine({
+    ...createDefaultMaskingOptions(),
+    ...options,
+  });
+}
+
+/**
+ * Recursively masks sensitive data using the configured masking engine.
+ * @param data - The value to mask
+ * @param sensitiveFields - Additional field names to mask (case-insensitive, exact match)
+ * @returns A new value with sensitive data masked
+ */
+export function maskSensitiveData<T>(
+  data: T,
+  sensitiveFields: string[] = [],
+): T {
+  return activeEngine.mask(data, sensitiveFields);
 }
 
 /**
@@ -91,24 +325,24 @@ export function maskSensitiveData<T extends Record<string, unknown>>(
  * @returns The partially masked string
  */
 export function partialMask(
-    value: string,
-    visibleStart = 4,
-    visibleEnd = 4,
+  value: string,
+  visibleStart = 4,
+  visibleEnd = 4,
 ): string {
-    if (!value || typeof value !== 'string') {
-        return MASK_STRING;
-    }
+  if (!value || typeof value !== 'string') {
+    return MASK_STRING;
+  }
 
-    if (value.length <= visibleStart + visibleEnd) {
-        return MASK_STRING;
-    }
+  if (value.length <= visibleStart + visibleEnd) {
+    return MASK_STRING;
+  }
 
-    const start = value.substring(0, visibleStart);
-    const end = value.substring(value.length - visibleEnd);
-    const maskLength = Math.min(value.length - visibleStart - visibleEnd, 8);
-    const mask = '*'.repeat(maskLength);
+  const start = value.substring(0, visibleStart);
+  const end = value.substring(value.length - visibleEnd);
+  const maskLength = Math.min(value.length - visibleStart - visibleEnd, 8);
+  const mask = '*'.repeat(maskLength);
 
-    return `${start}${mask}${end}`;
+  return `${start}${mask}${end}`;
 }
 
 /**
@@ -118,47 +352,49 @@ export function partialMask(
  * @returns The masked email
  */
 export function maskEmail(email: string): string {
-    if (!email || typeof email !== 'string' || !email.includes('@')) {
-        return MASK_STRING;
-    }
+  if (!email || typeof email !== 'string' || !email.includes('@')) {
+    return MASK_STRING;
+  }
 
-    const [username, domain] = email.split('@');
-    const maskedUsername =
-        username.length > 2
-            ? `${username[0]}***${username[username.length - 1]}`
-            : '***';
+  const [username, domain] = email.split('@');
+  const maskedUsername =
+    username.length > 2
+      ? `${username[0]}***${username[username.length - 1]}`
+      : '***';
 
-    const domainParts = domain.split('.');
-    const maskedDomain =
-        domainParts.length > 1
-            ? `${domainParts[0][0]}***.${domainParts[domainParts.length - 1]}`
-            : '***';
+  const domainParts = domain.split('.');
+  const maskedDomain =
+    domainParts.length > 1
+      ? `${domainParts[0][0]}***.${domainParts[domainParts.length - 1]}`
+      : '***';
 
-    return `${maskedUsername}@${maskedDomain}`;
+  return `${maskedUsername}@${maskedDomain}`;
 }
 
 /**
  * Masks IP addresses for privacy, showing only the first segment.
+ * Always masks, whatever the IP privacy policy; use anonymizeIpForLog()
+ * to apply the configured log mode instead.
  * Example: 192.168.1.100 -> 192.***.***
  * @param ip - The IP address to mask
  * @returns The masked IP
  */
 export function maskIpAddress(ip: string): string {
-    if (!ip || typeof ip !== 'string') {
-        return MASK_STRING;
-    }
+  if (!ip || typeof ip !== 'string') {
+    return MASK_STRING;
+  }
 
-    // IPv4
-    if (ip.includes('.') && !ip.includes(':')) {
-        const parts = ip.split('.');
-        return `${parts[0]}.***.***`;
-    }
+  // IPv4
+  if (ip.includes('.') && !ip.includes(':')) {
+    const parts = ip.split('.');
+    return `${parts[0]}.***.***`;
+  }
 
-    // IPv6
-    if (ip.includes(':')) {
-        const parts = ip.split(':');
-        return `${parts[0]}:****:****`;
-    }
+  // IPv6
+  if (ip.includes(':')) {
+    const parts = ip.split(':');
+    return `${parts[0]}:****:****`;
+  }
 
-    return MASK_STRING;
+  return MASK_STRING;
 }
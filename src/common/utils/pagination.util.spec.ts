@@ -0,0 +1,141 @@
+import { PaginationQueryDto } from '../dto/pagination-query.dto';
+import {
+  buildPaginationLinks,
+  buildPaginationMeta,
+  getPaginationOffset,
+  isPaginatedResult,
+} from './pagination.util';
+
+const items = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+describe('getPaginationOffset', () => {
+  it('should convert page and limit to skip and take', () => {
+    expect(
+      getPaginationOffset({ page: 3, limit: 20 } as PaginationQueryDto),
+    ).toEqual({ skip: 40, take: 20 });
+    expect(getPaginationOffset({ limit: 10 } as PaginationQueryDto)).toEqual({
+      skip: 0,
+      take: 10,
+    });
+  });
+});
+
+describe('isPaginatedResult', () => {
+  it('should require an items array and a numeric limit', () => {
+    expect(isPaginatedResult({ items: [], limit: 20 })).toBe(true);
+    expect(isPaginatedResult({ items: [] })).toBe(false);
+    expect(isPaginatedResult([1, 2])).toBe(false);
+    expect(isPaginatedResult(null)).toBe(false);
+  });
+});
+
+describe('buildPaginationMeta', () => {
+  it('should compute total pages and neighbours for offset pagination', () => {
+    expect(
+      buildPaginationMeta({ items: items(20), limit: 20, total: 45, page: 2 }),
+    ).toEqual({
+      limit: 20,
+      page: 2,
+      total: 45,
+      totalPages: 3,
+      hasPrevious: true,
+      hasNext: true,
+    });
+    expect(
+      buildPaginationMeta({ items: items(5), limit: 20, total: 45, page: 3 }),
+    ).toMatchObject({ hasPrevious: true, hasNext: false });
+  });
+
+  it('should report one page for empty results', () => {
+    expect(
+      buildPaginationMeta({ items: [], limit: 20, total: 0, page: 1 }),
+    ).toEqual({
+      limit: 20,
+      page: 1,
+      total: 0,
+      totalPages: 1,
+      hasPrevious: false,
+      hasNext: false,
+    });
+  });
+
+  it('should guess hasNext from a full page when the total is unknown', () => {
+    expect(
+      buildPaginationMeta({ items: items(20), limit: 20, page: 1 }),
+    ).toEqual({ limit: 20, page: 1, hasPrevious: false, hasNext: true });
+    expect(
+      buildPaginationMeta({ items: items(7), limit: 20, page: 2 }),
+    ).toMatchObject({ hasNext: false });
+  });
+
+  it('should use the next cursor for cursor pagination', () => {
+    expect(
+      buildPaginationMeta({ items: items(20), limit: 20, nextCursor: 'abc' }),
+    ).toEqual({ limit: 20, nextCursor: 'abc', hasNext: true });
+    expect(buildPaginationMeta({ items: items(3), limit: 20 })).toEqual({
+      limit: 20,
+      nextCursor: null,
+      hasNext: false,
+    });
+  });
+});
+
+describe('buildPaginationLinks', () => {
+  const links = (originalUrl: string, total: number, page: number) =>
+    buildPaginationLinks(
+      originalUrl,
+      buildPaginationMeta({ items: items(10), limit: 10, total, page }),
+    );
+
+  it('should link first, prev, next and last on middle pages', () => {
+    expect(links('/api/users?page=2&limit=10', 30, 2)).toBe(
+      [
+        '</api/users?page=1&limit=10>; rel="first"',
+        '</api/users?page=1&limit=10>; rel="prev"',
+        '</api/users?page=3&limit=10>; rel="next"',
+        '</api/users?page=3&limit=10>; rel="last"',
+      ].join(', '),
+    );
+  });
+
+  it('should omit prev on the first page and next on the last page', () => {
+    expect(links('/api/users', 30, 1)).toBe(
+      [
+        '</api/users?page=1&limit=10>; rel="first"',
+        '</api/users?page=2&limit=10>; rel="next"',
+        '</api/users?page=3&limit=10>; rel="last"',
+      ].join(', '),
+    );
+    expect(links('/api/users?page=3', 30, 3)).toBe(
+      [
+        '</api/users?page=1&limit=10>; rel="first"',
+        '</api/users?page=2&limit=10>; rel="prev"',
+        '</api/users?page=3&limit=10>; rel="last"',
+      ].join(', '),
+    );
+  });
+
+  it('should keep the other query parameters', () => {
+    expect(links('/api/users?sort=name&status=active&page=1', 20, 1)).toContain(
+      '</api/users?sort=name&status=active&page=2&limit=10>; rel="next"',
+    );
+  });
+
+  it('should link the next cursor for cursor pagination', () => {
+    const meta = buildPaginationMeta({
+      items: items(10),
+      limit: 10,
+      nextCursor: 'abc',
+    });
+
+    expect(buildPaginationLinks('/api/events?cursor=xyz', meta)).toBe(
+      '</api/events?cursor=abc&limit=10>; rel="next"',
+    );
+    expect(
+      buildPaginationLinks(
+        '/api/events',
+        buildPaginationMeta({ items: [], limit: 10 }),
+      ),
+    ).toBeUndefined();
+  });
+});
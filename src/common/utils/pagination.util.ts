@@ -0,0 +1,114 @@
+import { PaginationQueryDto } from '../dto/pagination-query.dto';
+import {
+  IPaginatedResult,
+  IPaginationMeta,
+} from '../interfaces/pagination.interface';
+
+/**
+ * Converts an offset pagination query to skip/take values for ORMs.
+ * Example: { page: 3, limit: 20 } -> { skip: 40, take: 20 }
+ * @param query - Validated pagination query
+ * @returns Number of items to skip and take
+ */
+export function getPaginationOffset(query: PaginationQueryDto): {
+  skip: number;
+  take: number;
+} {
+  const page = query.page ?? 1;
+  return { skip: (page - 1) * query.limit, take: query.limit };
+}
+
+/**
+ * Type guard for values returned by @Paginated() endpoints.
+ * @param value - The handler result
+ * @returns True if the value has an `items` array and a numeric `limit`
+ */
+export function isPaginatedResult(
+  value: unknown,
+): value is IPaginatedResult<unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Array.isArray((value as IPaginatedResult<unknown>).items) &&
+    typeof (value as IPaginatedResult<unknown>).limit === 'number'
+  );
+}
+
+/**
+ * Builds `meta.pagination` from a paginated result.
+ * @param result - The handler result
+ * @returns Pagination metadata
+ */
+export function buildPaginationMeta(
+  result: IPaginatedResult<unknown>,
+): IPaginationMeta {
+  const { limit, total, page, nextCursor } = result;
+
+  // Cursor pagination
+  if (page === undefined) {
+    return {
+      limit,
+      nextCursor: nextCursor ?? null,
+      hasNext: Boolean(nextCursor),
+    };
+  }
+
+  // Offset pagination
+  const totalPages =
+    total !== undefined ? Math.max(Math.ceil(total / limit), 1) : undefined;
+
+  return {
+    limit,
+    page,
+    ...(total !== undefined ? { total, totalPages } : {}),
+    hasPrevious: page > 1,
+    hasNext:
+      totalPages !== undefined
+        ? page < totalPages
+        : result.items.length === limit,
+  };
+}
+
+/**
+ * Builds an RFC 8288 `Link` header value for a paginated response.
+ * Links keep every other query parameter of the original request.
+ * Example: </api/users?page=3&limit=20>; rel="next", </api/users?page=1&limit=20>; rel="first"
+ * @param originalUrl - The request URL (path and query string)
+ * @param meta - Pagination metadata
+ * @returns The header value, or undefined if there are no links
+ */
+export function buildPaginationLinks(
+  originalUrl: string,
+  meta: IPaginationMeta,
+): string | undefined {
+  const links: string[] = [];
+
+  const link = (rel: string, params: Record<string, string | number>) => {
+    // Base is only needed to parse the relative URL; it is stripped again
+    const url = new URL(originalUrl, 'http://localhost');
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, String(value));
+    }
+    links.push(`<${url.pathname}${url.search}>; rel="${rel}"`);
+  };
+
+  if (meta.page === undefined) {
+    if (meta.nextCursor) {
+      link('next', { cursor: meta.nextCursor, limit: meta.limit });
+    }
+    return links.length ? links.join(', ') : undefined;
+  }
+
+  link('first', { page: 1, limit: meta.limit });
+  if (meta.hasPrevious) {
+    link('prev', { page: meta.page - 1, limit: meta.limit });
+  }
+  if (meta.hasNext) {
+    link('next', { page: meta.page + 1, limit: meta.limit });
+  }
+  if (meta.totalPages !== undefined) {
+    link('last', { page: meta.totalPages, limit: meta.limit });
+  }
+
+  return links.join(', ');
+}
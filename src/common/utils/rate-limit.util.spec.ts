@@ -0,0 +1,79 @@
+import { RateLimitAlgorithm } from '../enums/rate-limit-algorithm.enum';
+import { RateLimitKey } from '../enums/rate-limit-key.enum';
+import { IRateLimitRule } from '../interfaces/rate-limit-rule.interface';
+import { consumeRateLimit, RateLimitState } from './rate-limit.util';
+
+const rule = (algorithm: RateLimitAlgorithm): IRateLimitRule => ({
+  limit: 3,
+  windowMs: 1000,
+  algorithm,
+  keyBy: RateLimitKey.IP,
+  name: 'test',
+});
+
+/** Consumes one request per timestamp and returns the verdicts */
+const run = (algorithm: RateLimitAlgorithm, times: number[]) => {
+  let state: RateLimitState | undefined;
+  return times.map((now) => {
+    const step = consumeRateLimit(state, rule(algorithm), now);
+    state = step.state;
+    return step.result;
+  });
+};
+
+describe('consumeRateLimit', () => {
+  describe('fixed window', () => {
+    it('should allow `limit` requests per window', () => {
+      const results = run(RateLimitAlgorithm.FIXED_WINDOW, [0, 100, 200, 300]);
+
+      expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+      expect(results[2].remaining).toBe(0);
+      expect(results[3].retryAfterMs).toBe(700);
+    });
+
+    it('should reset at the window boundary', () => {
+      const results = run(
+        RateLimitAlgorithm.FIXED_WINDOW,
+        [0, 100, 200, 300, 1000],
+      );
+
+      expect(results[4]).toMatchObject({ allowed: true, remaining: 2 });
+    });
+  });
+
+  describe('sliding window', () => {
+    it('should weigh the previous window', () => {
+      // 3 requests late in window 0; at 1250 they still count 3 * 0.75 = 2.25
+      const results = run(
+        RateLimitAlgorithm.SLIDING_WINDOW,
+        [900, 950, 990, 1250, 1800],
+      );
+
+      expect(results.map((r) => r.allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+        true,
+      ]);
+      // Allowed again once the weight drops to 2 (at 1334ms)
+      expect(results[3].retryAfterMs).toBe(84);
+    });
+  });
+
+  describe('token bucket', () => {
+    it('should allow bursts up to the capacity and refill over time', () => {
+      const results = run(RateLimitAlgorithm.TOKEN_BUCKET, [0, 0, 0, 0, 334]);
+
+      expect(results.map((r) => r.allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+        true,
+      ]);
+      expect(results[3].retryAfterMs).toBe(334);
+      expect(results[4].remaining).toBe(0);
+    });
+  });
+});
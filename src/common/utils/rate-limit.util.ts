@@ -0,0 +1,175 @@
+import { RateLimitAlgorithm } from '../enums/rate-limit-algorithm.enum';
+import {
+  IRateLimitResult,
+  IRateLimitRule,
+} from '../interfaces/rate-limit-rule.interface';
+
+/** Counter of the current fixed window */
+export interface IFixedWindowState {
+  windowStart: number;
+  count: number;
+}
+
+/** Counters of the current and the previous window */
+export interface ISlidingWindowState extends IFixedWindowState {
+  previousCount: number;
+}
+
+/** Tokens left at the time of the last update */
+export interface ITokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** State kept per key by rate limit stores */
+export type RateLimitState =
+  | IFixedWindowState
+  | ISlidingWindowState
+  | ITokenBucketState;
+
+/** New state and verdict of a consume step */
+export interface IRateLimitStep<S extends RateLimitState = RateLimitState> {
+  state: S;
+  result: IRateLimitResult;
+}
+
+/**
+ * Fixed window: at most `limit` requests per aligned window.
+ */
+export function consumeFixedWindow(
+  state: IFixedWindowState | undefined,
+  rule: IRateLimitRule,
+  now: number,
+): IRateLimitStep<IFixedWindowState> {
+  const windowStart = now - (now % rule.windowMs);
+  const count = state?.windowStart === windowStart ? state.count : 0;
+  const resetMs = windowStart + rule.windowMs - now;
+  const allowed = count < rule.limit;
+  const newCount = allowed ? count + 1 : count;
+
+  return {
+    state: { windowStart, count: newCount },
+    result: {
+      allowed,
+      limit: rule.limit,
+      remaining: rule.limit - newCount,
+      resetMs,
+      retryAfterMs: allowed ? 0 : resetMs,
+    },
+  };
+}
+
+/**
+ * Sliding window counter: the previous window's count is weighted by how much
+ * of it still overlaps the sliding window.
+ * Example: limit 10, previous 8, 25% into the current window with 3 requests
+ * -> 8 * 0.75 + 3 = 9 requests counted.
+ */
+export function consumeSlidingWindow(
+  state: ISlidingWindowState | undefined,
+  rule: IRateLimitRule,
+  now: number,
+): IRateLimitStep<ISlidingWindowState> {
+  const windowStart = now - (now % rule.windowMs);
+  let count = 0;
+  let previousCount = 0;
+
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previousCount = state.previousCount;
+  } else if (state?.windowStart === windowStart - rule.windowMs) {
+    previousCount = state.count;
+  }
+
+  const elapsed = now - windowStart;
+  const resetMs = rule.windowMs - elapsed;
+  const weighted = (previousCount * resetMs) / rule.windowMs + count;
+  const allowed = weighted + 1 <= rule.limit;
+  const newCount = allowed ? count + 1 : count;
+
+  // Until the previous window has decayed enough, or the current one ends
+  let retryAfterMs = 0;
+  if (!allowed) {
+    retryAfterMs =
+      count + 1 > rule.limit || previousCount === 0
+        ? resetMs
+        : Math.ceil(
+            resetMs -
+              ((rule.limit - count - 1) * rule.windowMs) / previousCount,
+          );
+  }
+
+  return {
+    state: { windowStart, count: newCount, previousCount },
+    result: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.max(
+        Math.floor(rule.limit - weighted - (allowed ? 1 : 0)),
+        0,
+      ),
+      resetMs,
+      retryAfterMs: Math.max(retryAfterMs, allowed ? 0 : 1),
+    },
+  };
+}
+
+/**
+ * Token bucket: holds up to `limit` tokens and refills `limit` tokens per window.
+ */
+export function consumeTokenBucket(
+  state: ITokenBucketState | undefined,
+  rule: IRateLimitRule,
+  now: number,
+): IRateLimitStep<ITokenBucketState> {
+  const refillPerMs = rule.limit / rule.windowMs;
+  const tokens = state
+    ? Math.min(rule.limit, state.tokens + (now - state.updatedAt) * refillPerMs)
+    : rule.limit;
+
+  const allowed = tokens >= 1;
+  const newTokens = allowed ? tokens - 1 : tokens;
+
+  return {
+    state: { tokens: newTokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(newTokens),
+      resetMs: Math.ceil((rule.limit - newTokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+/**
+ * Applies the rule's algorithm to a key's state.
+ * @param state - Previous state of the key (undefined for new keys)
+ * @param rule - Rate limit rule
+ * @param now - Current time in milliseconds
+ */
+export function consumeRateLimit(
+  state: RateLimitState | undefined,
+  rule: IRateLimitRule,
+  now = Date.now(),
+): IRateLimitStep {
+  switch (rule.algorithm) {
+    case RateLimitAlgorithm.FIXED_WINDOW:
+      return consumeFixedWindow(state as IFixedWindowState, rule, now);
+    case RateLimitAlgorithm.TOKEN_BUCKET:
+      return consumeTokenBucket(state as ITokenBucketState, rule, now);
+    case RateLimitAlgorithm.SLIDING_WINDOW:
+    default:
+      return consumeSlidingWindow(state as ISlidingWindowState, rule, now);
+  }
+}
+
+/**
+ * How long a key's state stays relevant after its last update.
+ * Sliding windows also need the previous window.
+ */
+export function getRateLimitStateTtl(rule: IRateLimitRule): number {
+  return rule.algorithm === RateLimitAlgorithm.SLIDING_WINDOW
+    ? 2 * rule.windowMs
+    : rule.windowMs;
+}
@@ -0,0 +1,67 @@
+import { ExecutionContext, StreamableFile } from '@nestjs/common';
+import {
+  REDIRECT_METADATA,
+  RENDER_METADATA,
+  RESPONSE_PASSTHROUGH_METADATA,
+  ROUTE_ARGS_METADATA,
+  SSE_METADATA,
+} from '@nestjs/common/constants';
+import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum';
+import { Stream } from 'stream';
+
+/**
+ * Checks whether a handler result is a binary or streamed body
+ * that must reach the client untouched.
+ * @param data - Handler result
+ */
+export function isRawResponseBody(data: unknown): boolean {
+  return (
+    data instanceof StreamableFile ||
+    data instanceof Stream ||
+    Buffer.isBuffer(data) ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data)
+  );
+}
+
+/**
+ * Checks whether Nest hands the response over to the handler instead of
+ * serializing its result: `@Res()`/`@Next()` without passthrough,
+ * `@Redirect()`, `@Render()` and `@Sse()` routes.
+ * Mirrors the checks of Nest's RouterExecutionContext.
+ * @param context - Execution context of the matched route
+ */
+export function isResponseManagedByRoute(context: ExecutionContext): boolean {
+  const controller = context.getClass();
+  const handler = context.getHandler();
+
+  if (
+    Reflect.getMetadata(REDIRECT_METADATA, handler) ||
+    Reflect.getMetadata(RENDER_METADATA, handler) ||
+    Reflect.getMetadata(SSE_METADATA, handler)
+  ) {
+    return true;
+  }
+
+  const routeArgs =
+    (Reflect.getMetadata(ROUTE_ARGS_METADATA, controller, handler.name) as
+      | Record<string, unknown>
+      | undefined) ?? {};
+  // Route argument keys are formatted as `${paramtype}:${index}`
+  const responseParamtypes = [
+    RouteParamtypes.RESPONSE,
+    RouteParamtypes.NEXT,
+  ].map(String);
+  const injectsResponse = Object.keys(routeArgs).some((key) =>
+    responseParamtypes.includes(key.split(':')[0]),
+  );
+
+  return (
+    injectsResponse &&
+    !Reflect.getMetadata(
+      RESPONSE_PASSTHROUGH_METADATA,
+      controller,
+      handler.name,
+    )
+  );
+}
@@ -0,0 +1,143 @@
+import { BUILT_IN_DETECTORS } from './mask-detectors.util';
+import { MASK_STRING } from './mask.util';
+import {
+  buildRedactionPolicy,
+  configureResponseRedaction,
+  redactResponseData,
+} from './redaction.util';
+
+const policy = { enabled: true, fields: [] };
+
+class Money {
+  constructor(private readonly cents: number) {}
+
+  toJSON(): string {
+    return (this.cents / 100).toFixed(2);
+  }
+}
+
+class Account {
+  constructor(
+    readonly owner: string,
+    readonly password: string,
+  ) {}
+}
+
+describe('redactResponseData', () => {
+  afterEach(() => {
+    configureResponseRedaction({});
+  });
+
+  it('should redact exact sensitive field names', () => {
+    expect(
+      redactResponseData(
+        { id: 1, password: 'p', AccessToken: 't', cvv: '123' },
+        policy,
+      ),
+    ).toEqual({
+      id: 1,
+      password: MASK_STRING,
+      AccessToken: MASK_STRING,
+      cvv: MASK_STRING,
+    });
+  });
+
+  it('should pass unrelated fields through unchanged', () => {
+    const data = {
+      id: '1234567812345670',
+      tokenType: 'Bearer',
+      passwordPolicy: { minLength: 12 },
+      note: 'Bearer abc.def.ghi',
+      email: 'john.doe@example.com',
+    };
+
+    expect(redactResponseData(data, policy)).toEqual(data);
+  });
+
+  it('should not cut off deeply nested data', () => {
+    let data: Record<string, unknown> = { value: 'leaf', password: 'p' };
+    for (let level = 0; level < 20; level++) {
+      data = { child: data };
+    }
+
+    let redacted = redactResponseData(data, policy);
+    for (let level = 0; level < 20; level++) {
+      redacted = redacted.child as Record<string, unknown>;
+    }
+    expect(redacted).toEqual({ value: 'leaf', password: MASK_STRING });
+  });
+
+  it('should add route fields and skip redaction when disabled', () => {
+    const data = { internalNotes: 'n', password: 'p' };
+
+    expect(
+      redactResponseData(data, { enabled: true, fields: ['internalNotes'] }),
+    ).toEqual({ internalNotes: MASK_STRING, password: MASK_STRING });
+    expect(redactResponseData(data, { enabled: false, fields: [] })).toEqual(
+      data,
+    );
+  });
+
+  it('should serialize values the way JSON.stringify does', () => {
+    const createdAt = new Date('2026-01-01T00:00:00.000Z');
+    const redacted = redactResponseData(
+      {
+        createdAt,
+        price: new Money(1234),
+        account: new Account('john', 'p'),
+      },
+      policy,
+    );
+
+    expect(redacted).toEqual({
+      createdAt,
+      price: '12.34',
+      account: { owner: 'john', password: MASK_STRING },
+    });
+    expect(JSON.stringify(redacted)).toBe(
+      `{"createdAt":"2026-01-01T00:00:00.000Z","price":"12.34","account":{"owner":"john","password":"${MASK_STRING}"}}`,
+    );
+  });
+
+  it('should apply opt-in detectors and depth limit', () => {
+    configureResponseRedaction({
+      detectors: [BUILT_IN_DETECTORS['bearer-token']],
+      maxDepth: 1,
+    });
+
+    expect(
+      redactResponseData(
+        { note: 'Bearer abc.def.ghi', nested: { deep: 1 } },
+        policy,
+      ),
+    ).toEqual({ note: MASK_STRING, nested: '[MaxDepth]' });
+  });
+});
+
+describe('buildRedactionPolicy', () => {
+  it('should enable redaction globally or through route fields', () => {
+    expect(
+      buildRedactionPolicy({ globalEnabled: true, routeFields: [] }),
+    ).toEqual({ enabled: true, fields: [], groups: undefined });
+    expect(
+      buildRedactionPolicy({ globalEnabled: false, routeFields: [['jwt']] }),
+    ).toEqual({ enabled: true, fields: ['jwt'], groups: undefined });
+  });
+
+  it('should let routes opt out while keeping fields for logs', () => {
+    const policy = buildRedactionPolicy({
+      globalEnabled: true,
+      routeFields: [['jwt']],
+      skip: true,
+    });
+
+    expect(policy).toEqual({
+      enabled: false,
+      fields: ['jwt'],
+      groups: undefined,
+    });
+    expect(
+      redactResponseData({ accessToken: 'a', refreshToken: 'r' }, policy),
+    ).toEqual({ accessToken: 'a', refreshToken: 'r' });
+  });
+});
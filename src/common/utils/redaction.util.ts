@@ -0,0 +1,93 @@
+import { instanceToPlain } from 'class-transformer';
+import { MaskStrategy } from '../enums/mask-strategy.enum';
+import { IMaskingOptions } from '../interfaces/masking-options.interface';
+import { IRedactionPolicy } from '../interfaces/redaction-policy.interface';
+import {
+  createDefaultMaskingOptions,
+  DEFAULT_SENSITIVE_FIELDS,
+  MaskingEngine,
+} from './mask.util';
+
+/**
+ * Builds the response redaction configuration.
+ * Unlike log masking, response data is legitimate output: only exact sensitive
+ * field names are redacted. There are no key patterns (`tokenType` passes),
+ * no value detectors (Luhn-valid numeric IDs pass) and no depth cutoff
+ * unless opted in via `overrides`.
+ * @param overrides - Opt-in detectors, depth limit or salt
+ */
+export function createResponseRedactionOptions(
+  overrides: Partial<IMaskingOptions> = {},
+): IMaskingOptions {
+  return {
+    ...createDefaultMaskingOptions(),
+    keyRules: DEFAULT_SENSITIVE_FIELDS.map((pattern) => ({
+      pattern,
+      strategy: MaskStrategy.FULL,
+    })),
+    detectors: [],
+    maxDepth: Infinity,
+    ...overrides,
+  };
+}
+
+/** Engine used by redactResponseData; replaced by configureResponseRedaction() */
+let responseEngine = new MaskingEngine(createResponseRedactionOptions());
+
+/**
+ * Replaces the engine used by redactResponseData.
+ * Called once at bootstrap by MaskingInfrastructureModule.
+ * @param options - Options overriding the response defaults
+ */
+export function configureResponseRedaction(
+  options: Partial<IMaskingOptions>,
+): void {
+  responseEngine = new MaskingEngine(createResponseRedactionOptions(options));
+}
+
+/**
+ * Builds the redaction policy of a route.
+ * Redaction is enabled globally (RESPONSE_REDACTION_ENABLED) or by route fields
+ * (@Redact()); @SkipRedaction() turns it off for the response while the fields
+ * keep masking logged request bodies.
+ * @param options - Global switch and route metadata
+ */
+export function buildRedactionPolicy(options: {
+  globalEnabled: boolean;
+  routeFields: string[][];
+  skip?: boolean;
+  groups?: string[];
+}): IRedactionPolicy {
+  const { globalEnabled, routeFields, skip, groups } = options;
+
+  return {
+    enabled: !skip && (globalEnabled || routeFields.length > 0),
+    fields: routeFields.flat(),
+    groups,
+  };
+}
+
+/**
+ * Applies a redaction policy to response data.
+ * - Group exposure is applied first (class-transformer `@Expose({ groups })`)
+ * - Sensitive fields are then redacted recursively
+ * Primitive values are returned unchanged.
+ * @param data - The response payload
+ * @param policy - The resolved redaction policy
+ * @returns A redacted copy of the payload
+ */
+export function redactResponseData<T>(data: T, policy: IRedactionPolicy): T {
+  if (data === null || typeof data !== 'object') {
+    return data;
+  }
+
+  const exposed = policy.groups
+    ? (instanceToPlain(data, { groups: policy.groups }) as T)
+    : data;
+
+  if (!policy.enabled) {
+    return exposed;
+  }
+
+  return responseEngine.mask(exposed, policy.fields);
+}
@@ -0,0 +1,67 @@
+import { Request } from 'express';
+import { CacheableOptions } from '../decorators/response-cache.decorator';
+import { buildResponseCacheKey, resolveCacheTags } from './response-cache.util';
+
+const mockRequest = (
+  originalUrl: string,
+  params: Record<string, string> = {},
+): Request => ({ originalUrl, params }) as unknown as Request;
+
+describe('buildResponseCacheKey', () => {
+  it('should default to the URL including the query string', () => {
+    expect(
+      buildResponseCacheKey(mockRequest('/api/products?page=2'), {}, {}),
+    ).toBe('GET /api/products?page=2');
+  });
+
+  it('should use custom keys', () => {
+    const request = mockRequest('/api/products/7', { id: '7' });
+
+    expect(buildResponseCacheKey(request, { key: 'products' }, {})).toBe(
+      'products',
+    );
+    expect(
+      buildResponseCacheKey(
+        request,
+        { key: (req) => `product:${String(req.params.id)}` },
+        {},
+      ),
+    ).toBe('product:7');
+  });
+
+  it('should vary by language and hashed user id', () => {
+    const request = mockRequest('/api/me');
+    const options: CacheableOptions = { varyBy: ['lang', 'user'] };
+
+    const alice = buildResponseCacheKey(request, options, {
+      lang: 'en',
+      userId: 'alice',
+    });
+    const bob = buildResponseCacheKey(request, options, {
+      lang: 'en',
+      userId: 'bob',
+    });
+
+    expect(alice).toMatch(/^GET \/api\/me\|lang=en\|user=[0-9a-f]{16}$/);
+    expect(alice).not.toContain('alice');
+    expect(alice).not.toBe(bob);
+    expect(
+      buildResponseCacheKey(request, { varyBy: ['user'] }, { lang: 'en' }),
+    ).toBe('GET /api/me|user=anonymous');
+  });
+});
+
+describe('resolveCacheTags', () => {
+  it('should resolve request-derived tags and drop duplicates', () => {
+    const request = mockRequest('/api/products/7', { id: '7' });
+
+    expect(
+      resolveCacheTags(request, [
+        'products',
+        (req) => `product:${String(req.params.id)}`,
+        'products',
+      ]),
+    ).toEqual(['products', 'product:7']);
+    expect(resolveCacheTags(request)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import {
+  CacheableOptions,
+  CacheTag,
+} from '../decorators/response-cache.decorator';
+
+/**
+ * Request properties a cache key may vary by.
+ */
+export interface ResponseCacheKeyContext {
+  /** Resolved response language */
+  lang?: string;
+
+  /** Authenticated user id (undefined for anonymous requests) */
+  userId?: string;
+}
+
+/**
+ * Builds the cache key of a @Cacheable() route.
+ * Defaults to `GET <url with query>`; `varyBy` appends the language and a hash
+ * of the user id, so user ids never appear in the store.
+ * @param request - Incoming request
+ * @param options - Route cache settings
+ * @param context - Values for `varyBy`
+ *
+ * @example
+ * buildResponseCacheKey(req, { varyBy: ['lang'] }, { lang: 'en' })
+ * // 'GET /api/products?page=2|lang=en'
+ */
+export function buildResponseCacheKey(
+  request: Request,
+  options: CacheableOptions,
+  context: ResponseCacheKeyContext,
+): string {
+  const base =
+    typeof options.key === 'function'
+      ? options.key(request)
+      : (options.key ?? `GET ${request.originalUrl}`);
+
+  const parts = [base];
+  for (const vary of options.varyBy ?? []) {
+    if (vary === 'lang') {
+      parts.push(`lang=${context.lang ?? ''}`);
+    } else {
+      const user = context.userId
+        ? createHash('sha256')
+            .update(context.userId)
+            .digest('hex')
+            .substring(0, 16)
+        : 'anonymous';
+      parts.push(`user=${user}`);
+    }
+  }
+
+  return parts.join('|');
+}
+
+/**
+ * Resolves fixed and request-derived tags, dropping empty values.
+ * @param request - Incoming request
+ * @param tags - Tags declared via @Cacheable() or @CacheEvict()
+ */
+export function resolveCacheTags(
+  request: Request,
+  tags: CacheTag[] = [],
+): string[] {
+  return [
+    ...new Set(
+      tags.map((tag) => (typeof tag === 'function' ? tag(request) : tag)),
+    ),
+  ].filter(Boolean);
+}
@@ -0,0 +1,42 @@
+import {
+  computeRetryDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+} from './retry.util';
+
+describe('isRetryableStatus', () => {
+  it('should retry transient statuses only', () => {
+    expect([408, 429, 502, 503, 504].every(isRetryableStatus)).toBe(true);
+    expect([400, 404, 409, 500, 501].some(isRetryableStatus)).toBe(false);
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('should grow exponentially up to the cap', () => {
+    const max = () => 0.999999;
+
+    expect(computeRetryDelay(0, 200, 5000, max)).toBe(199);
+    expect(computeRetryDelay(2, 200, 5000, max)).toBe(799);
+    expect(computeRetryDelay(10, 200, 5000, max)).toBe(4999);
+  });
+
+  it('should apply full jitter', () => {
+    expect(computeRetryDelay(3, 200, 5000, () => 0)).toBe(0);
+    expect(computeRetryDelay(3, 200, 5000, () => 0.5)).toBe(800);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('should parse seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 00:00:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
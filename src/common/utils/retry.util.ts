@@ -0,0 +1,54 @@
+/** Methods that can be retried without side effects (RFC 9110 §9.2.2) */
+export const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/** Statuses worth retrying: timeouts, throttling and temporary gateway errors */
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+/**
+ * Whether a response status is transient and the request may be retried.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * `baseMs * 2^attempt`, capped at `maxMs`.
+ * Example: base 200ms -> up to 200ms, 400ms, 800ms, ...
+ * @param attempt - Zero-based retry number
+ * @param baseMs - Base delay
+ * @param maxMs - Upper bound
+ * @param random - Random source in [0, 1)
+ */
+export function computeRetryDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date).
+ * @param value - Header value
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined when absent or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
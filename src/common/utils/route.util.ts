@@ -0,0 +1,15 @@
+import { Request } from 'express';
+
+/** Route label used for requests that did not match any route (404) */
+export const UNMATCHED_ROUTE = 'UNMATCHED';
+
+/**
+ * Returns the route template of the matched route (e.g. `/api/v1/users/:id`).
+ * Raw URLs are never returned so ids and query strings cannot blow up
+ * metric label cardinality.
+ * @param request - Express request
+ */
+export function getRouteTemplate(request: Request): string {
+  const route = request.route as { path?: unknown } | undefined;
+  return typeof route?.path === 'string' ? route.path : UNMATCHED_ROUTE;
+}
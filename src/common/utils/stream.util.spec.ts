@@ -0,0 +1,66 @@
+import { IStreamEventMeta } from '../interfaces/stream-event.interface';
+import {
+  formatNdjsonLine,
+  isMessageEvent,
+  toSseMessage,
+  toStreamEvent,
+} from './stream.util';
+
+const meta: IStreamEventMeta = {
+  requestId: 'req-1',
+  correlationId: 'corr-1',
+  sequence: 3,
+  timestamp: '2024-01-01T00:00:00.000Z',
+};
+
+describe('isMessageEvent', () => {
+  it('should detect objects carrying data', () => {
+    expect(isMessageEvent({ data: 1, type: 'progress' })).toBe(true);
+    expect(isMessageEvent({ percent: 10 })).toBe(false);
+    expect(isMessageEvent('data')).toBe(false);
+    expect(isMessageEvent(null)).toBe(false);
+  });
+});
+
+describe('toStreamEvent', () => {
+  it('should wrap bare values', () => {
+    expect(toStreamEvent({ percent: 10 }, meta)).toEqual({
+      data: { percent: 10 },
+      meta,
+    });
+  });
+
+  it('should envelope the data of message events', () => {
+    expect(
+      toStreamEvent({ data: { percent: 10 }, type: 'progress' }, meta),
+    ).toEqual({ data: { percent: 10 }, meta });
+  });
+});
+
+describe('toSseMessage', () => {
+  it('should default the event id to the sequence', () => {
+    const value = { percent: 10 };
+    expect(toSseMessage(value, toStreamEvent(value, meta))).toEqual({
+      data: { data: value, meta },
+      id: '3',
+    });
+  });
+
+  it('should keep type, id and retry of message events', () => {
+    const value = { data: 1, type: 'progress', id: 'a', retry: 500 };
+    expect(toSseMessage(value, toStreamEvent(value, meta))).toEqual({
+      data: { data: 1, meta },
+      id: 'a',
+      type: 'progress',
+      retry: 500,
+    });
+  });
+});
+
+describe('formatNdjsonLine', () => {
+  it('should serialize one event per line', () => {
+    expect(formatNdjsonLine({ data: 'a\nb', meta })).toBe(
+      `${JSON.stringify({ data: 'a\nb', meta })}\n`,
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { MessageEvent } from '@nestjs/common';
+import {
+  IStreamEvent,
+  IStreamEventMeta,
+} from '../interfaces/stream-event.interface';
+
+/** Content type of newline-delimited JSON streams */
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Checks whether a value emitted by an `@Sse()` handler is already a
+ * MessageEvent (`{ data, type?, id?, retry? }`) rather than bare data.
+ * @param value - Emitted value
+ */
+export function isMessageEvent(value: unknown): value is MessageEvent {
+  return value !== null && typeof value === 'object' && 'data' in value;
+}
+
+/**
+ * Wraps an emitted value into `{ data, meta }`.
+ * MessageEvents are unwrapped so their `data` is enveloped; their
+ * `type`/`id`/`retry` only apply to SSE.
+ * @param value - Emitted value
+ * @param meta - Meta of this event
+ */
+export function toStreamEvent<T>(
+  value: T | MessageEvent,
+  meta: IStreamEventMeta,
+): IStreamEvent {
+  return {
+    data: isMessageEvent(value) ? value.data : value,
+    meta,
+  };
+}
+
+/**
+ * Builds the SSE message of an emitted value. The event id defaults to the
+ * sequence so clients can report it in `Last-Event-ID` when reconnecting.
+ * @param value - Emitted value
+ * @param event - Enveloped event
+ */
+export function toSseMessage(
+  value: unknown,
+  event: IStreamEvent,
+): MessageEvent {
+  const { type, id, retry }: Partial<MessageEvent> = isMessageEvent(value)
+    ? value
+    : {};
+  return {
+    data: event,
+    id: id ?? String(event.meta.sequence),
+    ...(type ? { type } : {}),
+    ...(retry !== undefined ? { retry } : {}),
+  };
+}
+
+/**
+ * Serializes an event as a single NDJSON line.
+ * @param event - Event or error envelope
+ */
+export function formatNdjsonLine(event: unknown): string {
+  return `${JSON.stringify(event)}\n`;
+}
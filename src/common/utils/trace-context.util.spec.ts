@@ -0,0 +1,78 @@
+import {
+  extractTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+  parseTracestate,
+} from './trace-context.util';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('parseTraceparent', () => {
+  it('should parse a valid version 00 header', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 1,
+    });
+  });
+
+  it('should reject malformed headers and all-zero IDs', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('garbage')).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-x`)).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`),
+    ).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`),
+    ).toBeUndefined();
+  });
+
+  it('should accept unknown future versions with extra fields', () => {
+    expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-00-extra`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 0,
+    });
+  });
+});
+
+describe('parseTracestate', () => {
+  it('should drop invalid members and keep order', () => {
+    expect(parseTracestate('congo=t61rcWkgMzE, INVALID, rojo=00f067aa')).toBe(
+      'congo=t61rcWkgMzE,rojo=00f067aa',
+    );
+  });
+
+  it('should discard headers with more than 32 members', () => {
+    const members = Array.from({ length: 33 }, (_, i) => `k${i}=v`);
+    expect(parseTracestate(members.join(','))).toBeUndefined();
+  });
+});
+
+describe('extractTraceContext', () => {
+  it('should ignore tracestate without a valid traceparent', () => {
+    expect(extractTraceContext({ tracestate: 'congo=t61' })).toBeUndefined();
+    expect(
+      extractTraceContext({
+        traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`,
+        tracestate: 'congo=t61',
+      }),
+    ).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 1,
+      traceState: 'congo=t61',
+    });
+  });
+});
+
+describe('formatTraceparent', () => {
+  it('should round-trip a parsed header', () => {
+    const header = `00-${TRACE_ID}-${SPAN_ID}-01`;
+    const context = parseTraceparent(header);
+    expect(context && formatTraceparent(context)).toBe(header);
+  });
+});
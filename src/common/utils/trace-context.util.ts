@@ -0,0 +1,126 @@
+import { randomBytes } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { ITraceContext } from '../interfaces/trace-context.interface';
+import { RequestContextService } from '../services/request-context.service';
+
+/** W3C Trace Context header names */
+export const TRACEPARENT_HEADER = 'traceparent';
+export const TRACESTATE_HEADER = 'tracestate';
+
+/** Trace flag marking a trace as sampled */
+export const SAMPLED_FLAG = 0x01;
+
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const TRACESTATE_MEMBER_PATTERN =
+  /^[a-z0-9][_0-9a-z\-*/@]{0,255}=[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+const MAX_TRACESTATE_MEMBERS = 32;
+
+/**
+ * Returns the trace context of the request being processed, if any.
+ */
+export function getActiveTraceContext(): ITraceContext | undefined {
+  return RequestContextService.current()?.traceContext;
+}
+
+/**
+ * Generates a random 16-byte trace ID.
+ */
+export function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Generates a random 8-byte span ID.
+ */
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Parses a `traceparent` header.
+ * Invalid headers (unknown format, all-zero IDs, version `ff`) are ignored,
+ * as required by the W3C Trace Context specification.
+ * @param header - Raw header value
+ * @returns Context of the remote parent span, or undefined when missing/invalid
+ */
+export function parseTraceparent(
+  header: string | string[] | undefined,
+): ITraceContext | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value ? TRACEPARENT_PATTERN.exec(value.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, parentSpanId, flags, extra] = match;
+  if (
+    version === 'ff' ||
+    (version === '00' && extra !== undefined) ||
+    /^0+$/.test(traceId) ||
+    /^0+$/.test(parentSpanId)
+  ) {
+    return undefined;
+  }
+
+  return { traceId, spanId: parentSpanId, traceFlags: parseInt(flags, 16) };
+}
+
+/**
+ * Validates a `tracestate` header, dropping malformed list members.
+ * The whole header is discarded when it exceeds 32 members.
+ * @param header - Raw header value (multiple headers are combined)
+ * @returns Normalized header or undefined
+ */
+export function parseTracestate(
+  header: string | string[] | undefined,
+): string | undefined {
+  const value = Array.isArray(header) ? header.join(',') : header;
+  if (!value) {
+    return undefined;
+  }
+
+  const members = value
+    .split(',')
+    .map((member) => member.trim())
+    .filter((member) => TRACESTATE_MEMBER_PATTERN.test(member));
+
+  if (members.length === 0 || members.length > MAX_TRACESTATE_MEMBERS) {
+    return undefined;
+  }
+
+  return members.join(',');
+}
+
+/**
+ * Extracts the remote parent context from W3C Trace Context headers.
+ * `tracestate` is only honoured together with a valid `traceparent`.
+ * @param headers - Incoming request headers
+ */
+export function extractTraceContext(
+  headers: IncomingHttpHeaders,
+): ITraceContext | undefined {
+  const parent = parseTraceparent(headers[TRACEPARENT_HEADER]);
+  if (!parent) {
+    return undefined;
+  }
+
+  const traceState = parseTracestate(headers[TRACESTATE_HEADER]);
+  return traceState ? { ...parent, traceState } : parent;
+}
+
+/**
+ * Formats a trace context as a version 00 `traceparent` header.
+ * @param context - Trace context whose span becomes the parent downstream
+ */
+export function formatTraceparent(context: ITraceContext): string {
+  const flags = context.traceFlags.toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Whether the sampled flag is set.
+ */
+export function isSampled(context: ITraceContext): boolean {
+  return (context.traceFlags & SAMPLED_FLAG) === SAMPLED_FLAG;
+}
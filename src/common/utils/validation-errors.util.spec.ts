@@ -0,0 +1,131 @@
+import { ValidationError } from '@nestjs/common';
+import { I18nService } from 'nestjs-i18n';
+import {
+  collectValidationMessages,
+  flattenValidationErrors,
+  translateValidationErrors,
+} from './validation-errors.util';
+
+describe('translateValidationErrors', () => {
+  const i18n = {
+    translate: jest.fn(
+      (key: string, options?: { args?: Record<string, unknown> }) =>
+        key === 'validation.MIN'
+          ? `${String(options?.args?.property)} must be at least ${String(options?.args?.constraints)}`
+          : key,
+    ),
+  } as unknown as I18nService;
+
+  it('should translate i18n-encoded messages with their arguments', () => {
+    const [error] = translateValidationErrors(
+      [
+        {
+          property: 'qty',
+          value: 0,
+          constraints: { min: 'validation.MIN|{"constraints":1}' },
+        },
+      ],
+      i18n,
+      'en',
+    );
+
+    expect(error.constraints).toEqual({ min: 'qty must be at least 1' });
+  });
+
+  it('should pass plain messages containing a pipe through unchanged', () => {
+    const [error] = translateValidationErrors(
+      [
+        {
+          property: 'format',
+          value: 'xml',
+          constraints: {
+            isIn: 'format must be json|csv',
+            matches: 'separator must be one of | or ,',
+          },
+        },
+      ],
+      i18n,
+      'en',
+    );
+
+    expect(error.constraints).toEqual({
+      isIn: 'format must be json|csv',
+      matches: 'separator must be one of | or ,',
+    });
+  });
+});
+
+describe('flattenValidationErrors', () => {
+  it('should key errors by full property path', () => {
+    const errors: ValidationError[] = [
+      {
+        property: 'email',
+        value: 'not-an-email',
+        constraints: { isEmail: 'Lütfen geçerli bir e-posta adresi giriniz.' },
+      },
+      {
+        property: 'address',
+        value: {},
+        children: [
+          {
+            property: 'street',
+            value: '',
+            constraints: { isNotEmpty: 'street field cannot be empty!' },
+          },
+        ],
+      },
+      {
+        property: 'items',
+        value: [],
+        children: [
+          {
+            property: '2',
+            value: {},
+            children: [
+              {
+                property: 'qty',
+                value: 0,
+                constraints: { min: 'qty must not be less than 1' },
+              },
+            ],
+          },
+        ],
+      },
+    ];
+
+    expect(flattenValidationErrors(errors)).toEqual({
+      email: [
+        {
+          constraint: 'isEmail',
+          message: 'Lütfen geçerli bir e-posta adresi giriniz.',
+          value: 'not-an-email',
+        },
+      ],
+      'address.street': [
+        {
+          constraint: 'isNotEmpty',
+          message: 'street field cannot be empty!',
+          value: '',
+        },
+      ],
+      'items[2].qty': [
+        { constraint: 'min', message: 'qty must not be less than 1', value: 0 },
+      ],
+    });
+  });
+
+  it('should mask rejected values of sensitive fields', () => {
+    const result = flattenValidationErrors([
+      {
+        property: 'password',
+        value: 'hunter2',
+        constraints: { minLength: 'password is too short' },
+      },
+    ]);
+
+    expect(result.password[0].value).toBe('***MASKED***');
+    expect(collectValidationMessages(result)).toEqual([
+      'password is too short',
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { ValidationError } from '@nestjs/common';
+import { I18nService } from 'nestjs-i18n';
+import { IValidationErrorDetail } from '../interfaces/validation-error-detail.interface';
+import { maskSensitiveData } from './mask.util';
+
+/**
+ * Translates constraint messages of a ValidationError tree in the given language.
+ * I18nValidationPipe encodes messages as `key|{"args":...}` (see i18nValidationMessage);
+ * plain class-validator messages (even ones containing `|`) are passed through unchanged.
+ * @param errors - ValidationError tree from I18nValidationException
+ * @param i18n - I18n service used for translation
+ * @param lang - Target language
+ * @returns A translated copy of the tree
+ */
+export function translateValidationErrors(
+  errors: ValidationError[],
+  i18n: I18nService,
+  lang: string,
+): ValidationError[] {
+  return errors.map((error) => ({
+    ...error,
+    children: translateValidationErrors(error.children ?? [], i18n, lang),
+    constraints: Object.fromEntries(
+      Object.entries(error.constraints ?? {}).map(([constraint, raw]) => {
+        const separatorIndex = raw.indexOf('|');
+        if (separatorIndex === -1) {
+          return [constraint, i18n.translate(raw, { lang })];
+        }
+
+        // A plain message that merely contains `|` is passed through unchanged
+        const args = parseMessageArgs(raw.substring(separatorIndex + 1));
+        if (!args) {
+          return [constraint, raw];
+        }
+
+        const key = raw.substring(0, separatorIndex);
+        return [
+          constraint,
+          i18n.translate(key, {
+            lang,
+            args: {
+              property: error.property,
+              value: error.value as unknown,
+              ...args,
+            },
+          }),
+        ];
+      }),
+    ) as Record<string, string>,
+  }));
+}
+
+/**
+ * Flattens a (translated) ValidationError tree into details keyed by full property path.
+ * Array indexes use bracket notation, nested objects use dot notation.
+ * Example: items -> 2 -> qty  =>  { 'items[2].qty': [{ constraint: 'min', message: '...', value: 0 }] }
+ * @param errors - ValidationError tree (as produced by I18nValidationPipe)
+ * @param parentPath - Path of the parent property (used during recursion)
+ * @returns Validation error details grouped by property path
+ */
+export function flattenValidationErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): Record<string, IValidationErrorDetail[]> {
+  const result: Record<string, IValidationErrorDetail[]> = {};
+
+  for (const error of errors) {
+    const path = buildPropertyPath(parentPath, error.property);
+    const constraints = Object.entries(error.constraints ?? {});
+
+    if (constraints.length > 0) {
+      // Mask via the property name so sensitive fields never leak their value
+      const maskedValue = maskSensitiveData<Record<string, unknown>>({
+        [error.property]: error.value as unknown,
+      })[error.property];
+
+      result[path] = constraints.map(([constraint, message]) => ({
+        constraint,
+        message,
+        value: maskedValue,
+      }));
+    }
+
+    if (error.children?.length) {
+      Object.assign(result, flattenValidationErrors(error.children, path));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Collects every constraint message from flattened validation errors.
+ * @param errors - Validation error details grouped by property path
+ * @returns Flat list of messages
+ */
+export function collectValidationMessages(
+  errors: Record<string, IValidationErrorDetail[]>,
+): string[] {
+  return Object.values(errors).flatMap((details) =>
+    details.map((detail) => detail.message),
+  );
+}
+
+/**
+ * Parses the JSON arguments of an i18n-encoded validation message.
+ * Returns undefined when the text is not a JSON object.
+ */
+function parseMessageArgs(
+  encoded: string,
+): Record<string, unknown> | undefined {
+  try {
+    const args: unknown = JSON.parse(encoded);
+    return args && typeof args === 'object' && !Array.isArray(args)
+      ? (args as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Appends a property to a path, using brackets for array indexes.
+ */
+function buildPropertyPath(parentPath: string, property: string): string {
+  if (!parentPath) {
+    return property;
+  }
+
+  return /^\d+$/.test(property)
+    ? `${parentPath}[${property}]`
+    : `${parentPath}.${property}`;
+}
@@ -0,0 +1,23 @@
+import { IsBoolean, IsEmail, IsOptional } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+
+/**
+ * Body of PATCH /settings. Omitted fields keep their current value;
+ * unknown fields are rejected by the global I18nValidationPipe.
+ */
+export class UpdateSettingsDto {
+  @IsOptional()
+  @IsBoolean({
+    message: i18nValidationMessage('common.VALIDATION.INVALID_BOOLEAN', {
+      field: 'maintenanceMode',
+    }),
+  })
+  maintenanceMode?: boolean;
+
+  @IsOptional()
+  @IsEmail(
+    {},
+    { message: i18nValidationMessage('common.VALIDATION.INVALID_EMAIL') },
+  )
+  supportEmail?: string;
+}
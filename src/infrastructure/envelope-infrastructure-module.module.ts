@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { getEnvelopeProfileOptions } from 'src/common/config/envelope-profile.config';
+import { configureEnvelopeProfiles } from 'src/common/utils/envelope-profile.util';
+
+@Module({
+  imports: [ConfigModule],
+})
+export class EnvelopeInfrastructureModule {
+  constructor(configService: ConfigService) {
+    // Configure which meta fields each envelope profile sends
+    configureEnvelopeProfiles(getEnvelopeProfileOptions(configService));
+  }
+}
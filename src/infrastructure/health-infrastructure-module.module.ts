@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { I18nService } from 'nestjs-i18n';
+import { getDefaultHealthIndicators } from 'src/common/config/health.config';
+import { HealthController } from 'src/common/controllers/health.controller';
+import { HealthIndicatorRegistry } from 'src/common/services/health-indicator-registry.service';
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [HealthController],
+  providers: [HealthIndicatorRegistry],
+  exports: [HealthIndicatorRegistry],
+})
+export class HealthInfrastructureModule {
+  constructor(
+    registry: HealthIndicatorRegistry,
+    configService: ConfigService,
+    i18n: I18nService,
+  ) {
+    // Register built-in readiness indicators
+    getDefaultHealthIndicators(configService, i18n).forEach((indicator) =>
+      registry.register(indicator),
+    );
+  }
+}
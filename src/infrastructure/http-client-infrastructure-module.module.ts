@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { HttpClientService } from 'src/common/services/http-client.service';
+import { TracingInfrastructureModule } from 'src/infrastructure/tracing-infrastructure-module.module';
+
+/**
+ * Provides HttpClientService. Import this module wherever outbound calls are made.
+ */
+@Module({
+  imports: [ConfigModule, TracingInfrastructureModule],
+  providers: [HttpClientService],
+  exports: [HttpClientService],
+})
+export class HttpClientInfrastructureModule {}
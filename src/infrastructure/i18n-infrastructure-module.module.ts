@@ -1,7 +1,8 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { I18nModule, AcceptLanguageResolver } from 'nestjs-i18n';
+import { I18nModule } from 'nestjs-i18n';
 import * as path from 'path';
+import { LanguageResolver } from 'src/common/resolvers/language.resolver';
 
 @Module({
   imports: [
@@ -16,7 +17,8 @@ import * as path from 'path';
           path: path.join(process.cwd(), configService.getOrThrow('I18N_PATH')),
         },
       }),
-      resolvers: [AcceptLanguageResolver],
+      // Query, x-lang header, cookie, user preference and Accept-Language (LANGUAGE_RESOLVERS)
+      resolvers: [LanguageResolver],
     }),
   ],
 })
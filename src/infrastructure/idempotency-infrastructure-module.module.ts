@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { IDEMPOTENCY_STORE } from 'src/common/interfaces/idempotency-store.interface';
+import { InMemoryIdempotencyStore } from 'src/common/stores/in-memory.idempotency-store';
+
+/**
+ * Provides the idempotency store. IdempotencyInterceptor itself is registered
+ * in AppModule, before TransformInterceptor, so it wraps the envelope.
+ */
+@Module({
+  providers: [
+    {
+      provide: IDEMPOTENCY_STORE,
+      useClass: InMemoryIdempotencyStore,
+    },
+  ],
+  exports: [IDEMPOTENCY_STORE],
+})
+export class IdempotencyInfrastructureModule {}
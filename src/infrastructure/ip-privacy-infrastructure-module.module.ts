@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { getIpPrivacyOptions } from 'src/common/config/ip-privacy.config';
+import { configureIpPrivacy } from 'src/common/utils/ip-privacy.util';
+
+@Module({
+  imports: [ConfigModule],
+})
+export class IpPrivacyInfrastructureModule {
+  constructor(configService: ConfigService) {
+    // Configure how client IPs appear in responses and logs
+    configureIpPrivacy(getIpPrivacyOptions(configService));
+  }
+}
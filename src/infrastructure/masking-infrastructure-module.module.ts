@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  getMaskingOptions,
+  getResponseRedactionOptions,
+} from 'src/common/config/masking.config';
+import { configureMasking } from 'src/common/utils/mask.util';
+import { configureResponseRedaction } from 'src/common/utils/redaction.util';
+
+@Module({
+  imports: [ConfigModule],
+})
+export class MaskingInfrastructureModule {
+  constructor(configService: ConfigService) {
+    // Configure the masking engine used by maskSensitiveData
+    configureMasking(getMaskingOptions(configService));
+    // Response data gets its own key-only engine (see redactResponseData)
+    configureResponseRedaction(getResponseRedactionOptions(configService));
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MetricsController } from 'src/common/controllers/metrics.controller';
+import { MetricsService } from 'src/common/services/metrics.service';
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [MetricsController],
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsInfrastructureModule {}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { RateLimitGuard } from 'src/common/guards/rate-limit.guard';
+import { RATE_LIMIT_STORE } from 'src/common/interfaces/rate-limit-store.interface';
+import { RateLimitService } from 'src/common/services/rate-limit.service';
+import { InMemoryRateLimitStore } from 'src/common/stores/in-memory.rate-limit-store';
+
+/**
+ * Provides the rate limit store and RateLimitGuard. RateLimitInterceptor
+ * (user-keyed limits) is registered in AppModule, before the other interceptors.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      useClass: InMemoryRateLimitStore,
+    },
+    RateLimitService,
+    {
+      provide: APP_GUARD,
+      useClass: RateLimitGuard,
+    },
+  ],
+  exports: [RATE_LIMIT_STORE, RateLimitService],
+})
+export class RateLimitInfrastructureModule {}
@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { RequestContextService } from 'src/common/services/request-context.service';
+
+@Global()
+@Module({
+  providers: [RequestContextService],
+  exports: [RequestContextService],
+})
+export class RequestContextInfrastructureModule {}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { getResponseCacheOptions } from 'src/common/config/response-cache.config';
+import { RESPONSE_CACHE_STORE } from 'src/common/interfaces/response-cache-store.interface';
+import { LruResponseCacheStore } from 'src/common/stores/lru.response-cache-store';
+
+/**
+ * Provides the response cache store. ResponseCacheInterceptor itself is
+ * registered in AppModule, after TransformInterceptor, so it caches `data`.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: RESPONSE_CACHE_STORE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        new LruResponseCacheStore(getResponseCacheOptions(configService)),
+    },
+  ],
+  exports: [RESPONSE_CACHE_STORE],
+})
+export class ResponseCacheInfrastructureModule {}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { createSpanExporter } from 'src/common/config/tracing.config';
+import { SPAN_EXPORTER } from 'src/common/interfaces/span-exporter.interface';
+import { TracingService } from 'src/common/services/tracing.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: SPAN_EXPORTER,
+      inject: [ConfigService],
+      useFactory: createSpanExporter,
+    },
+    TracingService,
+  ],
+  exports: [TracingService, SPAN_EXPORTER],
+})
+export class TracingInfrastructureModule {}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { getTrustedProxyOptions } from 'src/common/config/trusted-proxy.config';
+import { configureTrustedProxies } from 'src/common/utils/ip.util';
+
+@Module({
+  imports: [ConfigModule],
+})
+export class TrustedProxyInfrastructureModule {
+  constructor(configService: ConfigService) {
+    // Configure which proxies getClientIpInfo trusts
+    configureTrustedProxies(getTrustedProxyOptions(configService));
+  }
+}
@@ -1,4 +1,5 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { VersioningType } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
@@ -6,9 +7,10 @@ import { WinstonModule } from 'nest-winston';
 import { winstonConfig } from './common/config/winston.config';
 import { I18nValidationPipe } from 'nestjs-i18n';
 import { HttpLoggingInterceptor } from './common/interceptors/http-logging.interceptor';
+import { setupSwagger } from './common/config/swagger.config';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     // Implement winston Logger Settings
     logger: WinstonModule.createLogger(winstonConfig),
   });
@@ -18,8 +20,12 @@ async function bootstrap() {
   const port = configService.getOrThrow<number>('PORT');
   const globalPrefix = configService.getOrThrow<string>('GLOBAL_PREFIX');
 
-  // Set Global Prefix
-  app.setGlobalPrefix(globalPrefix);
+  // Set Global Prefix (Prometheus scrapes /metrics at the root)
+  app.setGlobalPrefix(globalPrefix, { exclude: ['metrics'] });
+
+  // Express hashes the whole envelope (requestId, timestamp), so its ETag
+  // never matches; TransformInterceptor sets ETags over the data instead
+  app.set('etag', false);
 
   // Enbale Versioning
   app.enableVersioning({
@@ -38,6 +44,12 @@ async function bootstrap() {
     }),
   );
 
+  // OpenAPI documentation (one document per URI version)
+  setupSwagger(app, configService);
+
+  // Run shutdown hooks (flushes buffered trace spans)
+  app.enableShutdownHooks();
+
   // Start Server !
   await app.listen(port);
 }